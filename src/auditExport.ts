@@ -0,0 +1,501 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { AuditIssue, AuditIssueType, AuditReport } from "./auditReport";
+import { resolveIssuePath } from "./diagnostics";
+import { ActiveAudit } from "./sidebarProvider";
+
+export type ExportFormat = "sarif" | "json" | "markdown" | "html";
+
+const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; detail: string; extension: string }
+> = {
+  sarif: {
+    label: "SARIF 2.1.0",
+    detail: "For code scanning and review tools",
+    extension: "sarif",
+  },
+  json: {
+    label: "JSON",
+    detail: "Summary and issues as parsed from the audit",
+    extension: "json",
+  },
+  markdown: {
+    label: "Markdown",
+    detail: "Summary tables for pull request comments",
+    extension: "md",
+  },
+  html: {
+    label: "HTML",
+    detail: "Self-contained report to share with clients",
+    extension: "html",
+  },
+};
+
+const SEVERITIES: AuditIssueType[] = ["error", "warning", "info"];
+
+const SEVERITY_HEADINGS: Record<AuditIssueType, string> = {
+  error: "❌ Errors",
+  warning: "⚠️ Warnings",
+  info: "ℹ️ Info",
+};
+
+const SARIF_LEVELS: Record<AuditIssueType, string> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+// Issue with its file relative to the workspace folder
+type ExportedIssue = AuditIssue & { filePath?: string };
+
+type ExportContext = {
+  project: string;
+  // Workspace folder path, the base of every exported file path
+  root: string;
+  folder?: string;
+  generatedAt: Date;
+  report: AuditReport;
+  issues: ExportedIssue[];
+};
+
+// "HTFlow: Export Audit Report": write the active project's last audit to a
+// file in the format the user picks. `format` skips the picker, e.g. from a
+// keybinding.
+export async function exportAuditReport(
+  audit: ActiveAudit | undefined,
+  format?: ExportFormat
+) {
+  if (!audit) {
+    vscode.window.showWarningMessage(
+      "HTFlow: Run an audit before exporting a report"
+    );
+    return;
+  }
+
+  if (!format || !EXPORT_FORMATS[format]) {
+    const picked = await vscode.window.showQuickPick(
+      (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((value) => ({
+        label: EXPORT_FORMATS[value].label,
+        detail: EXPORT_FORMATS[value].detail,
+        format: value,
+      })),
+      { placeHolder: "Export the last audit as" }
+    );
+    if (!picked) {
+      return;
+    }
+    format = picked.format;
+  }
+
+  const { label, extension } = EXPORT_FORMATS[format];
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(
+      audit.workspaceFolder.uri,
+      `htflow-audit.${extension}`
+    ),
+    filters: { [label]: [extension] },
+    saveLabel: "Export",
+  });
+  if (!target) {
+    return;
+  }
+
+  try {
+    const content = formatAuditReport(format, createContext(audit));
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, "utf8"));
+    console.log(`HTFlow: Exported ${format} audit report to ${target.fsPath}`);
+
+    const action = await vscode.window.showInformationMessage(
+      `HTFlow: Audit report exported to ${vscode.workspace.asRelativePath(
+        target
+      )}`,
+      "Open"
+    );
+    if (action === "Open") {
+      if (format === "html") {
+        await vscode.env.openExternal(target);
+      } else {
+        await vscode.window.showTextDocument(target);
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(
+      `HTFlow: Failed to export audit report: ${message}`
+    );
+  }
+}
+
+function createContext(audit: ActiveAudit): ExportContext {
+  const root = audit.workspaceFolder.uri.fsPath;
+  return {
+    project: audit.workspaceFolder.name,
+    root,
+    folder: audit.folder?.trim() || undefined,
+    generatedAt: new Date(),
+    report: audit.report,
+    issues: audit.report.issues.map((issue) => {
+      const absolute = resolveIssuePath(
+        issue,
+        audit.workspaceFolder,
+        audit.folder
+      );
+      const relative = absolute && path.relative(root, absolute);
+      return {
+        ...issue,
+        // Files outside the workspace folder keep their absolute path
+        filePath:
+          relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+            ? relative.split(path.sep).join("/")
+            : absolute,
+      };
+    }),
+  };
+}
+
+function formatAuditReport(
+  format: ExportFormat,
+  context: ExportContext
+): string {
+  switch (format) {
+    case "sarif":
+      return JSON.stringify(toSarif(context), null, 2);
+    case "json":
+      return JSON.stringify(toJson(context), null, 2);
+    case "markdown":
+      return toMarkdown(context);
+    case "html":
+      return toHtml(context);
+  }
+}
+
+// https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+function toSarif(context: ExportContext) {
+  const rules: { id: string; issue: AuditIssue }[] = [];
+  const ruleIndex = (issue: AuditIssue): number => {
+    const id = ruleId(issue);
+    let index = rules.findIndex((rule) => rule.id === id);
+    if (index === -1) {
+      index = rules.push({ id, issue }) - 1;
+    }
+    return index;
+  };
+
+  const results = context.issues.map((issue) => {
+    const index = ruleIndex(issue);
+    return {
+      ruleId: rules[index].id,
+      ruleIndex: index,
+      level: SARIF_LEVELS[issue.type],
+      message: {
+        text: issue.description
+          ? `${issue.title}: ${issue.description}`
+          : issue.title,
+      },
+      locations: issue.filePath
+        ? [
+            {
+              physicalLocation: {
+                artifactLocation: path.isAbsolute(issue.filePath)
+                  ? { uri: pathToFileURL(issue.filePath).href }
+                  : { uri: encodeURI(issue.filePath), uriBaseId: "SRCROOT" },
+                region: issue.line
+                  ? {
+                      startLine: issue.line,
+                      startColumn: issue.column,
+                      snippet: issue.code.trim()
+                        ? { text: issue.code.trim() }
+                        : undefined,
+                    }
+                  : undefined,
+              },
+            },
+          ]
+        : undefined,
+      properties: issue.fix ? { fix: issue.fix } : undefined,
+    };
+  });
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "HTFlow",
+            informationUri: "https://htflow.com",
+            rules: rules.map(({ id, issue }) => ({
+              id,
+              shortDescription: { text: issue.title },
+              help: issue.fix ? { text: issue.fix } : undefined,
+              defaultConfiguration: { level: SARIF_LEVELS[issue.type] },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: `${pathToFileURL(context.root).href}/` },
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            endTimeUtc: context.generatedAt.toISOString(),
+          },
+        ],
+        results,
+      },
+    ],
+  };
+}
+
+function toJson(context: ExportContext) {
+  return {
+    generatedAt: context.generatedAt.toISOString(),
+    project: context.project,
+    folder: context.folder,
+    format: context.report.format,
+    summary: context.report.summary,
+    issues: context.issues.map(({ filePath, ...issue }) => ({
+      ...issue,
+      file: filePath,
+    })),
+  };
+}
+
+function toMarkdown(context: ExportContext): string {
+  const { summary } = context.report;
+  const lines = [
+    "## HTFlow Audit Report",
+    "",
+    `**Project:** ${markdownText(
+      describeProject(context)
+    )} · ${context.generatedAt.toLocaleString()}`,
+    "",
+    "| ❌ Errors | ⚠️ Warnings | ℹ️ Info | Files |",
+    "| --- | --- | --- | --- |",
+    `| ${summary.errors} | ${summary.warnings} | ${summary.info} | ${summary.files} |`,
+    "",
+  ];
+
+  if (context.issues.length === 0) {
+    lines.push("✅ No issues found.", "");
+    return lines.join("\n");
+  }
+
+  for (const severity of SEVERITIES) {
+    const issues = context.issues.filter((issue) => issue.type === severity);
+    if (issues.length === 0) {
+      continue;
+    }
+
+    lines.push(
+      `### ${SEVERITY_HEADINGS[severity]} (${issues.length})`,
+      "",
+      "| Location | Rule | Issue | Fix |",
+      "| --- | --- | --- | --- |",
+      ...issues.map((issue) => {
+        const cells = [
+          location(issue) ? `\`${markdownText(location(issue))}\`` : "",
+          issue.rule ? `\`${markdownText(issue.rule)}\`` : "",
+          markdownText(issue.title),
+          markdownText(issue.fix),
+        ];
+        return `| ${cells.join(" | ")} |`;
+      }),
+      ""
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function toHtml(context: ExportContext): string {
+  const { summary } = context.report;
+  const sections = SEVERITIES.map((severity) => {
+    const issues = context.issues.filter((issue) => issue.type === severity);
+    if (issues.length === 0) {
+      return "";
+    }
+
+    const rows = issues
+      .map(
+        (issue) => `
+        <tr>
+          <td class="location">${escapeHtml(location(issue))}</td>
+          <td><code>${escapeHtml(issue.rule ?? "")}</code></td>
+          <td>
+            <strong>${escapeHtml(issue.title)}</strong>
+            ${
+              issue.description ? `<p>${escapeHtml(issue.description)}</p>` : ""
+            }
+            ${
+              issue.code.trim()
+                ? `<pre>${escapeHtml(issue.code.trim())}</pre>`
+                : ""
+            }
+            ${issue.fix ? `<p class="fix">💡 ${escapeHtml(issue.fix)}</p>` : ""}
+          </td>
+        </tr>`
+      )
+      .join("");
+
+    return `
+    <section>
+      <h2>${SEVERITY_HEADINGS[severity]} (${issues.length})</h2>
+      <table>
+        <thead>
+          <tr><th>Location</th><th>Rule</th><th>Issue</th></tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </section>`;
+  }).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>HTFlow Audit Report · ${escapeHtml(context.project)}</title>
+    <style>
+      :root {
+        color-scheme: light dark;
+        --error: #d73a49;
+        --warning: #c69026;
+        --info: #0366d6;
+        --muted: #6a737d;
+        --border: rgba(127, 127, 127, 0.3);
+      }
+      body {
+        margin: 0 auto;
+        padding: 32px 24px;
+        max-width: 1100px;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+        line-height: 1.5;
+      }
+      header p {
+        color: var(--muted);
+      }
+      .summary {
+        display: flex;
+        gap: 16px;
+        margin: 24px 0;
+      }
+      .stat {
+        flex: 1;
+        padding: 16px;
+        border: 1px solid var(--border);
+        border-radius: 8px;
+        text-align: center;
+      }
+      .stat strong {
+        display: block;
+        font-size: 28px;
+      }
+      .stat.error strong {
+        color: var(--error);
+      }
+      .stat.warning strong {
+        color: var(--warning);
+      }
+      .stat.info strong {
+        color: var(--info);
+      }
+      table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+      th,
+      td {
+        padding: 8px;
+        border-bottom: 1px solid var(--border);
+        text-align: left;
+        vertical-align: top;
+      }
+      td p {
+        margin: 4px 0;
+      }
+      .location {
+        font-family: monospace;
+        white-space: nowrap;
+      }
+      pre {
+        margin: 8px 0;
+        padding: 8px;
+        overflow-x: auto;
+        border-radius: 4px;
+        background: rgba(127, 127, 127, 0.12);
+      }
+      .fix {
+        color: var(--muted);
+      }
+    </style>
+  </head>
+  <body>
+    <header>
+      <h1>🚀 HTFlow Audit Report</h1>
+      <p>${escapeHtml(describeProject(context))} · ${escapeHtml(
+    context.generatedAt.toLocaleString()
+  )}</p>
+    </header>
+    <div class="summary">
+      <div class="stat error"><strong>${summary.errors}</strong>Errors</div>
+      <div class="stat warning"><strong>${
+        summary.warnings
+      }</strong>Warnings</div>
+      <div class="stat info"><strong>${summary.info}</strong>Info</div>
+      <div class="stat"><strong>${summary.files}</strong>Files</div>
+    </div>
+    ${context.issues.length === 0 ? "<p>✅ No issues found.</p>" : sections}
+  </body>
+</html>
+`;
+}
+
+function ruleId(issue: AuditIssue): string {
+  return (
+    issue.rule ||
+    issue.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") ||
+    "htflow"
+  );
+}
+
+// "src/index.html:12:5"
+function location(issue: ExportedIssue): string {
+  if (!issue.filePath) {
+    return "";
+  }
+  return [issue.filePath, issue.line, issue.line && issue.column]
+    .filter(Boolean)
+    .join(":");
+}
+
+function describeProject(context: ExportContext): string {
+  return context.folder
+    ? `${context.project} / ${context.folder}`
+    : context.project;
+}
+
+// Keep table cells on one line, and stop text from ending them or being
+// rendered as HTML
+function markdownText(text: string): string {
+  return text
+    .replace(/\s*\n\s*/g, " ")
+    .replace(/\|/g, "\\|")
+    .replace(/</g, "&lt;");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
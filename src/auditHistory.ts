@@ -0,0 +1,177 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AuditIssue,
+  AuditReport,
+  AuditReportFormat,
+  AuditSummary,
+} from "./auditReport";
+
+// Runs kept per workspace folder; the oldest are dropped first
+const MAX_RUNS = 50;
+const HISTORY_FILE = "audit-history.json";
+
+// Prompts are long and can be rebuilt, so they are not stored
+export type AuditRunIssue = Omit<AuditIssue, "prompt">;
+
+export type AuditRun = {
+  id: string;
+  // ISO timestamp of when the audit finished
+  timestamp: string;
+  // Workspace folder URI
+  workspaceFolder: string;
+  // Folder the audit ran on, relative to the workspace folder
+  folder?: string;
+  format: AuditReportFormat;
+  summary: AuditSummary;
+  issues: AuditRunIssue[];
+};
+
+export type AuditDiff = {
+  // In the newer run only
+  added: AuditRunIssue[];
+  // In the older run only
+  fixed: AuditRunIssue[];
+  unchanged: AuditRunIssue[];
+};
+
+// Every audit report, stored as JSON in the extension's workspace storage so
+// runs can be compared after a refactor. Without a workspace (no storage
+// folder) the history only lives for the session.
+export class HTFlowAuditHistory {
+  private _runs: AuditRun[] = [];
+  private readonly _filePath?: string;
+  // Writes are chained so they land in order
+  private _saving: Promise<void> = Promise.resolve();
+
+  constructor(storageUri: vscode.Uri | undefined) {
+    this._filePath = storageUri
+      ? path.join(storageUri.fsPath, HISTORY_FILE)
+      : undefined;
+    this.load();
+  }
+
+  // Runs of a workspace folder, oldest first
+  public runs(workspaceFolder: vscode.WorkspaceFolder): AuditRun[] {
+    const key = workspaceFolder.uri.toString();
+    return this._runs.filter((run) => run.workspaceFolder === key);
+  }
+
+  public get(id: string): AuditRun | undefined {
+    return this._runs.find((run) => run.id === id);
+  }
+
+  public add(
+    workspaceFolder: vscode.WorkspaceFolder,
+    folder: string | undefined,
+    report: AuditReport
+  ): AuditRun {
+    const run: AuditRun = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: new Date().toISOString(),
+      workspaceFolder: workspaceFolder.uri.toString(),
+      folder: folder?.trim() || undefined,
+      format: report.format,
+      summary: { ...report.summary },
+      issues: report.issues.map(({ prompt, ...issue }) => issue),
+    };
+    this._runs.push(run);
+
+    const runs = this.runs(workspaceFolder);
+    if (runs.length > MAX_RUNS) {
+      const dropped = new Set(runs.slice(0, runs.length - MAX_RUNS));
+      this._runs = this._runs.filter((candidate) => !dropped.has(candidate));
+    }
+
+    this.save();
+    return run;
+  }
+
+  public clear(workspaceFolder: vscode.WorkspaceFolder) {
+    const key = workspaceFolder.uri.toString();
+    this._runs = this._runs.filter((run) => run.workspaceFolder !== key);
+    this.save();
+  }
+
+  private load() {
+    if (!this._filePath || !fs.existsSync(this._filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this._filePath, "utf8"));
+      if (Array.isArray(data?.runs)) {
+        this._runs = data.runs;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`HTFlow: Could not read audit history: ${message}`);
+    }
+  }
+
+  private save() {
+    const filePath = this._filePath;
+    if (!filePath) {
+      return;
+    }
+
+    const content = JSON.stringify({ runs: this._runs });
+    this._saving = this._saving
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content, "utf8");
+      })
+      .catch((error) => {
+        console.error("HTFlow: Failed to save audit history:", error);
+      });
+  }
+}
+
+// Compare two runs. Issues are matched on file, rule and title rather than
+// line numbers, so edits above an issue do not make it look new.
+export function diffAudits(base: AuditRun, head: AuditRun): AuditDiff {
+  const remaining = new Map<string, AuditRunIssue[]>();
+  for (const issue of base.issues) {
+    const key = issueKey(issue);
+    remaining.set(key, [...(remaining.get(key) ?? []), issue]);
+  }
+
+  const diff: AuditDiff = { added: [], fixed: [], unchanged: [] };
+  for (const issue of head.issues) {
+    const matches = remaining.get(issueKey(issue));
+    if (matches && matches.length > 0) {
+      matches.shift();
+      diff.unchanged.push(issue);
+    } else {
+      diff.added.push(issue);
+    }
+  }
+  remaining.forEach((issues) => diff.fixed.push(...issues));
+
+  return diff;
+}
+
+// Identity of an issue that survives line shifts; also used to match
+// baseline entries. The source snippet is left out: the CLI's JSON and text
+// listings and the built-in validator each quote a different one (or none)
+// for the same finding.
+export function issueKey(
+  issue: Pick<AuditIssue, "file" | "rule" | "title">
+): string {
+  return [
+    issue.file ?? "",
+    issue.rule ?? "",
+    normalizeMessage(issue.title),
+  ].join("\u0000");
+}
+
+// "Missing htflow-wrapper (line 12)." -> "missing htflow-wrapper"
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/\s*\(?\b(at\s+)?(line|col(umn)?)\s*:?\s*\d+\)?/gi, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/\.$/, "")
+    .toLowerCase();
+}
@@ -0,0 +1,379 @@
+import {
+  AuditIssue,
+  AuditReport,
+  AuditSummary,
+  createEmptyReport,
+  toIssueType,
+} from "./auditReport";
+
+// Parse CLI output into an AuditReport. JSON output (`--json`) is preferred;
+// anything that does not parse as JSON goes through the text parser.
+export function parseAuditOutput(output: string): AuditReport {
+  return parseAuditJson(output) ?? parseAuditText(output);
+}
+
+// Parse the machine-readable output of `htflow audit --json`. Returns
+// undefined when the output does not contain a JSON report.
+export function parseAuditJson(output: string): AuditReport | undefined {
+  const data = extractJson(output);
+  if (data === undefined) {
+    return undefined;
+  }
+
+  const rawIssues = collectJsonIssues(data);
+  if (!rawIssues) {
+    return undefined;
+  }
+
+  const report = createEmptyReport("json");
+  rawIssues.forEach(({ raw, file }, index) => {
+    report.issues.push(toJsonIssue(raw, file, index));
+  });
+
+  const summary = isObject(data) ? data.summary ?? data.stats : undefined;
+  if (isObject(summary)) {
+    report.summary = {
+      files: readCount(summary, ["files", "filesAnalyzed", "fileCount"]),
+      errors: readCount(summary, ["errors", "errorCount"]),
+      warnings: readCount(summary, ["warnings", "warningCount"]),
+      info: readCount(summary, ["info", "infoCount"]),
+      total: readCount(summary, ["total", "totalIssues", "issueCount"]),
+    };
+  }
+
+  if (!report.summary.files && isObject(data) && Array.isArray(data.files)) {
+    report.summary.files = data.files.length;
+  }
+
+  fillMissingCounts(report);
+  return report;
+}
+
+// Parse the human-readable terminal output. Handles both the numbered
+// "Issues Found - Copy & Paste Tips" listing (CLI 1.5+) and the compact
+// `file:line:col severity message [rule]` lines printed by older releases.
+export function parseAuditText(output: string): AuditReport {
+  const lines = stripAnsi(output).split(/\r?\n/);
+  const report = createEmptyReport("text");
+
+  let currentIssue: AuditIssue | undefined;
+  let inIssueSection = false;
+  let inPrompt = false;
+
+  const pushCurrent = () => {
+    if (currentIssue) {
+      report.issues.push(currentIssue);
+      currentIssue = undefined;
+    }
+  };
+
+  for (const line of lines) {
+    const text = line.trim();
+
+    // Compact issue lines come first: "main.js:4 info: ..." is not the
+    // summary's "Info:" count
+    const compact = matchCompactIssue(text);
+    if (compact) {
+      pushCurrent();
+      inPrompt = false;
+      report.issues.push({ ...compact, number: report.issues.length + 1 });
+      continue;
+    }
+
+    // Parse summary (only before the issue list starts)
+    if (!inIssueSection && readSummaryLine(text, report.summary)) {
+      continue;
+    }
+
+    if (/Issues Found/i.test(text)) {
+      inIssueSection = true;
+      continue;
+    }
+
+    if (!text) {
+      continue;
+    }
+
+    if (!inIssueSection) {
+      continue;
+    }
+
+    const header = matchIssueHeader(text);
+    if (header) {
+      pushCurrent();
+      inPrompt = false;
+      currentIssue = header;
+      continue;
+    }
+
+    if (!currentIssue) {
+      continue;
+    }
+
+    if (/^[─━-]{10,}$/.test(text)) {
+      // Separator lines around the Cursor prompt
+      continue;
+    } else if (text.includes("Copy this prompt to Cursor:")) {
+      inPrompt = true;
+    } else if (inPrompt) {
+      currentIssue.prompt += text + "\n";
+    } else if (/💡\s*Fix:/.test(text)) {
+      currentIssue.fix = text.replace(/^.*?💡\s*Fix:/, "").trim();
+    } else if (/^(📁\s*|📍\s*)?File:/.test(text)) {
+      readLocation(
+        text.replace(/^(📁\s*|📍\s*)?File:/, "").trim(),
+        currentIssue
+      );
+    } else if (/^Rule:/.test(text)) {
+      currentIssue.rule = text.replace(/^Rule:/, "").trim();
+    } else if (text.includes("Line:") || text.includes("Code:")) {
+      const lineMatch = text.match(/Line:\s*(\d+)/);
+      if (lineMatch) {
+        currentIssue.line = parseInt(lineMatch[1], 10);
+      }
+      const columnMatch = text.match(/Col(?:umn)?:\s*(\d+)/);
+      if (columnMatch) {
+        currentIssue.column = parseInt(columnMatch[1], 10);
+      }
+      currentIssue.code += text + "\n";
+    } else if (!text.includes("💡") && !text.includes("📋")) {
+      currentIssue.description += text + " ";
+    }
+  }
+
+  pushCurrent();
+
+  for (const issue of report.issues) {
+    issue.description = issue.description.trim();
+    issue.prompt = issue.prompt.trim();
+  }
+
+  fillMissingCounts(report);
+  return report;
+}
+
+function readSummaryLine(text: string, summary: AuditSummary): boolean {
+  if (/Files (Analyzed|Scanned):/i.test(text)) {
+    summary.files = readNumber(text);
+  } else if (/Errors:/i.test(text)) {
+    summary.errors = readNumber(text);
+  } else if (/Warnings:/i.test(text)) {
+    summary.warnings = readNumber(text);
+  } else if (/Info:/i.test(text)) {
+    summary.info = readNumber(text);
+  } else if (/Total( Issues)?:/i.test(text)) {
+    summary.total = readNumber(text);
+  } else {
+    return false;
+  }
+  return true;
+}
+
+// "1. error Missing htflow-wrapper", "2. ⚠️ WARNING: Shorthand property
+// [css-longhand]"
+function matchIssueHeader(text: string): AuditIssue | undefined {
+  const match = text.match(
+    /^(\d+)\.\s*(?:[^\w\s[]+\s*)?(error|warning|info)\b:?\s*(.+)$/i
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const { title, rule } = splitRule(match[3]);
+  return {
+    number: parseInt(match[1], 10),
+    type: toIssueType(match[2]),
+    rule,
+    title,
+    description: "",
+    code: "",
+    fix: "",
+    prompt: "",
+  };
+}
+
+// "index.html:12:5  error  Missing htflow-wrapper  [html-wrapper]"
+function matchCompactIssue(
+  text: string
+): Omit<AuditIssue, "number"> | undefined {
+  const match = text.match(
+    /^(?:[^\w\s./\\]+\s*)?([\w./\\-]+\.\w+):(\d+)(?::(\d+))?\s+[-–]?\s*(error|warning|info)\b:?\s*(.+)$/i
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const { title, rule } = splitRule(match[5]);
+  return {
+    type: toIssueType(match[4]),
+    rule,
+    title,
+    description: "",
+    file: match[1],
+    line: parseInt(match[2], 10),
+    column: match[3] ? parseInt(match[3], 10) : undefined,
+    code: "",
+    fix: "",
+    prompt: "",
+  };
+}
+
+// Rules are printed either as "[rule-id] Title" or "Title [rule-id]"
+function splitRule(text: string): { title: string; rule?: string } {
+  const trimmed = text.trim();
+  const leading = trimmed.match(/^\[([\w-]+)\]\s*(.+)$/);
+  if (leading) {
+    return { title: leading[2].trim(), rule: leading[1] };
+  }
+  const trailing = trimmed.match(/^(.+?)\s+[[(]([\w-]+)[\])]$/);
+  if (trailing && trailing[2].includes("-")) {
+    return { title: trailing[1].trim(), rule: trailing[2] };
+  }
+  return { title: trimmed };
+}
+
+// "index.html", "index.html:12" or "index.html:12:5"
+function readLocation(text: string, issue: AuditIssue) {
+  const match = text.match(/^(.+?)(?::(\d+))?(?::(\d+))?$/);
+  if (!match) {
+    return;
+  }
+  issue.file = match[1];
+  if (match[2]) {
+    issue.line = parseInt(match[2], 10);
+  }
+  if (match[3]) {
+    issue.column = parseInt(match[3], 10);
+  }
+}
+
+function extractJson(output: string): unknown {
+  const text = output.trim();
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  // npx can print notices before the report, so parse from the first bracket
+  const closing = text[start] === "{" ? "}" : "]";
+  const end = text.lastIndexOf(closing);
+  if (end <= start) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+type RawJsonIssue = { raw: Record<string, unknown>; file?: string };
+
+function collectJsonIssues(data: unknown): RawJsonIssue[] | undefined {
+  if (Array.isArray(data)) {
+    const issues = data.filter(isObject).map((raw) => ({ raw }));
+    return issues.length > 0 ? issues : undefined;
+  }
+
+  if (!isObject(data)) {
+    return undefined;
+  }
+
+  if (Array.isArray(data.issues)) {
+    return data.issues.filter(isObject).map((raw) => ({ raw }));
+  }
+
+  // Per-file grouping: { files: [{ file, issues: [...] }] }
+  const groups = data.files ?? data.results;
+  if (Array.isArray(groups)) {
+    const issues: RawJsonIssue[] = [];
+    for (const group of groups.filter(isObject)) {
+      const file =
+        asString(group.file ?? group.filePath ?? group.path) || undefined;
+      const entries = group.issues ?? group.messages ?? [];
+      if (Array.isArray(entries)) {
+        for (const raw of entries.filter(isObject)) {
+          issues.push({ raw, file });
+        }
+      }
+    }
+    return issues;
+  }
+
+  return undefined;
+}
+
+function toJsonIssue(
+  raw: Record<string, unknown>,
+  groupFile: string | undefined,
+  index: number
+): AuditIssue {
+  const location = isObject(raw.location) ? raw.location : raw;
+  const line = Number(location.line);
+  const column = Number(location.column ?? location.col);
+
+  return {
+    number: index + 1,
+    type: toIssueType(raw.severity ?? raw.type ?? raw.level),
+    rule: asString(raw.rule ?? raw.ruleId) || undefined,
+    title: asString(raw.title ?? raw.message),
+    description: asString(raw.description ?? raw.details),
+    file:
+      asString(location.file ?? location.filePath ?? location.path) ||
+      groupFile,
+    line: Number.isFinite(line) && line > 0 ? line : undefined,
+    column: Number.isFinite(column) && column > 0 ? column : undefined,
+    code: asString(raw.snippet ?? raw.source ?? raw.code),
+    fix: asString(raw.fix ?? raw.suggestion),
+    prompt: asString(raw.prompt ?? raw.aiPrompt),
+  };
+}
+
+// Older CLI releases print an empty or partial summary, so derive whatever
+// is missing from the issue list.
+function fillMissingCounts(report: AuditReport) {
+  const { summary, issues } = report;
+  if (!summary.errors && !summary.warnings && !summary.info) {
+    summary.errors = issues.filter((i) => i.type === "error").length;
+    summary.warnings = issues.filter((i) => i.type === "warning").length;
+    summary.info = issues.filter((i) => i.type === "info").length;
+  }
+  if (!summary.total) {
+    summary.total = summary.errors + summary.warnings + summary.info;
+  }
+  if (!summary.files && issues.length > 0) {
+    summary.files = new Set(issues.map((i) => i.file).filter(Boolean)).size;
+  }
+}
+
+function readCount(source: Record<string, unknown>, keys: string[]): number {
+  for (const key of keys) {
+    const value = Number(source[key]);
+    if (Number.isFinite(value)) {
+      return value;
+    }
+  }
+  return 0;
+}
+
+function readNumber(text: string): number {
+  const match = text.match(/\d+/);
+  return match ? parseInt(match[0], 10) : 0;
+}
+
+function asString(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "string" ? value : String(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
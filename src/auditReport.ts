@@ -0,0 +1,98 @@
+// Structured model of an `htflow audit` / `htflow validate` run. The same
+// shape is posted to the webview as `auditResults.report`, so field names
+// follow what htflow-panel.html already renders.
+
+export type AuditIssueType = "error" | "warning" | "info";
+
+export type AuditIssue = {
+  // 1-based position in the CLI listing
+  number: number;
+  type: AuditIssueType;
+  // Rule identifier (e.g. "html-wrapper") when the CLI reports one
+  rule?: string;
+  title: string;
+  description: string;
+  // Path as printed by the CLI, usually relative to the audited folder
+  file?: string;
+  // 1-based line and column
+  line?: number;
+  column?: number;
+  // Offending source snippet
+  code: string;
+  fix: string;
+  prompt: string;
+};
+
+export type AuditSummary = {
+  files: number;
+  errors: number;
+  warnings: number;
+  info: number;
+  total: number;
+};
+
+// An htflow-disable comment that hid no issue in the run
+export type UnusedSuppression = {
+  // Relative to the audited folder, like AuditIssue.file
+  file: string;
+  // 1-based position of the comment
+  line: number;
+  column: number;
+  // Rule ids the comment names; empty when it covers every rule
+  rules: string[];
+  // The comment as written
+  text: string;
+};
+
+// "offline" reports come from the built-in validator instead of the CLI
+export type AuditReportFormat = "json" | "text" | "offline";
+
+export type AuditReport = {
+  summary: AuditSummary;
+  issues: AuditIssue[];
+  // Which CLI output the report was parsed from, or "offline"
+  format: AuditReportFormat;
+  // Issues left out because they are in .htflow-baseline.json
+  baselined?: number;
+  // Issues left out because of htflow-disable comments
+  suppressed?: number;
+  unusedSuppressions?: UnusedSuppression[];
+};
+
+export function createEmptyReport(format: AuditReportFormat): AuditReport {
+  return {
+    summary: {
+      files: 0,
+      errors: 0,
+      warnings: 0,
+      info: 0,
+      total: 0,
+    },
+    issues: [],
+    format,
+  };
+}
+
+export function summarizeIssues(
+  issues: AuditIssue[],
+  files: number
+): AuditSummary {
+  return {
+    files,
+    errors: issues.filter((issue) => issue.type === "error").length,
+    warnings: issues.filter((issue) => issue.type === "warning").length,
+    info: issues.filter((issue) => issue.type === "info").length,
+    total: issues.length,
+  };
+}
+
+export function toIssueType(value: unknown): AuditIssueType {
+  const text = String(value ?? "").toLowerCase();
+  if (text.startsWith("err") || text === "fatal" || text === "critical") {
+    return "error";
+  }
+  if (text.startsWith("warn")) {
+    return "warning";
+  }
+  return "info";
+}
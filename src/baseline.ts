@@ -0,0 +1,350 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { issueKey } from "./auditHistory";
+import {
+  AuditIssue,
+  AuditIssueType,
+  AuditReport,
+  summarizeIssues,
+  toIssueType,
+} from "./auditReport";
+import { resolveIssuePath } from "./diagnostics";
+import { ActiveAudit } from "./sidebarProvider";
+
+export const BASELINE_FILE = ".htflow-baseline.json";
+
+// An accepted issue. Entries are matched on file, rule and title like audit
+// history runs; the line and snippet only locate it in the view.
+export type BaselineEntry = {
+  // Relative to the workspace folder, with forward slashes; empty for
+  // issues that are not tied to a file
+  file: string;
+  line?: number;
+  type: AuditIssueType;
+  rule?: string;
+  title: string;
+  code: string;
+};
+
+export type Baseline = {
+  // ISO timestamp of when the baseline was created
+  createdAt: string;
+  issues: BaselineEntry[];
+};
+
+// A baseline entry and whether the last audit still reports it. `fixed` is
+// undefined when that audit did not cover the entry's file.
+export type BaselineProgress = {
+  entry: BaselineEntry;
+  fixed?: boolean;
+};
+
+// Loads each workspace folder's checked-in .htflow-baseline.json, removes
+// the issues it lists from audits and diagnostics, and writes it when a
+// baseline is created or pruned.
+export class HTFlowBaselineManager implements vscode.Disposable {
+  private _baselines: Map<string, Baseline | undefined> = new Map();
+  private _onDidChangeBaseline =
+    new vscode.EventEmitter<vscode.WorkspaceFolder>();
+  private _watcher: vscode.FileSystemWatcher;
+  private _folderListener: vscode.Disposable;
+
+  public readonly onDidChangeBaseline = this._onDidChangeBaseline.event;
+
+  constructor() {
+    this._watcher = vscode.workspace.createFileSystemWatcher(
+      `**/${BASELINE_FILE}`
+    );
+    this._watcher.onDidCreate((uri) => this.handleFileEvent(uri));
+    this._watcher.onDidChange((uri) => this.handleFileEvent(uri));
+    this._watcher.onDidDelete((uri) => this.handleFileEvent(uri));
+
+    this._folderListener = vscode.workspace.onDidChangeWorkspaceFolders(
+      (event) => {
+        event.removed.forEach((folder) =>
+          this._baselines.delete(folder.uri.toString())
+        );
+      }
+    );
+  }
+
+  public get(workspaceFolder: vscode.WorkspaceFolder): Baseline | undefined {
+    const key = workspaceFolder.uri.toString();
+    if (!this._baselines.has(key)) {
+      this._baselines.set(key, loadBaseline(workspaceFolder.uri.fsPath));
+    }
+    return this._baselines.get(key);
+  }
+
+  // The report without its baselined issues. Summary counts are recomputed
+  // and the number of hidden issues is kept in `baselined`.
+  public filterReport(
+    report: AuditReport,
+    workspaceFolder: vscode.WorkspaceFolder,
+    folder?: string
+  ): AuditReport {
+    const baseline = this.get(workspaceFolder);
+    if (!baseline) {
+      return report;
+    }
+
+    const issues = removeBaselined(
+      baseline,
+      report.issues.map((issue) => ({
+        issue,
+        file: toWorkspacePath(
+          resolveIssuePath(issue, workspaceFolder, folder),
+          workspaceFolder
+        ),
+      }))
+    );
+    return {
+      ...report,
+      summary: summarizeIssues(issues, report.summary.files),
+      issues,
+      baselined: report.issues.length - issues.length,
+    };
+  }
+
+  // The issues of one document that are not baselined
+  public filterDocument(uri: vscode.Uri, issues: AuditIssue[]): AuditIssue[] {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    const baseline = workspaceFolder && this.get(workspaceFolder);
+    if (!workspaceFolder || !baseline) {
+      return issues;
+    }
+
+    const file = toWorkspacePath(uri.fsPath, workspaceFolder);
+    return removeBaselined(
+      baseline,
+      issues.map((issue) => ({ issue, file }))
+    );
+  }
+
+  // Record every issue of the audit. Entries for files outside the audited
+  // folder are kept, so auditing a subfolder only replaces its part.
+  public async create(audit: ActiveAudit) {
+    const current = this.get(audit.workspaceFolder);
+    const kept = (current?.issues ?? []).filter(
+      (entry) => !isInFolder(entry.file, audit.folder)
+    );
+    const entries = audit.unfilteredReport.issues.map((issue) =>
+      toEntry(issue, audit.workspaceFolder, audit.folder)
+    );
+
+    await this.save(audit.workspaceFolder, {
+      createdAt: new Date().toISOString(),
+      issues: [...kept, ...entries],
+    });
+    return entries.length;
+  }
+
+  // Drop the entries the audit no longer reports. Returns how many were
+  // removed.
+  public async prune(audit: ActiveAudit) {
+    const baseline = this.get(audit.workspaceFolder);
+    if (!baseline) {
+      return 0;
+    }
+
+    const remaining = this.progress(audit.workspaceFolder, audit)
+      .filter((item) => !item.fixed)
+      .map((item) => item.entry);
+    const removed = baseline.issues.length - remaining.length;
+    if (removed > 0) {
+      await this.save(audit.workspaceFolder, {
+        ...baseline,
+        issues: remaining,
+      });
+    }
+    return removed;
+  }
+
+  // Which baseline entries the last audit still reports
+  public progress(
+    workspaceFolder: vscode.WorkspaceFolder,
+    audit: ActiveAudit | undefined
+  ): BaselineProgress[] {
+    const baseline = this.get(workspaceFolder);
+    if (!baseline) {
+      return [];
+    }
+    if (!audit) {
+      return baseline.issues.map((entry) => ({ entry }));
+    }
+
+    const reported = countKeys(
+      audit.unfilteredReport.issues.map((issue) =>
+        toEntry(issue, audit.workspaceFolder, audit.folder)
+      )
+    );
+    return baseline.issues.map((entry) => {
+      if (!isInFolder(entry.file, audit.folder)) {
+        return { entry };
+      }
+      const key = issueKey(entry);
+      const count = reported.get(key) ?? 0;
+      if (count === 0) {
+        return { entry, fixed: true };
+      }
+      reported.set(key, count - 1);
+      return { entry, fixed: false };
+    });
+  }
+
+  public dispose() {
+    this._watcher.dispose();
+    this._folderListener.dispose();
+    this._onDidChangeBaseline.dispose();
+  }
+
+  private async save(
+    workspaceFolder: vscode.WorkspaceFolder,
+    baseline: Baseline
+  ) {
+    baseline.issues.sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        (a.line ?? 0) - (b.line ?? 0) ||
+        a.title.localeCompare(b.title)
+    );
+    const filePath = path.join(workspaceFolder.uri.fsPath, BASELINE_FILE);
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify(baseline, null, 2) + "\n",
+      "utf8"
+    );
+
+    this._baselines.set(workspaceFolder.uri.toString(), baseline);
+    console.log(
+      `HTFlow: Saved ${baseline.issues.length} baseline issues for ${workspaceFolder.name}`
+    );
+    this._onDidChangeBaseline.fire(workspaceFolder);
+  }
+
+  private handleFileEvent(uri: vscode.Uri) {
+    // Only the baseline at the root of a workspace folder counts
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (
+      !workspaceFolder ||
+      path.dirname(uri.fsPath) !== workspaceFolder.uri.fsPath
+    ) {
+      return;
+    }
+
+    this._baselines.set(
+      workspaceFolder.uri.toString(),
+      loadBaseline(workspaceFolder.uri.fsPath)
+    );
+    console.log(
+      `HTFlow: Reloaded ${BASELINE_FILE} for ${workspaceFolder.name}`
+    );
+    this._onDidChangeBaseline.fire(workspaceFolder);
+  }
+}
+
+function loadBaseline(folderPath: string): Baseline | undefined {
+  const filePath = path.join(folderPath, BASELINE_FILE);
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    const issues: BaselineEntry[] = [];
+    for (const entry of Array.isArray(raw?.issues) ? raw.issues : []) {
+      if (typeof entry?.title !== "string") {
+        continue;
+      }
+      issues.push({
+        file: typeof entry.file === "string" ? entry.file : "",
+        line: Number.isInteger(entry.line) ? entry.line : undefined,
+        type: toIssueType(entry.type),
+        rule: typeof entry.rule === "string" ? entry.rule : undefined,
+        title: entry.title,
+        code: typeof entry.code === "string" ? entry.code : "",
+      });
+    }
+    return {
+      createdAt: typeof raw.createdAt === "string" ? raw.createdAt : "",
+      issues,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`HTFlow: Could not read ${filePath}: ${message}`);
+    return undefined;
+  }
+}
+
+// Each baseline entry hides one matching issue, so a second copy of an
+// accepted issue is still reported
+function removeBaselined(
+  baseline: Baseline,
+  issues: { issue: AuditIssue; file: string }[]
+): AuditIssue[] {
+  const remaining = countKeys(baseline.issues);
+  return issues
+    .filter(({ issue, file }) => {
+      const key = issueKey({ ...issue, file });
+      const count = remaining.get(key) ?? 0;
+      if (count === 0) {
+        return true;
+      }
+      remaining.set(key, count - 1);
+      return false;
+    })
+    .map(({ issue }) => issue);
+}
+
+function countKeys(entries: BaselineEntry[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const key = issueKey(entry);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function toEntry(
+  issue: AuditIssue,
+  workspaceFolder: vscode.WorkspaceFolder,
+  folder?: string
+): BaselineEntry {
+  return {
+    file: toWorkspacePath(
+      resolveIssuePath(issue, workspaceFolder, folder),
+      workspaceFolder
+    ),
+    line: issue.line,
+    type: issue.type,
+    rule: issue.rule,
+    title: issue.title,
+    code: issue.code,
+  };
+}
+
+// Forward-slash path relative to the workspace folder
+function toWorkspacePath(
+  filePath: string | undefined,
+  workspaceFolder: vscode.WorkspaceFolder
+): string {
+  if (!filePath) {
+    return "";
+  }
+  return path
+    .relative(workspaceFolder.uri.fsPath, filePath)
+    .split(path.sep)
+    .join("/");
+}
+
+// Whether a workspace-relative file lies in the audited folder (the whole
+// workspace folder when none was given)
+function isInFolder(file: string, folder?: string): boolean {
+  const prefix = (folder ?? "")
+    .trim()
+    .split(/[\\/]+/)
+    .filter((part) => part && part !== ".")
+    .join("/");
+  return !prefix || file === prefix || file.startsWith(`${prefix}/`);
+}
@@ -0,0 +1,274 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  BASELINE_FILE,
+  BaselineProgress,
+  HTFlowBaselineManager,
+} from "./baseline";
+import { severityIcon } from "./issuesView";
+import { ActiveAudit } from "./sidebarProvider";
+
+export const BASELINE_VIEW_ID = "htflow.baseline";
+
+type FileNode = {
+  kind: "file";
+  // Relative to the workspace folder; empty for project-wide issues
+  file: string;
+  children: EntryNode[];
+};
+
+type EntryNode = {
+  kind: "entry";
+  progress: BaselineProgress;
+};
+
+type BaselineNode = FileNode | EntryNode;
+
+// "Baseline" view: the issues in the active project's .htflow-baseline.json,
+// checked off as the last audit stops reporting them, so the baseline can be
+// burned down file by file.
+export class HTFlowBaselineView
+  implements vscode.TreeDataProvider<BaselineNode>, vscode.Disposable
+{
+  private _workspaceFolder?: vscode.WorkspaceFolder;
+  private _audit?: ActiveAudit;
+  private _files: FileNode[] = [];
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  private _view: vscode.TreeView<BaselineNode>;
+  private _baselineListener: vscode.Disposable;
+
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly _baseline: HTFlowBaselineManager) {
+    this._view = vscode.window.createTreeView(BASELINE_VIEW_ID, {
+      treeDataProvider: this,
+      showCollapseAll: true,
+    });
+    this._baselineListener = this._baseline.onDidChangeBaseline(
+      (workspaceFolder) => {
+        if (workspaceFolder === this._workspaceFolder) {
+          this.refresh();
+        }
+      }
+    );
+  }
+
+  public setProject(
+    workspaceFolder: vscode.WorkspaceFolder | undefined,
+    audit: ActiveAudit | undefined
+  ) {
+    this._workspaceFolder = workspaceFolder;
+    this._audit = audit;
+    this.refresh();
+  }
+
+  // Record the last audit's issues in .htflow-baseline.json
+  public async createBaseline() {
+    const audit = this._audit;
+    if (!audit) {
+      vscode.window.showWarningMessage(
+        "HTFlow: Run an audit before creating a baseline"
+      );
+      return;
+    }
+
+    const count = audit.unfilteredReport.issues.length;
+    if (this._baseline.get(audit.workspaceFolder)) {
+      const answer = await vscode.window.showWarningMessage(
+        `Replace the baseline of ${audit.workspaceFolder.name} with the ${count} issues of the last audit?`,
+        { modal: true },
+        "Replace"
+      );
+      if (answer !== "Replace") {
+        return;
+      }
+    }
+
+    try {
+      await this._baseline.create(audit);
+      vscode.window.showInformationMessage(
+        `HTFlow: Baselined ${count} issue${
+          count === 1 ? "" : "s"
+        } in ${BASELINE_FILE}. Only new issues will be reported.`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `HTFlow: Failed to create baseline: ${message}`
+      );
+    }
+  }
+
+  // Remove the entries the last audit no longer reports, so fixed issues
+  // cannot come back unnoticed
+  public async pruneBaseline() {
+    const audit = this._audit;
+    if (!audit) {
+      vscode.window.showWarningMessage(
+        "HTFlow: Run an audit to find the fixed baseline issues"
+      );
+      return;
+    }
+
+    try {
+      const removed = await this._baseline.prune(audit);
+      vscode.window.showInformationMessage(
+        removed > 0
+          ? `HTFlow: Removed ${removed} fixed issue${
+              removed === 1 ? "" : "s"
+            } from ${BASELINE_FILE}`
+          : "HTFlow: No fixed issues in the baseline"
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `HTFlow: Failed to update baseline: ${message}`
+      );
+    }
+  }
+
+  public getTreeItem(node: BaselineNode): vscode.TreeItem {
+    return node.kind === "file"
+      ? this.getFileItem(node)
+      : this.getEntryItem(node);
+  }
+
+  public getChildren(node?: BaselineNode): BaselineNode[] {
+    if (!node) {
+      return this._files;
+    }
+    return node.kind === "file" ? node.children : [];
+  }
+
+  public dispose() {
+    this._baselineListener.dispose();
+    this._view.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+
+  private refresh() {
+    const workspaceFolder = this._workspaceFolder;
+    const baseline = workspaceFolder && this._baseline.get(workspaceFolder);
+    vscode.commands.executeCommand(
+      "setContext",
+      "htflow.hasBaseline",
+      !!baseline
+    );
+
+    const progress = workspaceFolder
+      ? this._baseline.progress(workspaceFolder, this._audit)
+      : [];
+    const files = new Map<string, FileNode>();
+    for (const item of progress) {
+      let file = files.get(item.entry.file);
+      if (!file) {
+        file = { kind: "file", file: item.entry.file, children: [] };
+        files.set(item.entry.file, file);
+      }
+      file.children.push({ kind: "entry", progress: item });
+    }
+
+    // Files with the most remaining issues first
+    this._files = Array.from(files.values()).sort(
+      (a, b) => remaining(b) - remaining(a) || a.file.localeCompare(b.file)
+    );
+    this._onDidChangeTreeData.fire();
+
+    const fixed = progress.filter((item) => item.fixed).length;
+    this._view.description = baseline
+      ? `${fixed} of ${progress.length} fixed`
+      : undefined;
+    if (!baseline) {
+      this._view.message = undefined;
+    } else if (progress.length === 0) {
+      this._view.message = "The baseline is empty.";
+    } else if (!this._audit) {
+      this._view.message = "Run an audit to see which issues are fixed.";
+    } else if (fixed === progress.length) {
+      this._view.message =
+        "Every baselined issue is fixed. Remove them from the baseline.";
+    } else {
+      this._view.message = undefined;
+    }
+  }
+
+  private getFileItem(node: FileNode): vscode.TreeItem {
+    const fixed = node.children.filter((child) => child.progress.fixed).length;
+    const done = fixed === node.children.length;
+
+    const item = node.file
+      ? new vscode.TreeItem(
+          this.toUri(node.file),
+          done
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.Expanded
+        )
+      : new vscode.TreeItem(
+          "Project",
+          vscode.TreeItemCollapsibleState.Expanded
+        );
+    const relativeDir = path.posix.dirname(node.file);
+    item.description = [
+      `${fixed}/${node.children.length}`,
+      node.file && relativeDir !== "." ? relativeDir : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    item.tooltip = `${
+      node.file || "Issues that are not tied to a file"
+    }\n${fixed} of ${node.children.length} baselined issues fixed`;
+    if (!node.file) {
+      item.iconPath = new vscode.ThemeIcon("project");
+    }
+    return item;
+  }
+
+  private getEntryItem(node: EntryNode): vscode.TreeItem {
+    const { entry, fixed } = node.progress;
+    const item = new vscode.TreeItem(
+      entry.title,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.description = [
+      entry.rule,
+      entry.line ? `Ln ${entry.line}` : undefined,
+      fixed ? "fixed" : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    item.iconPath = fixed
+      ? new vscode.ThemeIcon(
+          "pass",
+          new vscode.ThemeColor("testing.iconPassed")
+        )
+      : severityIcon(entry.type);
+    item.tooltip =
+      fixed === undefined
+        ? `${entry.title}\nNot checked by the last audit`
+        : entry.title;
+    item.contextValue = fixed ? "htflowBaselineFixed" : "htflowBaselineEntry";
+
+    if (entry.file) {
+      const line = Math.max(0, (entry.line ?? 1) - 1);
+      item.command = {
+        command: "vscode.open",
+        title: "Open Issue",
+        arguments: [
+          this.toUri(entry.file),
+          { selection: new vscode.Range(line, 0, line, 0) },
+        ],
+      };
+    }
+    return item;
+  }
+
+  private toUri(file: string): vscode.Uri {
+    return this._workspaceFolder
+      ? vscode.Uri.joinPath(this._workspaceFolder.uri, file)
+      : vscode.Uri.file(file);
+  }
+}
+
+function remaining(node: FileNode): number {
+  return node.children.filter((child) => !child.progress.fixed).length;
+}
@@ -0,0 +1,39 @@
+// Command lines for the HTFlow CLI, shared by the panel, the htflow.*
+// commands and the `htflow` task provider so they always run the same thing.
+
+// `target` is the folder (or, for validate, the file) relative to the
+// workspace root that the command should run on.
+export function buildCliCommand(command: string, target?: string): string {
+  const targetArg = target?.trim() ? ` ${shellArg(target.trim())}` : "";
+
+  switch (command) {
+    case "version":
+      return "npx htflow --version";
+    case "audit --html":
+      return `npx htflow audit${targetArg} --html`;
+    default:
+      return `npx htflow ${command}${targetArg}`;
+  }
+}
+
+// Without a port the CLI picks its own default (`htflow dev` / `htflow
+// serve`); with one, `htflow serve <mode> -p <port>` is used.
+export function buildServeCommand(
+  mode: string,
+  folder?: string,
+  port?: number
+): string {
+  const folderArg = folder?.trim() ? ` ${shellArg(folder.trim())}` : "";
+
+  if (port === undefined) {
+    return mode === "dev"
+      ? `npx htflow dev${folderArg}`
+      : `npx htflow serve${folderArg}`;
+  }
+  return `npx htflow serve ${mode}${folderArg} -p ${port}`;
+}
+
+// Quote a path for the shell when it contains spaces or quotes
+export function shellArg(value: string): string {
+  return /[\s"']/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+}
@@ -0,0 +1,515 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DEFAULT_CONFIG, HTFlowConfigManager } from "./config";
+import { HTFlowDiagnostics, UNUSED_SUPPRESSION } from "./diagnostics";
+import {
+  dataAttributePrefix,
+  expandShorthand,
+  isHtmlFile,
+  SELECTOR_CALL,
+  toDataSelector,
+} from "./offlineValidator";
+
+export const COPY_AI_PROMPT_COMMAND = "htflow.copyAiPrompt";
+
+// getElementById / getElementsByClassName with a literal name
+const ELEMENT_LOOKUP =
+  /\b(getElementById|getElementsByClassName)\s*\(\s*(["'])([\w\s-]+)\2\s*\)/g;
+
+// Quick fixes for HTFlow diagnostics. The mechanical rules (wrapper,
+// shorthand CSS, class/id selectors, <style data-ht-styles>) get an edit;
+// every diagnostic also gets "Copy AI prompt" for fixing it in a chat and an
+// htflow-disable-next-line comment for keeping it on purpose.
+export class HTFlowCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(
+    private readonly _diagnostics: HTFlowDiagnostics,
+    private readonly _configManager: HTFlowConfigManager
+  ) {}
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== "htflow") {
+        continue;
+      }
+      if (ruleOf(diagnostic) === UNUSED_SUPPRESSION) {
+        actions.push(removeSuppression(document, diagnostic));
+        continue;
+      }
+
+      const fix = this.createFix(document, diagnostic);
+      if (fix) {
+        fix.diagnostics = [diagnostic];
+        fix.isPreferred = fix.isPreferred ?? true;
+        actions.push(fix);
+      }
+      actions.push(this.createCopyPrompt(document, diagnostic));
+      actions.push(insertSuppression(document, diagnostic));
+    }
+
+    return actions;
+  }
+
+  private createFix(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    const rule = ruleOf(diagnostic);
+    // Older CLI releases use other rule ids, so fall back to the message
+    const message = diagnostic.message.split("\n")[0];
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const { htmlWrapper, dataAttributes } = workspaceFolder
+      ? this._configManager.get(workspaceFolder).validation
+      : DEFAULT_CONFIG.validation;
+
+    if (/wrapper/.test(rule) || /missing htflow-wrapper/i.test(message)) {
+      return wrapBody(document, htmlWrapper || "htflow-wrapper");
+    }
+    if (rule === "css-longhand" || /shorthand/i.test(message)) {
+      return expandDeclaration(document, diagnostic.range.start);
+    }
+    if (rule === "js-selectors" || /selector/i.test(message)) {
+      return rewriteSelector(
+        document,
+        diagnostic.range.start,
+        dataAttributePrefix(dataAttributes || "data-ht-*")
+      );
+    }
+    if (/without data-ht-styles/.test(message)) {
+      return addStylesAttribute(document, diagnostic.range.start);
+    }
+    return undefined;
+  }
+
+  private createCopyPrompt(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction {
+    const issue = this._diagnostics.findIssue(document.uri, diagnostic);
+    const line = diagnostic.range.start.line;
+    const file = vscode.workspace.asRelativePath(document.uri);
+    const prompt =
+      issue?.prompt ||
+      `Fix this HTFlow issue in ${file} at line ${line + 1}:\n` +
+        `${diagnostic.message}\n\n${document.lineAt(line).text.trim()}`;
+
+    const action = new vscode.CodeAction(
+      "HTFlow: Copy AI prompt",
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.command = {
+      command: COPY_AI_PROMPT_COMMAND,
+      title: "Copy AI prompt",
+      arguments: [prompt],
+    };
+    return action;
+  }
+}
+
+// Put the contents of <body> into <div class="htflow-wrapper">, or the
+// project's own wrapper class
+function wrapBody(
+  document: vscode.TextDocument,
+  className: string
+): vscode.CodeAction | undefined {
+  const text = document.getText();
+  const open = text.match(/<body\b[^>]*>/i);
+  const closeIndex = text.search(/<\/body\s*>/i);
+  if (!open || open.index === undefined || closeIndex === -1) {
+    return undefined;
+  }
+  if (
+    new RegExp(
+      `\\bclass\\s*=\\s*["'][^"']*(?<![\\w-])${className}(?![\\w-])`
+    ).test(text)
+  ) {
+    return undefined;
+  }
+
+  const openEnd = document.positionAt(open.index + open[0].length);
+  const close = document.positionAt(closeIndex);
+  const bodyIndent = indentOf(document, openEnd.line);
+  const indent = bodyIndent + indentUnit(document);
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.insert(document.uri, openEnd, `\n${indent}<div class="${className}">`);
+  // Keep </body> on its own line when it already is
+  const closeLine = document.lineAt(close.line).text;
+  if (closeLine.slice(0, close.character).trim() === "") {
+    edit.insert(
+      document.uri,
+      new vscode.Position(close.line, 0),
+      `${indent}</div>\n`
+    );
+  } else {
+    edit.insert(document.uri, close, "</div>");
+  }
+
+  const action = new vscode.CodeAction(
+    `Wrap body content in ${className}`,
+    vscode.CodeActionKind.QuickFix
+  );
+  action.edit = edit;
+  return action;
+}
+
+// Replace the shorthand declaration at (or after) the diagnostic with its
+// longhands
+function expandDeclaration(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): vscode.CodeAction | undefined {
+  const line = document.lineAt(position.line).text;
+  const declarations = /([a-z-]+)\s*:\s*([^;{}"']*[^;{}"'\s])/gi;
+  const candidates: LineEdit[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = declarations.exec(line))) {
+    const property = match[1].toLowerCase();
+    const longhands = expandShorthand(property, match[2].trim());
+    if (longhands) {
+      candidates.push({
+        index: match.index,
+        length: match[0].length,
+        replacement: longhands.join("; "),
+        title: `Expand ${property} into longhand properties`,
+      });
+    }
+  }
+
+  const candidate = pickCandidate(candidates, position.character);
+  if (!candidate) {
+    return undefined;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(
+    document.uri,
+    toRange(position.line, candidate),
+    candidate.replacement
+  );
+
+  const action = new vscode.CodeAction(
+    candidate.title,
+    vscode.CodeActionKind.QuickFix
+  );
+  action.edit = edit;
+  return action;
+}
+
+// Rewrite a class/id selector (or getElementById/getElementsByClassName) on
+// the diagnostic's line to data-ht-* attributes, or the project's own
+// prefix. The matching elements get the attributes as well: those of an HTML
+// document itself, else those in the open HTML documents of its folder. When
+// none are found the fix says the markup still needs them and is not
+// preferred, as the script would select nothing.
+function rewriteSelector(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  prefix: string
+): vscode.CodeAction | undefined {
+  const line = document.lineAt(position.line).text;
+  const candidates: (LineEdit & { names: string[] })[] = [];
+  let match: RegExpExecArray | null;
+
+  const calls = new RegExp(SELECTOR_CALL.source, "g");
+  while ((match = calls.exec(line))) {
+    const selector = match[3];
+    const converted = toDataSelector(selector, prefix);
+    if (converted) {
+      candidates.push({
+        // Only the text between the quotes is replaced
+        index: match.index + match[0].length - selector.length - 1,
+        length: selector.length,
+        replacement: converted,
+        title: `Use ${converted} instead of ${selector}`,
+        names: selectorNames(selector),
+      });
+    }
+  }
+
+  const lookups = new RegExp(ELEMENT_LOOKUP.source, "g");
+  while ((match = lookups.exec(line))) {
+    const names = match[3].trim().split(/\s+/);
+    const attributes = names.map((name) => `[${prefix}${name}]`).join("");
+    const replacement =
+      match[1] === "getElementById"
+        ? `querySelector("${attributes}")`
+        : `querySelectorAll("${attributes}")`;
+    candidates.push({
+      index: match.index,
+      length: match[0].length,
+      replacement,
+      title: `Use ${replacement} instead of ${match[1]}`,
+      names,
+    });
+  }
+
+  const candidate = pickCandidate(candidates, position.character);
+  if (!candidate) {
+    return undefined;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(
+    document.uri,
+    toRange(position.line, candidate),
+    candidate.replacement
+  );
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+  const markup = isHtmlDocument(document)
+    ? [document]
+    : vscode.workspace.textDocuments.filter(
+        (candidate) =>
+          isHtmlDocument(candidate) &&
+          vscode.workspace.getWorkspaceFolder(candidate.uri) === folder
+      );
+  const marked = markup.reduce(
+    (count, html) =>
+      count + addDataAttributes(html, candidate.names, prefix, edit),
+    0
+  );
+
+  const attributes = candidate.names.map((name) => `${prefix}${name}`);
+  const action = new vscode.CodeAction(
+    marked > 0
+      ? candidate.title
+      : `${candidate.title} (add ${attributes.join(", ")} to the markup)`,
+    vscode.CodeActionKind.QuickFix
+  );
+  action.edit = edit;
+  action.isPreferred = marked > 0;
+  return action;
+}
+
+// Add data-ht-<name> (with the given prefix) to every element with that
+// class or id. Returns the number of elements that have the attributes.
+function addDataAttributes(
+  document: vscode.TextDocument,
+  names: string[],
+  prefix: string,
+  edit: vscode.WorkspaceEdit
+): number {
+  const text = document.getText();
+  let count = 0;
+  const tags = /<([a-z][\w-]*)\b([^>]*)>/gi;
+  let tag: RegExpExecArray | null;
+
+  while ((tag = tags.exec(text))) {
+    const classes =
+      tag[2].match(/\bclass\s*=\s*["']([^"']*)["']/i)?.[1].split(/\s+/) ?? [];
+    const id = tag[2].match(/\bid\s*=\s*["']([^"']*)["']/i)?.[1];
+    const matching = names.filter(
+      (name) => classes.includes(name) || id === name
+    );
+    const missing = matching.filter(
+      (name) => !new RegExp(`\\s${prefix}${name}\\b`).test(tag![2])
+    );
+    if (missing.length > 0) {
+      edit.insert(
+        document.uri,
+        document.positionAt(tag.index + 1 + tag[1].length),
+        missing.map((name) => ` ${prefix}${name}`).join("")
+      );
+    }
+    count += matching.length > 0 ? 1 : 0;
+  }
+  return count;
+}
+
+function addStylesAttribute(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): vscode.CodeAction | undefined {
+  const line = document.lineAt(position.line).text;
+  const index = line.toLowerCase().indexOf("<style", position.character);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.insert(
+    document.uri,
+    new vscode.Position(position.line, index + "<style".length),
+    " data-ht-styles"
+  );
+
+  const action = new vscode.CodeAction(
+    "Add data-ht-styles",
+    vscode.CodeActionKind.QuickFix
+  );
+  action.edit = edit;
+  return action;
+}
+
+// Keep the diagnostic's issue by adding htflow-disable-next-line above its
+// line, in the comment syntax of the spot (HTML, or CSS/JS inside <style>
+// and <script>)
+function insertSuppression(
+  document: vscode.TextDocument,
+  diagnostic: vscode.Diagnostic
+): vscode.CodeAction {
+  const rule = ruleOf(diagnostic);
+  const line = diagnostic.range.start.line;
+  const directive = `htflow-disable-next-line${rule ? ` ${rule}` : ""}`;
+  let comment: string;
+  switch (commentSyntax(document, line)) {
+    case "html":
+      comment = `<!-- ${directive} -->`;
+      break;
+    case "css":
+      comment = `/* ${directive} */`;
+      break;
+    default:
+      comment = `// ${directive}`;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.insert(
+    document.uri,
+    new vscode.Position(line, 0),
+    `${indentOf(document, line)}${comment}\n`
+  );
+
+  const action = new vscode.CodeAction(
+    rule
+      ? `Suppress ${rule} on this line`
+      : "Suppress HTFlow issue on this line",
+    vscode.CodeActionKind.QuickFix
+  );
+  action.diagnostics = [diagnostic];
+  action.edit = edit;
+  return action;
+}
+
+// Delete an unused suppression comment, with its line when nothing else is
+// on it
+function removeSuppression(
+  document: vscode.TextDocument,
+  diagnostic: vscode.Diagnostic
+): vscode.CodeAction {
+  const { start, end } = diagnostic.range;
+  const line = document.lineAt(start.line);
+  const rest =
+    line.text.slice(0, start.character) + line.text.slice(end.character);
+
+  const edit = new vscode.WorkspaceEdit();
+  if (rest.trim() === "") {
+    edit.delete(document.uri, line.rangeIncludingLineBreak);
+  } else {
+    // Take the whitespace before the comment along
+    const before = line.text.slice(0, start.character);
+    edit.delete(
+      document.uri,
+      new vscode.Range(
+        start.line,
+        before.trimEnd().length,
+        end.line,
+        end.character
+      )
+    );
+  }
+
+  const action = new vscode.CodeAction(
+    "Remove unused htflow suppression",
+    vscode.CodeActionKind.QuickFix
+  );
+  action.diagnostics = [diagnostic];
+  action.isPreferred = true;
+  action.edit = edit;
+  return action;
+}
+
+// Comment syntax at a line: HTML documents switch to CSS or JS comments
+// inside <style> and <script> elements
+function commentSyntax(
+  document: vscode.TextDocument,
+  line: number
+): "html" | "css" | "js" {
+  const extension = path.extname(document.fileName).toLowerCase();
+  if (!isHtmlDocument(document)) {
+    return document.languageId === "css" || extension === ".css" ? "css" : "js";
+  }
+
+  const before = document
+    .getText(new vscode.Range(0, 0, line, 0))
+    .toLowerCase();
+  if (before.lastIndexOf("<style") > before.lastIndexOf("</style")) {
+    return "css";
+  }
+  if (before.lastIndexOf("<script") > before.lastIndexOf("</script")) {
+    return "js";
+  }
+  return "html";
+}
+
+function ruleOf(diagnostic: vscode.Diagnostic): string {
+  return typeof diagnostic.code === "object"
+    ? String(diagnostic.code.value)
+    : String(diagnostic.code ?? "");
+}
+
+// Class and id names a selector uses
+function selectorNames(selector: string): string[] {
+  return Array.from(selector.matchAll(/[.#]([\w-]+)/g), (match) => match[1]);
+}
+
+// A replacement within one line
+type LineEdit = {
+  index: number;
+  length: number;
+  replacement: string;
+  title: string;
+};
+
+// The first fixable spot at or after the diagnostic's column, else the last
+// one before it
+function pickCandidate<T extends LineEdit>(
+  candidates: T[],
+  character: number
+): T | undefined {
+  const sorted = [...candidates].sort((a, b) => a.index - b.index);
+  return (
+    sorted.find((candidate) => candidate.index >= character) ??
+    sorted[sorted.length - 1]
+  );
+}
+
+function toRange(line: number, lineEdit: LineEdit): vscode.Range {
+  return new vscode.Range(
+    line,
+    lineEdit.index,
+    line,
+    lineEdit.index + lineEdit.length
+  );
+}
+
+function isHtmlDocument(document: vscode.TextDocument): boolean {
+  return (
+    ["html", "htflow"].includes(document.languageId) ||
+    isHtmlFile(document.fileName)
+  );
+}
+
+function indentOf(document: vscode.TextDocument, line: number): string {
+  return document.lineAt(line).text.match(/^\s*/)?.[0] ?? "";
+}
+
+function indentUnit(document: vscode.TextDocument): string {
+  const editor = vscode.window.visibleTextEditors.find(
+    (candidate) => candidate.document === document
+  );
+  const { insertSpaces, tabSize } = editor?.options ?? {};
+  return insertSpaces === false
+    ? "\t"
+    : " ".repeat(typeof tabSize === "number" ? tabSize : 2);
+}
@@ -0,0 +1,389 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { PROJECT_CONFIG_FILE } from "./projects";
+
+export type RuleSeverity = "error" | "warning" | "info" | "off";
+
+// Typed view of a project's .htflowrc.json as `htflow init` writes it.
+// Missing or mistyped values fall back to DEFAULT_CONFIG and are listed in
+// ConfigLoadResult.warnings; the JSON schema in schemas/ reports them while
+// the file is edited.
+export type HTFlowConfig = {
+  // CLI version that created the file, e.g. "1.9.2"
+  version?: string;
+  // "htflow-project"
+  type?: string;
+  // JS and CSS frameworks of the project, "none" for plain HTML/CSS
+  framework: string;
+  cssFramework: string;
+  rules: {
+    // false turns the HTFlow checks off for the project
+    enabled: boolean;
+    strictMode: boolean;
+    webflowCompatible: boolean;
+    // Severity per rule id, from entries such as "css-longhand": "warning"
+    // next to the switches above
+    severities: Record<string, RuleSeverity>;
+  };
+  responsive: {
+    // Breakpoint name -> max width, e.g. { tablet: "991px" }
+    breakpoints: Record<string, string>;
+  };
+  validation: {
+    // Class of the element wrapping page content, false when pages need none
+    htmlWrapper: string | false;
+    // Pattern of the data attributes scripts select by, e.g. "data-ht-*";
+    // false turns the data attribute checks off
+    dataAttributes: string | false;
+    // "longhand-only" reports shorthand properties such as `margin: 0 auto`
+    cssProperties: "longhand-only" | "any";
+    // "data-attributes-only" reports scripts selecting by class, id or tag
+    jsSelectors: "data-attributes-only" | "any";
+  };
+  ai: {
+    // Instructions handed to AI assistants along with the rule files
+    instructions?: string;
+    // Rule files (relative to the project) handed to AI assistants
+    rulesFiles: string[];
+  };
+  build: {
+    outDir?: string;
+  };
+  dev: {
+    port?: number;
+  };
+};
+
+// Webflow's default breakpoints
+export const DEFAULT_CONFIG: HTFlowConfig = {
+  framework: "none",
+  cssFramework: "none",
+  rules: {
+    enabled: true,
+    strictMode: true,
+    webflowCompatible: true,
+    severities: {},
+  },
+  responsive: {
+    breakpoints: {
+      desktop: "1280px",
+      tablet: "991px",
+      mobileLandscape: "767px",
+      mobile: "478px",
+    },
+  },
+  validation: {
+    htmlWrapper: "htflow-wrapper",
+    dataAttributes: "data-ht-*",
+    cssProperties: "longhand-only",
+    jsSelectors: "data-attributes-only",
+  },
+  ai: {
+    rulesFiles: [],
+  },
+  build: {},
+  dev: {},
+};
+
+export type ConfigLoadResult = {
+  config: HTFlowConfig;
+  // Whether the folder has an .htflowrc.json at all
+  exists: boolean;
+  // Set when the file exists but could not be read or parsed
+  error?: string;
+  // Values that were ignored because of their type or format
+  warnings: string[];
+};
+
+export type ConfigChangeEvent = {
+  workspaceFolder: vscode.WorkspaceFolder;
+  result: ConfigLoadResult;
+};
+
+export function loadConfig(folderPath: string): ConfigLoadResult {
+  const filePath = path.join(folderPath, PROJECT_CONFIG_FILE);
+  if (!fs.existsSync(filePath)) {
+    return { config: cloneDefaults(), exists: false, warnings: [] };
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    const warnings: string[] = [];
+    const config = normalizeConfig(raw, warnings);
+    warnings.forEach((warning) =>
+      console.warn(`HTFlow: ${filePath}: ${warning}`)
+    );
+    return { config, exists: true, warnings };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`HTFlow: Could not read ${filePath}: ${message}`);
+    return {
+      config: cloneDefaults(),
+      exists: true,
+      error: message,
+      warnings: [],
+    };
+  }
+}
+
+// Merge a parsed rc file over the defaults, keeping only values of the
+// expected type. Every value that is left out is described in `warnings`.
+export function normalizeConfig(
+  raw: unknown,
+  warnings: string[] = []
+): HTFlowConfig {
+  const config = cloneDefaults();
+  if (!isObject(raw)) {
+    warnings.push("The file does not contain a JSON object");
+    return config;
+  }
+
+  const ignore = (key: string, value: unknown, expected: string) =>
+    warnings.push(
+      `Ignored ${key}: ${JSON.stringify(value)} (expected ${expected})`
+    );
+  const readString = (key: string, value: unknown): string | undefined => {
+    if (typeof value === "string") {
+      return value;
+    }
+    if (value !== undefined) {
+      ignore(key, value, "a string");
+    }
+    return undefined;
+  };
+  const readSection = (key: string): Record<string, unknown> | undefined => {
+    const value = raw[key];
+    if (isObject(value)) {
+      return value;
+    }
+    if (value !== undefined) {
+      ignore(key, value, "an object");
+    }
+    return undefined;
+  };
+
+  config.version = readString("version", raw.version);
+  config.type = readString("type", raw.type);
+  config.framework = readString("framework", raw.framework) ?? "none";
+  config.cssFramework = readString("cssFramework", raw.cssFramework) ?? "none";
+
+  const rules = readSection("rules");
+  for (const [rule, value] of Object.entries(rules ?? {})) {
+    if (
+      rule === "enabled" ||
+      rule === "strictMode" ||
+      rule === "webflowCompatible"
+    ) {
+      if (typeof value === "boolean") {
+        config.rules[rule] = value;
+      } else {
+        ignore(`rules.${rule}`, value, "true or false");
+      }
+    } else if (isSeverity(value)) {
+      config.rules.severities[rule] = value;
+    } else {
+      ignore(`rules.${rule}`, value, '"error", "warning", "info" or "off"');
+    }
+  }
+
+  const breakpointWidths = readSection("responsive")?.breakpoints;
+  if (isObject(breakpointWidths)) {
+    const breakpoints: Record<string, string> = {};
+    for (const [name, value] of Object.entries(breakpointWidths)) {
+      const width = toBreakpoint(value);
+      if (width) {
+        breakpoints[name] = width;
+      } else {
+        ignore(`responsive.breakpoints.${name}`, value, 'a width like "991px"');
+      }
+    }
+    config.responsive.breakpoints = breakpoints;
+  } else if (breakpointWidths !== undefined) {
+    ignore("responsive.breakpoints", breakpointWidths, "an object");
+  }
+
+  const validation = readSection("validation");
+  if (validation) {
+    // Earlier releases used true/false for the default wrapper class
+    const { htmlWrapper } = validation;
+    if (typeof htmlWrapper === "string" && isClassName(htmlWrapper)) {
+      config.validation.htmlWrapper = htmlWrapper;
+    } else if (htmlWrapper === false) {
+      config.validation.htmlWrapper = false;
+    } else if (htmlWrapper !== undefined && htmlWrapper !== true) {
+      ignore("validation.htmlWrapper", htmlWrapper, "a class name or false");
+    }
+
+    const { dataAttributes } = validation;
+    if (
+      (typeof dataAttributes === "string" &&
+        /^data-[\w-]*\*?$/.test(dataAttributes)) ||
+      dataAttributes === false
+    ) {
+      config.validation.dataAttributes = dataAttributes;
+    } else if (dataAttributes !== undefined) {
+      ignore(
+        "validation.dataAttributes",
+        dataAttributes,
+        'a pattern like "data-ht-*" or false'
+      );
+    }
+
+    // "longhand" is the value of earlier releases
+    const { cssProperties } = validation;
+    if (cssProperties === "longhand-only" || cssProperties === "longhand") {
+      config.validation.cssProperties = "longhand-only";
+    } else if (cssProperties === "any") {
+      config.validation.cssProperties = "any";
+    } else if (cssProperties !== undefined) {
+      ignore(
+        "validation.cssProperties",
+        cssProperties,
+        '"longhand-only" or "any"'
+      );
+    }
+
+    const { jsSelectors } = validation;
+    if (jsSelectors === "data-attributes-only" || jsSelectors === "any") {
+      config.validation.jsSelectors = jsSelectors;
+    } else if (jsSelectors !== undefined) {
+      ignore(
+        "validation.jsSelectors",
+        jsSelectors,
+        '"data-attributes-only" or "any"'
+      );
+    }
+  }
+
+  const ai = readSection("ai");
+  if (ai) {
+    config.ai.instructions = readString("ai.instructions", ai.instructions);
+    if (Array.isArray(ai.rulesFiles)) {
+      config.ai.rulesFiles = ai.rulesFiles.filter(
+        (file: unknown): file is string => typeof file === "string"
+      );
+      if (config.ai.rulesFiles.length < ai.rulesFiles.length) {
+        warnings.push("Ignored ai.rulesFiles entries that are not strings");
+      }
+    } else if (ai.rulesFiles !== undefined) {
+      ignore("ai.rulesFiles", ai.rulesFiles, "a list of paths");
+    }
+  }
+
+  const build = readSection("build");
+  config.build.outDir = readString("build.outDir", build?.outDir);
+
+  const dev = readSection("dev");
+  if (
+    typeof dev?.port === "number" &&
+    Number.isInteger(dev.port) &&
+    dev.port > 0 &&
+    dev.port < 65536
+  ) {
+    config.dev.port = dev.port;
+  } else if (dev?.port !== undefined) {
+    ignore("dev.port", dev.port, "a port number");
+  }
+
+  return config;
+}
+
+// Loads each workspace folder's .htflowrc.json on first use, reloads it when
+// the file changes and fires onDidChangeConfig so features can react.
+export class HTFlowConfigManager implements vscode.Disposable {
+  private _configs: Map<string, ConfigLoadResult> = new Map();
+  private _onDidChangeConfig = new vscode.EventEmitter<ConfigChangeEvent>();
+  private _watcher: vscode.FileSystemWatcher;
+  private _folderListener: vscode.Disposable;
+
+  public readonly onDidChangeConfig = this._onDidChangeConfig.event;
+
+  constructor() {
+    this._watcher = vscode.workspace.createFileSystemWatcher(
+      `**/${PROJECT_CONFIG_FILE}`
+    );
+    this._watcher.onDidCreate((uri) => this.handleFileEvent(uri));
+    this._watcher.onDidChange((uri) => this.handleFileEvent(uri));
+    this._watcher.onDidDelete((uri) => this.handleFileEvent(uri));
+
+    this._folderListener = vscode.workspace.onDidChangeWorkspaceFolders(
+      (event) => {
+        event.removed.forEach((folder) =>
+          this._configs.delete(folder.uri.toString())
+        );
+      }
+    );
+  }
+
+  public get(workspaceFolder: vscode.WorkspaceFolder): HTFlowConfig {
+    return this.getResult(workspaceFolder).config;
+  }
+
+  public getResult(workspaceFolder: vscode.WorkspaceFolder): ConfigLoadResult {
+    const key = workspaceFolder.uri.toString();
+    let result = this._configs.get(key);
+    if (!result) {
+      result = loadConfig(workspaceFolder.uri.fsPath);
+      this._configs.set(key, result);
+    }
+    return result;
+  }
+
+  public dispose() {
+    this._watcher.dispose();
+    this._folderListener.dispose();
+    this._onDidChangeConfig.dispose();
+  }
+
+  private handleFileEvent(uri: vscode.Uri) {
+    // Only the rc file at the root of a workspace folder counts
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (
+      !workspaceFolder ||
+      path.dirname(uri.fsPath) !== workspaceFolder.uri.fsPath
+    ) {
+      return;
+    }
+
+    const result = loadConfig(workspaceFolder.uri.fsPath);
+    this._configs.set(workspaceFolder.uri.toString(), result);
+    console.log(
+      `HTFlow: Reloaded ${PROJECT_CONFIG_FILE} for ${workspaceFolder.name}` +
+        (result.error ? ` (${result.error})` : "")
+    );
+    this._onDidChangeConfig.fire({ workspaceFolder, result });
+  }
+}
+
+function cloneDefaults(): HTFlowConfig {
+  return JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSeverity(value: unknown): value is RuleSeverity {
+  return (
+    value === "error" ||
+    value === "warning" ||
+    value === "info" ||
+    value === "off"
+  );
+}
+
+function isClassName(value: string): boolean {
+  return /^-?[_a-zA-Z][\w-]*$/.test(value);
+}
+
+// Breakpoints are widths such as "991px" or "48em"; bare numbers mean px
+function toBreakpoint(value: unknown): string | undefined {
+  if (typeof value === "number" && value > 0) {
+    return `${value}px`;
+  }
+  if (typeof value === "string" && /^\d+(\.\d+)?(px|em|rem)$/.test(value)) {
+    return value;
+  }
+  return undefined;
+}
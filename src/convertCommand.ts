@@ -0,0 +1,308 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DEFAULT_CONFIG, HTFlowConfigManager } from "./config";
+import {
+  collectProjectClasses,
+  optimizeCss,
+  optimizeStyleBlocks,
+} from "./cssOptimizer";
+import { fullRange, HTFlowEditPreview } from "./editPreview";
+import {
+  collectClasses,
+  ConvertResult,
+  convertHtml,
+  parseHtml,
+  plural,
+  wrapperOptions,
+} from "./htmlConverter";
+import { convertTailwind } from "./tailwindConverter";
+
+const HTML_LANGUAGES = ["html", "htflow"];
+const CSS_LANGUAGES = ["css", ...HTML_LANGUAGES];
+const REACT_FILE = /\.(jsx|tsx)$/i;
+
+// "Convert File/Selection to HTFlow": converts the selected HTML, or the
+// whole file when nothing is selected, and shows the result as a diff before
+// writing it
+export async function convertToHTFlow(
+  preview: HTFlowEditPreview,
+  configManager: HTFlowConfigManager
+) {
+  await convertEditor(
+    preview,
+    "HTFlow",
+    "the HTML already follows the HTFlow rules",
+    (text, document) => {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+      const { htmlWrapper } = workspaceFolder
+        ? configManager.get(workspaceFolder).validation
+        : DEFAULT_CONFIG.validation;
+      return convertHtml(text, wrapperOptions(htmlWrapper));
+    }
+  );
+}
+
+// "Convert Tailwind Classes to CSS": same flow, with the breakpoints of the
+// file's project
+export async function convertTailwindToCss(
+  preview: HTFlowEditPreview,
+  configManager: HTFlowConfigManager
+) {
+  await convertEditor(
+    preview,
+    "CSS",
+    "no Tailwind utility classes found",
+    (text, document) => {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+      const config = workspaceFolder
+        ? configManager.get(workspaceFolder)
+        : DEFAULT_CONFIG;
+      return convertTailwind(text, config.responsive.breakpoints);
+    }
+  );
+}
+
+// "Optimize CSS": expands shorthands (when the project asks for longhand
+// CSS), merges duplicate selectors and drops overridden declarations in a CSS
+// file or the <style> blocks of an HTML file, and flags classes the project's
+// HTML does not use
+export async function optimizeCssFile(
+  preview: HTFlowEditPreview,
+  configManager: HTFlowConfigManager
+) {
+  await convertEditor(
+    preview,
+    "Optimized CSS",
+    "the CSS is already optimized",
+    async (text, document) => {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+      const config = workspaceFolder
+        ? configManager.get(workspaceFolder)
+        : DEFAULT_CONFIG;
+
+      let usedClasses: Set<string> | undefined;
+      if (workspaceFolder) {
+        const root = workspaceFolder.uri.fsPath;
+        usedClasses = await collectProjectClasses(
+          root,
+          config.build.outDir
+            ? path.resolve(root, config.build.outDir)
+            : undefined
+        );
+        // Unsaved changes to an HTML file count too
+        if (HTML_LANGUAGES.includes(document.languageId)) {
+          collectClasses(parseHtml(document.getText())).forEach((name) =>
+            usedClasses?.add(name)
+          );
+        }
+      }
+
+      const options = {
+        expandShorthands: config.validation.cssProperties === "longhand-only",
+        usedClasses,
+      };
+      const result =
+        HTML_LANGUAGES.includes(document.languageId) && /<style\b/i.test(text)
+          ? optimizeStyleBlocks(text, options)
+          : optimizeCss(text, options);
+      return { html: result.css, changes: result.changes };
+    },
+    CSS_LANGUAGES
+  );
+}
+
+// "Convert React Component to HTFlow": renders a static .jsx/.tsx component
+// and writes Name.html, Name.css and Name.js beside it
+export async function convertReactToHTFlow(uri?: vscode.Uri) {
+  const source = uri ?? findReactFile();
+  if (!source) {
+    vscode.window.showWarningMessage(
+      "HTFlow: Open a React component (.jsx or .tsx) to convert"
+    );
+    return;
+  }
+
+  try {
+    const document = await vscode.workspace.openTextDocument(source);
+    // The JSX parser is only loaded when a component is converted
+    const { convertReactComponent } = await import("./reactConverter");
+    const result = convertReactComponent(document.getText(), source.fsPath);
+
+    const folder = vscode.Uri.joinPath(source, "..");
+    const files = [
+      { extension: "html", content: result.html },
+      { extension: "css", content: result.css },
+      { extension: "js", content: result.js },
+    ].map((file) => ({
+      uri: vscode.Uri.joinPath(
+        folder,
+        `${result.componentName}.${file.extension}`
+      ),
+      content: file.content,
+    }));
+
+    const existing: string[] = [];
+    for (const file of files) {
+      try {
+        await vscode.workspace.fs.stat(file.uri);
+        existing.push(path.basename(file.uri.fsPath));
+      } catch {
+        // Not there yet
+      }
+    }
+    if (existing.length > 0) {
+      const answer = await vscode.window.showWarningMessage(
+        `HTFlow: ${existing.join(", ")} already exist. Overwrite?`,
+        { modal: true },
+        "Overwrite"
+      );
+      if (answer !== "Overwrite") {
+        return;
+      }
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const file of files) {
+      edit.createFile(file.uri, {
+        overwrite: true,
+        contents: Buffer.from(file.content, "utf8"),
+      });
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showErrorMessage(
+        `HTFlow: Could not write the files for ${result.componentName}`
+      );
+      return;
+    }
+
+    await vscode.window.showTextDocument(files[0].uri);
+    console.log(
+      `HTFlow: Converted ${source.fsPath} with ${result.warnings.length} warnings`
+    );
+    await reportReactWarnings(document, result.componentName, result.warnings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`HTFlow: Conversion failed: ${message}`);
+  }
+}
+
+async function reportReactWarnings(
+  document: vscode.TextDocument,
+  componentName: string,
+  warnings: { line: number; message: string }[]
+) {
+  if (warnings.length === 0) {
+    vscode.window.showInformationMessage(
+      `HTFlow: Converted ${componentName} to HTML, CSS and JS`
+    );
+    return;
+  }
+
+  const answer = await vscode.window.showWarningMessage(
+    `HTFlow: Converted ${componentName} with ${plural(
+      warnings.length,
+      "warning"
+    )} about dynamic code`,
+    "Show Warnings"
+  );
+  if (answer !== "Show Warnings") {
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    warnings.map((warning) => ({
+      label: warning.message,
+      description: `Line ${warning.line}`,
+      line: warning.line,
+    })),
+    { placeHolder: "Dynamic code that was not converted" }
+  );
+  if (picked) {
+    const position = new vscode.Position(picked.line - 1, 0);
+    await vscode.window.showTextDocument(document, {
+      selection: new vscode.Range(position, position),
+    });
+  }
+}
+
+async function convertEditor(
+  preview: HTFlowEditPreview,
+  title: string,
+  nothingToDo: string,
+  convert: (
+    text: string,
+    document: vscode.TextDocument
+  ) => ConvertResult | Promise<ConvertResult>,
+  languages: string[] = HTML_LANGUAGES
+) {
+  const editor = findEditor(languages);
+  if (!editor) {
+    vscode.window.showErrorMessage(
+      `HTFlow: Open ${
+        languages.includes("css") ? "a CSS or HTML" : "an HTML"
+      } file to convert`
+    );
+    return;
+  }
+
+  const document = editor.document;
+  const range = editor.selection.isEmpty
+    ? fullRange(document)
+    : new vscode.Range(editor.selection.start, editor.selection.end);
+
+  try {
+    const text = document.getText(range);
+    const result = await convert(text, document);
+    if (result.changes.length === 0) {
+      vscode.window.showInformationMessage(
+        `HTFlow: Nothing to convert, ${nothingToDo}`
+      );
+      return;
+    }
+    // Only findings (e.g. unused classes), nothing to edit
+    if (result.html === text) {
+      vscode.window.showInformationMessage(
+        `HTFlow: ${result.changes.join(", ")}`
+      );
+      return;
+    }
+
+    const applied = await preview.previewEdit(
+      document,
+      range,
+      result.html,
+      title,
+      result.changes
+    );
+    if (applied) {
+      console.log(
+        `HTFlow: Converted ${document.fileName}: ${result.changes.join(", ")}`
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`HTFlow: Conversion failed: ${message}`);
+  }
+}
+
+// The active editor, or a visible editor when the HTFlow panel has focus
+// (from its tool buttons) or the active file is of another language. Either
+// must hold one of `languages`.
+function findEditor(languages: string[]): vscode.TextEditor | undefined {
+  const matches = (editor: vscode.TextEditor) =>
+    languages.includes(editor.document.languageId);
+  const active = vscode.window.activeTextEditor;
+  return active && matches(active)
+    ? active
+    : vscode.window.visibleTextEditors.find(matches);
+}
+
+function findReactFile(): vscode.Uri | undefined {
+  const document = vscode.window.activeTextEditor?.document;
+  if (document && REACT_FILE.test(document.fileName)) {
+    return document.uri;
+  }
+  return vscode.window.visibleTextEditors.find((editor) =>
+    REACT_FILE.test(editor.document.fileName)
+  )?.document.uri;
+}
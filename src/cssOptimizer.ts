@@ -0,0 +1,604 @@
+import * as fs from "fs";
+import { collectClasses, parseHtml, plural } from "./htmlConverter";
+import {
+  collectFiles,
+  expandShorthand,
+  isHtmlFile,
+  isShorthandProperty,
+  longhandsOf,
+} from "./offlineValidator";
+
+// Stylesheet clean-up for the css-optimizer tool: shorthands are expanded to
+// the longhands Webflow imports, rules repeating a selector are merged,
+// declarations a later one overrides are dropped, and classes no HTML file
+// uses are flagged (not removed, scripts may add them).
+
+export type CssOptimizeOptions = {
+  // Expand shorthands (`cssProperties: "longhand-only"` in .htflowrc.json)
+  expandShorthands?: boolean;
+  // Classes used by the project's HTML; unused ones are only checked when
+  // this is given
+  usedClasses?: Set<string>;
+};
+
+export type CssOptimizeResult = {
+  css: string;
+  changes: string[];
+  unusedClasses: string[];
+  sizeBefore: number;
+  sizeAfter: number;
+};
+
+type CssDeclaration =
+  | { kind: "declaration"; property: string; value: string }
+  | { kind: "comment"; text: string };
+
+type CssNode =
+  | { kind: "comment"; text: string }
+  | { kind: "rule"; selector: string; declarations: CssDeclaration[] }
+  // @media and friends hold rules; other at-rules (@font-face, @keyframes)
+  // and nested CSS are kept as written in `body`
+  | { kind: "at-rule"; prelude: string; children?: CssNode[]; body?: string }
+  | { kind: "raw"; prelude: string; body: string };
+
+type Stats = {
+  expanded: number;
+  kept: Set<string>;
+  merged: number;
+  overridden: number;
+};
+
+// At-rules whose block holds ordinary rules
+const GROUPING_AT_RULES = /^@(media|supports|container|layer|document)\b/i;
+
+// A later value using one of these may be unsupported, so the earlier
+// declaration is a fallback rather than overridden
+const MODERN_VALUE = /\b(var|calc|clamp|min|max|env|color-mix)\(/i;
+const VENDOR_PREFIX = /(^|[\s(,])-(webkit|moz|ms|o)-/i;
+
+// Unused classes listed in the summary before "and N more"
+const LISTED_CLASSES = 5;
+
+const STYLE_BLOCK = /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi;
+
+export function optimizeCss(
+  css: string,
+  options: CssOptimizeOptions = {}
+): CssOptimizeResult {
+  const stats = createStats();
+  const { nodes, output } = optimizeStylesheet(css, options, stats);
+  return summarize(css, output, nodes, options, stats);
+}
+
+// Optimize the <style> blocks of an HTML file, keeping their indentation
+export function optimizeStyleBlocks(
+  html: string,
+  options: CssOptimizeOptions = {}
+): CssOptimizeResult {
+  const stats = createStats();
+  const nodes: CssNode[] = [];
+  const output = html.replace(STYLE_BLOCK, (match, open, css, close) => {
+    const base = css.match(/^\s*\n([ \t]*)\S/)?.[1] ?? "";
+    const closing = css.match(/\n([ \t]*)$/)?.[1] ?? "";
+    const result = optimizeStylesheet(
+      base ? css.replace(new RegExp(`^${base}`, "gm"), "") : css,
+      options,
+      stats
+    );
+    nodes.push(...result.nodes);
+    if (!result.changed) {
+      return match;
+    }
+
+    const reindented = result.output
+      .trimEnd()
+      .split("\n")
+      .map((line) => (line ? `${base}${line}` : line))
+      .join("\n");
+    return `${open}\n${reindented}\n${closing}${close}`;
+  });
+  return summarize(html, output, nodes, options, stats);
+}
+
+function optimizeStylesheet(
+  css: string,
+  options: CssOptimizeOptions,
+  stats: Stats
+): { nodes: CssNode[]; output: string; changed: boolean } {
+  const indent = /\n\t+\S/.test(css) ? "\t" : "  ";
+  const nodes = new CssParser(css).parseNodes();
+  const before = stats.expanded + stats.merged + stats.overridden;
+  optimizeNodes(nodes, options, stats);
+
+  const changed = stats.expanded + stats.merged + stats.overridden > before;
+  return {
+    nodes,
+    output: changed ? `${formatNodes(nodes, "", indent)}\n` : css,
+    changed,
+  };
+}
+
+function summarize(
+  original: string,
+  output: string,
+  nodes: CssNode[],
+  options: CssOptimizeOptions,
+  stats: Stats
+): CssOptimizeResult {
+  const unusedClasses = options.usedClasses
+    ? [...selectorClasses(nodes)].filter(
+        (name) => !options.usedClasses?.has(name)
+      )
+    : [];
+
+  const changes: string[] = [];
+  if (stats.expanded > 0) {
+    changes.push(`Expanded ${plural(stats.expanded, "shorthand")}`);
+  }
+  if (stats.merged > 0) {
+    changes.push(`Merged ${plural(stats.merged, "duplicate selector")}`);
+  }
+  if (stats.overridden > 0) {
+    changes.push(
+      `Removed ${plural(stats.overridden, "overridden declaration")}`
+    );
+  }
+  if (stats.kept.size > 0) {
+    changes.push(
+      `Kept ${[...stats.kept].join(", ")} (cannot be expanded safely)`
+    );
+  }
+  if (unusedClasses.length > 0) {
+    const listed = unusedClasses
+      .slice(0, LISTED_CLASSES)
+      .map((name) => `.${name}`)
+      .join(", ");
+    const more =
+      unusedClasses.length > LISTED_CLASSES
+        ? ` and ${unusedClasses.length - LISTED_CLASSES} more`
+        : "";
+    changes.push(
+      `${plural(
+        unusedClasses.length,
+        "class",
+        "classes"
+      )} not used in the project's HTML: ${listed}${more}`
+    );
+  }
+
+  const sizeBefore = Buffer.byteLength(original, "utf8");
+  const sizeAfter = Buffer.byteLength(output, "utf8");
+  if (output !== original) {
+    changes.push(`Size ${sizeReport(sizeBefore, sizeAfter)}`);
+  }
+  return { css: output, changes, unusedClasses, sizeBefore, sizeAfter };
+}
+
+function createStats(): Stats {
+  return { expanded: 0, kept: new Set(), merged: 0, overridden: 0 };
+}
+
+// Classes used by the HTML files of a project folder
+export async function collectProjectClasses(
+  root: string,
+  outDir?: string
+): Promise<Set<string>> {
+  const classes = new Set<string>();
+  for (const file of (await collectFiles(root, outDir)).filter(isHtmlFile)) {
+    try {
+      const html = await fs.promises.readFile(file, "utf8");
+      collectClasses(parseHtml(html)).forEach((name) => classes.add(name));
+    } catch (error) {
+      console.log(`HTFlow: Skipping unreadable file ${file}`);
+    }
+  }
+  return classes;
+}
+
+function optimizeNodes(
+  nodes: CssNode[],
+  options: CssOptimizeOptions,
+  stats: Stats
+) {
+  for (const node of nodes) {
+    if (node.kind === "rule" && options.expandShorthands) {
+      node.declarations = node.declarations.flatMap((declaration) =>
+        expandDeclaration(declaration, stats)
+      );
+    } else if (node.kind === "at-rule" && node.children) {
+      optimizeNodes(node.children, options, stats);
+    }
+  }
+
+  mergeDuplicates(nodes, stats);
+
+  for (const node of nodes) {
+    if (node.kind === "rule") {
+      removeOverridden(node.declarations, stats);
+    }
+  }
+}
+
+function expandDeclaration(
+  declaration: CssDeclaration,
+  stats: Stats
+): CssDeclaration[] {
+  if (
+    declaration.kind !== "declaration" ||
+    !isShorthandProperty(declaration.property.toLowerCase())
+  ) {
+    return [declaration];
+  }
+
+  const longhands = expandShorthand(
+    declaration.property.toLowerCase(),
+    declaration.value
+  );
+  if (!longhands) {
+    stats.kept.add(declaration.property);
+    return [declaration];
+  }
+
+  stats.expanded++;
+  return longhands.map((longhand) => {
+    const separator = longhand.indexOf(":");
+    return {
+      kind: "declaration",
+      property: longhand.slice(0, separator),
+      value: longhand.slice(separator + 1).trim(),
+    };
+  });
+}
+
+// A later rule with the same selector joins the first one, unless a rule
+// in between sets one of its properties (moving it would change which
+// declaration wins)
+function mergeDuplicates(nodes: CssNode[], stats: Stats) {
+  for (let first = 0; first < nodes.length; first++) {
+    const target = nodes[first];
+    if (target.kind !== "rule") {
+      continue;
+    }
+
+    const selector = normalizeSelector(target.selector);
+    for (let later = first + 1; later < nodes.length; later++) {
+      const duplicate = nodes[later];
+      if (
+        duplicate.kind !== "rule" ||
+        normalizeSelector(duplicate.selector) !== selector
+      ) {
+        continue;
+      }
+
+      const properties = declaredProperties([duplicate]);
+      const between = nodes.slice(first + 1, later);
+      if (
+        between.some((node) => node.kind === "raw") ||
+        [...declaredProperties(between)].some((property) =>
+          properties.has(property)
+        )
+      ) {
+        continue;
+      }
+
+      target.declarations.push(...duplicate.declarations);
+      nodes.splice(later, 1);
+      later--;
+      stats.merged++;
+    }
+  }
+}
+
+// Within one rule, a declaration is dropped when a later one sets the same
+// property with at least the same importance, or an earlier one is
+// !important and it is not. Fallbacks like
+// `width: 90%; width: calc(100% - 2rem)` are kept.
+function removeOverridden(declarations: CssDeclaration[], stats: Stats) {
+  const overridden = declarations.filter((declaration, index) => {
+    if (declaration.kind !== "declaration") {
+      return false;
+    }
+
+    return declarations.some((other, otherIndex) => {
+      if (
+        other.kind !== "declaration" ||
+        otherIndex === index ||
+        other.property.toLowerCase() !== declaration.property.toLowerCase()
+      ) {
+        return false;
+      }
+      const [earlier, later] =
+        otherIndex > index ? [declaration, other] : [other, declaration];
+      const fallback =
+        VENDOR_PREFIX.test(earlier.value) ||
+        VENDOR_PREFIX.test(later.value) ||
+        (MODERN_VALUE.test(later.value) && !MODERN_VALUE.test(earlier.value));
+      if (fallback) {
+        return false;
+      }
+      return otherIndex > index
+        ? isImportant(other) || !isImportant(declaration)
+        : isImportant(other) && !isImportant(declaration);
+    });
+  });
+
+  overridden.forEach((declaration) =>
+    declarations.splice(declarations.indexOf(declaration), 1)
+  );
+  stats.overridden += overridden.length;
+}
+
+function isImportant(declaration: { value: string }): boolean {
+  return /!important\s*$/i.test(declaration.value);
+}
+
+// Longhand properties set anywhere in `nodes`
+function declaredProperties(nodes: CssNode[]): Set<string> {
+  const properties = new Set<string>();
+  for (const node of nodes) {
+    if (node.kind === "rule") {
+      for (const declaration of node.declarations) {
+        if (declaration.kind === "declaration") {
+          const property = declaration.property.toLowerCase();
+          longhandsOf(property).forEach((longhand) => properties.add(longhand));
+          // border-width also covers border-top-width and so on
+          properties.add(property.replace(/-(top|right|bottom|left)\b/, ""));
+        }
+      }
+    } else if (node.kind === "at-rule" && node.children) {
+      declaredProperties(node.children).forEach((property) =>
+        properties.add(property)
+      );
+    }
+  }
+  return properties;
+}
+
+function selectorClasses(nodes: CssNode[]): Set<string> {
+  const classes = new Set<string>();
+  for (const node of nodes) {
+    if (node.kind === "rule") {
+      // Attribute values and strings can contain dots
+      const selector = node.selector.replace(/\[[^\]]*\]|"[^"]*"|'[^']*'/g, "");
+      for (const match of selector.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)) {
+        classes.add(match[1]);
+      }
+    } else if (node.kind === "at-rule" && node.children) {
+      selectorClasses(node.children).forEach((name) => classes.add(name));
+    }
+  }
+  return classes;
+}
+
+function normalizeSelector(selector: string): string {
+  return splitTopLevel(selector, ",")
+    .map((part) => part.trim().replace(/\s+/g, " "))
+    .join(", ");
+}
+
+function formatNodes(nodes: CssNode[], prefix: string, indent: string): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case "comment":
+          return `${prefix}${node.text}`;
+        case "raw":
+          return `${prefix}${node.prelude} {${node.body}}`;
+        case "at-rule":
+          if (node.children) {
+            return [
+              `${prefix}${node.prelude} {`,
+              formatNodes(node.children, prefix + indent, indent),
+              `${prefix}}`,
+            ].join("\n");
+          }
+          return node.body === undefined
+            ? `${prefix}${node.prelude};`
+            : `${prefix}${node.prelude} {${node.body}}`;
+        case "rule":
+          return [
+            `${prefix}${normalizeSelector(node.selector)} {`,
+            ...node.declarations.map((declaration) =>
+              declaration.kind === "comment"
+                ? `${prefix}${indent}${declaration.text}`
+                : `${prefix}${indent}${declaration.property}: ${declaration.value};`
+            ),
+            `${prefix}}`,
+          ].join("\n");
+      }
+    })
+    .join("\n\n");
+}
+
+// "2.4 KB → 1.9 KB (-21%)"
+function sizeReport(before: number, after: number): string {
+  const percent =
+    before > 0 ? Math.round(((after - before) / before) * 100) : 0;
+  return `${formatSize(before)} → ${formatSize(after)} (${
+    percent > 0 ? "+" : ""
+  }${percent}%)`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+// Split on `separator` outside parentheses, brackets and quotes
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quote = "";
+  for (const char of text) {
+    if (quote) {
+      quote = char === quote ? "" : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+class CssParser {
+  private _index = 0;
+
+  constructor(private readonly _css: string) {}
+
+  // Nodes up to the end of the enclosing block (or of the stylesheet)
+  public parseNodes(): CssNode[] {
+    const nodes: CssNode[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      if (this._index >= this._css.length) {
+        return nodes;
+      }
+      if (this._css[this._index] === "}") {
+        this._index++;
+        return nodes;
+      }
+      if (this._css.startsWith("/*", this._index)) {
+        nodes.push({ kind: "comment", text: this.readComment() });
+        continue;
+      }
+
+      const { text, end } = this.readUntil("{;}");
+      const prelude = text.trim();
+      if (end !== "{") {
+        // @import, @charset or a stray declaration
+        if (end === ";") {
+          this._index++;
+        }
+        if (prelude) {
+          nodes.push({ kind: "at-rule", prelude: prelude.replace(/;$/, "") });
+        }
+        continue;
+      }
+
+      this._index++;
+      if (prelude.startsWith("@")) {
+        nodes.push(
+          GROUPING_AT_RULES.test(prelude)
+            ? { kind: "at-rule", prelude, children: this.parseNodes() }
+            : { kind: "at-rule", prelude, body: this.readBlock() }
+        );
+        continue;
+      }
+
+      const body = this.readBlock();
+      nodes.push(
+        // Nested CSS is kept as written
+        body.includes("{")
+          ? { kind: "raw", prelude, body }
+          : { kind: "rule", selector: prelude, declarations: parseBody(body) }
+      );
+    }
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this._css[this._index] ?? "")) {
+      this._index++;
+    }
+  }
+
+  private readComment(): string {
+    const end = this._css.indexOf("*/", this._index + 2);
+    const stop = end < 0 ? this._css.length : end + 2;
+    const text = this._css.slice(this._index, stop);
+    this._index = stop;
+    return text;
+  }
+
+  // Text up to one of `stops` outside strings, comments and parentheses
+  private readUntil(stops: string): { text: string; end?: string } {
+    const start = this._index;
+    let depth = 0;
+    while (this._index < this._css.length) {
+      const char = this._css[this._index];
+      if (char === '"' || char === "'") {
+        this.skipString(char);
+        continue;
+      }
+      if (this._css.startsWith("/*", this._index)) {
+        this.readComment();
+        continue;
+      }
+      if (char === "(") {
+        depth++;
+      } else if (char === ")") {
+        depth--;
+      } else if (depth <= 0 && stops.includes(char)) {
+        return { text: this._css.slice(start, this._index), end: char };
+      }
+      this._index++;
+    }
+    return { text: this._css.slice(start) };
+  }
+
+  // The rest of a block whose `{` was just read, without the closing `}`
+  private readBlock(): string {
+    const start = this._index;
+    let depth = 1;
+    while (this._index < this._css.length) {
+      const { end } = this.readUntil("{}");
+      if (!end) {
+        break;
+      }
+      depth += end === "{" ? 1 : -1;
+      this._index++;
+      if (depth === 0) {
+        return this._css.slice(start, this._index - 1);
+      }
+    }
+    return this._css.slice(start);
+  }
+
+  private skipString(quote: string) {
+    this._index++;
+    while (this._index < this._css.length) {
+      const char = this._css[this._index++];
+      if (char === "\\") {
+        this._index++;
+      } else if (char === quote) {
+        return;
+      }
+    }
+  }
+}
+
+// Declarations and comments of a rule body
+function parseBody(body: string): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+  const addDeclarations = (text: string) => {
+    for (const part of splitTopLevel(text, ";")) {
+      const separator = part.indexOf(":");
+      if (separator > 0 && part.slice(separator + 1).trim()) {
+        declarations.push({
+          kind: "declaration",
+          property: part.slice(0, separator).trim(),
+          value: part.slice(separator + 1).trim(),
+        });
+      }
+    }
+  };
+
+  const comments = /\/\*[\s\S]*?\*\//g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = comments.exec(body))) {
+    addDeclarations(body.slice(last, match.index));
+    declarations.push({ kind: "comment", text: match[0] });
+    last = match.index + match[0].length;
+  }
+  addDeclarations(body.slice(last));
+  return declarations;
+}
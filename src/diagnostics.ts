@@ -0,0 +1,256 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AuditIssue,
+  AuditIssueType,
+  AuditReport,
+  UnusedSuppression,
+} from "./auditReport";
+import { HTFlowBaselineManager } from "./baseline";
+
+// Diagnostic code of htflow-disable comments that hid nothing
+export const UNUSED_SUPPRESSION = "unused-suppression";
+
+export class HTFlowDiagnostics implements vscode.Disposable {
+  private readonly _collection: vscode.DiagnosticCollection;
+  // Issues per file URI, including baselined ones so they can be shown
+  // again when the baseline changes. Also used for quick fixes and AI
+  // prompts.
+  private _issues: Map<string, AuditIssue[]> = new Map();
+  // htflow-disable comments that hid nothing, per file URI
+  private _unused: Map<string, UnusedSuppression[]> = new Map();
+  private _baselineListener: vscode.Disposable;
+
+  constructor(private readonly _baseline: HTFlowBaselineManager) {
+    this._collection = vscode.languages.createDiagnosticCollection("htflow");
+
+    this._baselineListener = this._baseline.onDidChangeBaseline(
+      (workspaceFolder) => {
+        this._issues.forEach((_issues, key) => {
+          const uri = vscode.Uri.parse(key);
+          if (vscode.workspace.getWorkspaceFolder(uri) === workspaceFolder) {
+            this.publish(uri);
+          }
+        });
+      }
+    );
+  }
+
+  // Drop the diagnostics of one workspace folder, or all of them
+  public clear(workspaceFolder?: vscode.WorkspaceFolder) {
+    if (!workspaceFolder) {
+      this._collection.clear();
+      this._issues.clear();
+      this._unused.clear();
+      return;
+    }
+
+    // Documents whose issues are all baselined have no diagnostics but are
+    // still tracked
+    const root = workspaceFolder.uri.fsPath;
+    const stale: vscode.Uri[] = [];
+    this._issues.forEach((_issues, key) => {
+      const uri = vscode.Uri.parse(key);
+      const relative = path.relative(root, uri.fsPath);
+      if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+        stale.push(uri);
+      }
+    });
+    stale.forEach((uri) => this.delete(uri));
+  }
+
+  // Replace the HTFlow diagnostics of a workspace folder with the issues of
+  // its latest run
+  public update(
+    report: AuditReport,
+    workspaceFolder: vscode.WorkspaceFolder,
+    folder?: string
+  ): number {
+    this.clear(workspaceFolder);
+
+    const byFile = new Map<string, AuditIssue[]>();
+    for (const issue of report.issues) {
+      const filePath = resolveIssuePath(issue, workspaceFolder, folder);
+      if (!filePath) {
+        continue;
+      }
+
+      const issues = byFile.get(filePath) ?? [];
+      issues.push(issue);
+      byFile.set(filePath, issues);
+    }
+
+    const unusedByFile = new Map<string, UnusedSuppression[]>();
+    for (const suppression of report.unusedSuppressions ?? []) {
+      const filePath = resolveIssuePath(suppression, workspaceFolder, folder);
+      if (filePath) {
+        unusedByFile.set(filePath, [
+          ...(unusedByFile.get(filePath) ?? []),
+          suppression,
+        ]);
+        byFile.set(filePath, byFile.get(filePath) ?? []);
+      }
+    }
+
+    let count = 0;
+    byFile.forEach((issues, filePath) => {
+      this.updateDocument(
+        vscode.Uri.file(filePath),
+        issues,
+        unusedByFile.get(filePath)
+      );
+      count += issues.length;
+    });
+
+    console.log(
+      `HTFlow: Published ${count} diagnostics across ${byFile.size} files`
+    );
+    return count;
+  }
+
+  // Replace the HTFlow diagnostics of a single document, e.g. after it was
+  // validated on save. Other files keep theirs.
+  public updateDocument(
+    uri: vscode.Uri,
+    issues: AuditIssue[],
+    unusedSuppressions: UnusedSuppression[] = []
+  ) {
+    this._issues.set(uri.toString(), issues);
+    this._unused.set(uri.toString(), unusedSuppressions);
+    this.publish(uri);
+  }
+
+  public delete(uri: vscode.Uri) {
+    this._collection.delete(uri);
+    this._issues.delete(uri.toString());
+    this._unused.delete(uri.toString());
+  }
+
+  // The issue a diagnostic was created from. Code actions receive copies of
+  // the diagnostics, so they are matched by line, rule and title.
+  public findIssue(
+    uri: vscode.Uri,
+    diagnostic: vscode.Diagnostic
+  ): AuditIssue | undefined {
+    const code =
+      typeof diagnostic.code === "object"
+        ? diagnostic.code.value
+        : diagnostic.code;
+    return this._issues
+      .get(uri.toString())
+      ?.find(
+        (issue) =>
+          Math.max(0, (issue.line ?? 1) - 1) === diagnostic.range.start.line &&
+          issue.rule === code &&
+          diagnostic.message.startsWith(issue.title)
+      );
+  }
+
+  public dispose() {
+    this._baselineListener.dispose();
+    this._collection.dispose();
+  }
+
+  // Baselined issues get no diagnostic
+  private publish(uri: vscode.Uri) {
+    const key = uri.toString();
+    const issues = this._baseline.filterDocument(
+      uri,
+      this._issues.get(key) ?? []
+    );
+    this._collection.set(uri, [
+      ...issues.map((issue) => this.toDiagnostic(issue)),
+      ...(this._unused.get(key) ?? []).map((suppression) =>
+        this.toUnusedDiagnostic(suppression)
+      ),
+    ]);
+  }
+
+  // Faded hint on the comment, like unused code
+  private toUnusedDiagnostic(
+    suppression: UnusedSuppression
+  ): vscode.Diagnostic {
+    const line = suppression.line - 1;
+    const column = suppression.column - 1;
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(
+        line,
+        column,
+        line,
+        column + suppression.text.trimEnd().length
+      ),
+      suppression.rules.length > 0
+        ? `Unused htflow suppression for ${suppression.rules.join(", ")}`
+        : "Unused htflow suppression",
+      vscode.DiagnosticSeverity.Hint
+    );
+    diagnostic.source = "htflow";
+    diagnostic.code = UNUSED_SUPPRESSION;
+    diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+    return diagnostic;
+  }
+
+  private toDiagnostic(issue: AuditIssue): vscode.Diagnostic {
+    const line = Math.max(0, (issue.line ?? 1) - 1);
+    const column = Math.max(0, (issue.column ?? 1) - 1);
+    const range = new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER);
+
+    let message = issue.title;
+    if (issue.description) {
+      message += `\n${issue.description}`;
+    }
+    if (issue.fix) {
+      message += `\n💡 Fix: ${issue.fix}`;
+    }
+
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      message,
+      toSeverity(issue.type)
+    );
+    diagnostic.source = "htflow";
+    if (issue.rule) {
+      diagnostic.code = issue.rule;
+    }
+    return diagnostic;
+  }
+}
+
+// Absolute path of the file an issue points at. Relative paths are resolved
+// against the audited folder first, then the workspace root.
+export function resolveIssuePath(
+  issue: Pick<AuditIssue, "file">,
+  workspaceFolder: vscode.WorkspaceFolder,
+  folder?: string
+): string | undefined {
+  if (!issue.file) {
+    return undefined;
+  }
+
+  if (path.isAbsolute(issue.file)) {
+    return issue.file;
+  }
+
+  const root = workspaceFolder.uri.fsPath;
+  const folderValue = folder?.trim();
+  if (folderValue) {
+    const inFolder = path.join(root, folderValue, issue.file);
+    if (fs.existsSync(inFolder)) {
+      return inFolder;
+    }
+  }
+
+  return path.join(root, issue.file);
+}
+
+function toSeverity(type: AuditIssueType): vscode.DiagnosticSeverity {
+  switch (type) {
+    case "error":
+      return vscode.DiagnosticSeverity.Error;
+    case "warning":
+      return vscode.DiagnosticSeverity.Warning;
+    default:
+      return vscode.DiagnosticSeverity.Information;
+  }
+}
@@ -0,0 +1,171 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { HTFlowConfigManager } from "./config";
+import { HTFlowDiagnostics } from "./diagnostics";
+import {
+  checkedRules,
+  isValidatedFile,
+  validateText,
+} from "./offlineValidator";
+import { applySuppressions, isCheckedSuppression } from "./suppressions";
+
+// Value of the htflow.validateOn setting
+export type ValidateOn = "off" | "save" | "type";
+
+// Pause after the last keystroke before validating while typing
+const TYPING_DELAY = 500;
+
+// Checks HTML, CSS and JS documents with the built-in rules when they are
+// saved or, after a pause, while the active one is edited. Only the
+// document's own diagnostics are replaced, so results of the last audit for
+// other files stay in the Problems view.
+export class HTFlowDocumentValidator implements vscode.Disposable {
+  private _mode: ValidateOn;
+  private _timers: Map<string, NodeJS.Timeout> = new Map();
+  // Documents whose diagnostics came from this validator
+  private _validated: Set<string> = new Set();
+  private _listeners: vscode.Disposable[];
+
+  constructor(
+    private readonly _configManager: HTFlowConfigManager,
+    private readonly _diagnostics: HTFlowDiagnostics
+  ) {
+    this._mode = readMode();
+
+    this._listeners = [
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        if (this._mode !== "off") {
+          this.validate(document);
+        }
+      }),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (
+          this._mode === "type" &&
+          event.document === vscode.window.activeTextEditor?.document
+        ) {
+          this.schedule(event.document);
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor && this._mode === "type") {
+          this.validate(editor.document);
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.clearTimer(document.uri.toString())
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("htflow.validateOn")) {
+          this.setMode(readMode());
+        }
+      }),
+      // Rule severities may have changed
+      this._configManager.onDidChangeConfig(({ workspaceFolder }) => {
+        vscode.workspace.textDocuments
+          .filter(
+            (document) =>
+              this._validated.has(document.uri.toString()) &&
+              vscode.workspace.getWorkspaceFolder(document.uri) ===
+                workspaceFolder
+          )
+          .forEach((document) => this.validate(document));
+      }),
+    ];
+
+    const document = vscode.window.activeTextEditor?.document;
+    if (document && this._mode === "type") {
+      this.validate(document);
+    }
+  }
+
+  public validate(document: vscode.TextDocument) {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (
+      !workspaceFolder ||
+      document.uri.scheme !== "file" ||
+      !isValidatedFile(document.fileName)
+    ) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    this.clearTimer(key);
+
+    const file = path
+      .relative(workspaceFolder.uri.fsPath, document.fileName)
+      .split(path.sep)
+      .join("/");
+    const text = document.getText();
+    const config = this._configManager.get(workspaceFolder);
+    const rules = checkedRules(file, config);
+    const { issues, unused } = applySuppressions(
+      validateText(file, text, config),
+      text,
+      (suppression) => isCheckedSuppression(suppression, rules)
+    );
+
+    this._diagnostics.updateDocument(
+      document.uri,
+      issues,
+      unused.map(({ line, column, rules, text }) => ({
+        file,
+        line,
+        column,
+        rules,
+        text,
+      }))
+    );
+    this._validated.add(key);
+  }
+
+  public dispose() {
+    this._timers.forEach((timer) => clearTimeout(timer));
+    this._timers.clear();
+    this._listeners.forEach((listener) => listener.dispose());
+  }
+
+  private setMode(mode: ValidateOn) {
+    console.log(`HTFlow: Validate on ${mode}`);
+    this._mode = mode;
+
+    if (mode === "off") {
+      // Drop what this validator published; audits publish their own
+      this._timers.forEach((timer) => clearTimeout(timer));
+      this._timers.clear();
+      this._validated.forEach((key) =>
+        this._diagnostics.delete(vscode.Uri.parse(key))
+      );
+      this._validated.clear();
+      return;
+    }
+
+    const document = vscode.window.activeTextEditor?.document;
+    if (document) {
+      this.validate(document);
+    }
+  }
+
+  private schedule(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    this.clearTimer(key);
+    this._timers.set(
+      key,
+      setTimeout(() => this.validate(document), TYPING_DELAY)
+    );
+  }
+
+  private clearTimer(key: string) {
+    const timer = this._timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this._timers.delete(key);
+    }
+  }
+}
+
+function readMode(): ValidateOn {
+  const mode = vscode.workspace
+    .getConfiguration("htflow")
+    .get<string>("validateOn", "off");
+  return mode === "save" || mode === "type" ? mode : "off";
+}
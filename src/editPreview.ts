@@ -0,0 +1,121 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+export const PREVIEW_SCHEME = "htflow-preview";
+
+// Read-only documents for proposed edits. An edit is shown as a diff against
+// the file (or the selected text) and only written once it is accepted.
+export class HTFlowEditPreview
+  implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  private _contents: Map<string, string> = new Map();
+  private _nextId = 1;
+  private _registration: vscode.Disposable;
+
+  constructor() {
+    this._registration = vscode.workspace.registerTextDocumentContentProvider(
+      PREVIEW_SCHEME,
+      this
+    );
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this._contents.get(uri.toString()) ?? "";
+  }
+
+  // Diff `newText` against `range` of the document and ask whether to apply
+  // it. `changes` lists what the edit does. Returns whether it was applied.
+  public async previewEdit(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    newText: string,
+    title: string,
+    changes: string[]
+  ): Promise<boolean> {
+    const fileName = path.basename(document.fileName);
+    const wholeDocument = range.isEqual(fullRange(document));
+    const version = document.version;
+
+    const original = wholeDocument
+      ? document.uri
+      : this.createDocument(fileName, document.getText(range));
+    const modified = this.createDocument(fileName, newText);
+    const disposed = [modified, original].filter(
+      (uri) => uri.scheme === PREVIEW_SCHEME
+    );
+
+    try {
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        original,
+        modified,
+        `${fileName}${wholeDocument ? "" : " (selection)"} ↔ ${title}`,
+        { preview: true }
+      );
+
+      const answer = await vscode.window.showInformationMessage(
+        `HTFlow: ${changes.join(", ")}. Apply to ${fileName}?`,
+        "Apply",
+        "Discard"
+      );
+      await this.closeDiff(modified);
+      if (answer !== "Apply") {
+        return false;
+      }
+
+      if (document.version !== version) {
+        vscode.window.showWarningMessage(
+          `HTFlow: ${fileName} changed during the preview. Run the command again.`
+        );
+        return false;
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, range, newText);
+      const applied = await vscode.workspace.applyEdit(edit);
+      if (!applied) {
+        vscode.window.showErrorMessage(
+          `HTFlow: Could not apply the changes to ${fileName}`
+        );
+      }
+      return applied;
+    } finally {
+      disposed.forEach((uri) => this._contents.delete(uri.toString()));
+    }
+  }
+
+  public dispose() {
+    this._registration.dispose();
+    this._contents.clear();
+  }
+
+  // The file name is kept so the preview gets the same language mode
+  private createDocument(fileName: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({
+      scheme: PREVIEW_SCHEME,
+      path: `/${this._nextId++}/${fileName}`,
+    });
+    this._contents.set(uri.toString(), content);
+    return uri;
+  }
+
+  private async closeDiff(modified: vscode.Uri) {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter(
+        (tab) =>
+          tab.input instanceof vscode.TabInputTextDiff &&
+          tab.input.modified.toString() === modified.toString()
+      );
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+}
+
+export function fullRange(document: vscode.TextDocument): vscode.Range {
+  return new vscode.Range(
+    document.positionAt(0),
+    document.positionAt(document.getText().length)
+  );
+}
@@ -1,5 +1,26 @@
 import * as vscode from "vscode";
-import { HTFlowSidebarProvider } from "./sidebarProvider";
+import { exportAuditReport, ExportFormat } from "./auditExport";
+import { HTFlowAuditHistory } from "./auditHistory";
+import { HTFlowBaselineManager } from "./baseline";
+import { HTFlowBaselineView } from "./baselineView";
+import {
+  COPY_AI_PROMPT_COMMAND,
+  HTFlowCodeActionProvider,
+} from "./codeActions";
+import { HTFlowConfigManager } from "./config";
+import {
+  convertReactToHTFlow,
+  convertTailwindToCss,
+  convertToHTFlow,
+  optimizeCssFile,
+} from "./convertCommand";
+import { HTFlowDiagnostics } from "./diagnostics";
+import { HTFlowDocumentValidator } from "./documentValidator";
+import { HTFlowEditPreview } from "./editPreview";
+import { HTFlowIssuesView } from "./issuesView";
+import { CliAction, HTFlowSidebarProvider } from "./sidebarProvider";
+import { parseSuppressions } from "./suppressions";
+import { HTFlowTaskProvider } from "./taskProvider";
 import { exec } from "child_process";
 
 let currentPanel: vscode.WebviewPanel | undefined = undefined;
@@ -7,12 +28,13 @@ let statusBarItem: vscode.StatusBarItem;
 let rocketDecorationType: vscode.TextEditorDecorationType;
 let minimapDecorationEnabled: boolean = true;
 let sidebarProvider: HTFlowSidebarProvider;
+let configManager: HTFlowConfigManager;
 
 // Function to handle CLI installation
 async function handleCLIInstallation() {
   const terminal = vscode.window.createTerminal({
     name: "HTFlow CLI Installation",
-    cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+    cwd: sidebarProvider.activeWorkspaceFolder?.uri.fsPath,
   });
 
   terminal.show();
@@ -31,26 +53,22 @@ async function handleCLIInstallation() {
 
   // Wait a bit and then check status
   setTimeout(() => {
-    checkCLIStatus(currentPanel);
+    checkCLIStatus();
   }, 5000);
 }
 
 // Function to check CLI installation status
-function checkCLIStatus(panel?: vscode.WebviewPanel) {
+function checkCLIStatus() {
   exec("npx htflow --version", (error, stdout, stderr) => {
     const isInstalled = !error;
     const version = isInstalled ? stdout.trim() : null;
 
-    if (panel) {
-      panel.webview.postMessage({
-        type: "cliStatus",
-        data: {
-          installed: isInstalled,
-          version: version,
-          error: error?.message,
-        },
-      });
-    }
+    // Share the status with every open HTFlow webview
+    sidebarProvider.updateCliStatus({
+      installed: isInstalled,
+      version: version,
+      error: error?.message,
+    });
 
     if (isInstalled) {
       vscode.window.showInformationMessage(
@@ -95,6 +113,14 @@ function createRocketDecoration(
 // Function to find HTFlow-related lines in the active editor
 function findHTFlowLines(document: vscode.TextDocument): vscode.Range[] {
   const ranges: vscode.Range[] = [];
+  // Suppression comments and the lines they cover are not highlighted
+  const suppressions = parseSuppressions(document.getText());
+  const isSuppressed = (lineNumber: number) =>
+    suppressions.some(
+      (suppression) =>
+        suppression.line === lineNumber + 1 ||
+        (lineNumber + 1 >= suppression.from && lineNumber + 1 <= suppression.to)
+    );
   const htflowPatterns = [
     /data-ht-/i, // HTFlow data attributes
     /ht-/i, // HTFlow classes
@@ -105,6 +131,10 @@ function findHTFlowLines(document: vscode.TextDocument): vscode.Range[] {
   ];
 
   for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+    if (isSuppressed(lineNumber)) {
+      continue;
+    }
+
     const line = document.lineAt(lineNumber);
     const text = line.text;
 
@@ -184,8 +214,99 @@ function toggleMinimapDecorations() {
 export function activate(context: vscode.ExtensionContext) {
   console.log("HTFlow extension is now active!");
 
+  // Per-project .htflowrc.json, reloaded when the file changes
+  configManager = new HTFlowConfigManager();
+  context.subscriptions.push(
+    configManager,
+    configManager.onDidChangeConfig(({ workspaceFolder, result }) => {
+      if (result.error) {
+        vscode.window.showWarningMessage(
+          `HTFlow: .htflowrc.json in ${workspaceFolder.name} could not be read, using defaults: ${result.error}`
+        );
+      } else if (result.warnings.length > 0) {
+        vscode.window.showWarningMessage(
+          `HTFlow: Some settings in ${workspaceFolder.name}'s .htflowrc.json were ignored: ` +
+            result.warnings.join("; ")
+        );
+      }
+    })
+  );
+
+  // Issues accepted in .htflow-baseline.json are left out of audits and
+  // diagnostics
+  const baseline = new HTFlowBaselineManager();
+
+  // HTFlow entries in the Problems view, from audits and from
+  // validate-on-save/type
+  const diagnostics = new HTFlowDiagnostics(baseline);
+  context.subscriptions.push(
+    baseline,
+    diagnostics,
+    new HTFlowDocumentValidator(configManager, diagnostics),
+    // Quick fixes and "Copy AI prompt" for HTFlow diagnostics
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: "file" },
+      new HTFlowCodeActionProvider(diagnostics, configManager),
+      {
+        providedCodeActionKinds:
+          HTFlowCodeActionProvider.providedCodeActionKinds,
+      }
+    ),
+    vscode.commands.registerCommand(
+      COPY_AI_PROMPT_COMMAND,
+      async (prompt: string) => {
+        await vscode.env.clipboard.writeText(prompt);
+        vscode.window.showInformationMessage(
+          "HTFlow: AI prompt copied to the clipboard"
+        );
+      }
+    )
+  );
+
   // Create and register the sidebar provider
-  sidebarProvider = new HTFlowSidebarProvider(context.extensionUri);
+  sidebarProvider = new HTFlowSidebarProvider(
+    context.extensionUri,
+    context.workspaceState,
+    configManager,
+    diagnostics,
+    new HTFlowAuditHistory(context.storageUri),
+    baseline
+  );
+
+  // Tree of the active project's last audit, and the baseline burn-down
+  const issuesView = new HTFlowIssuesView();
+  const baselineView = new HTFlowBaselineView(baseline);
+  issuesView.setAudit(sidebarProvider.activeAudit);
+  baselineView.setProject(
+    sidebarProvider.activeWorkspaceFolder,
+    sidebarProvider.activeAudit
+  );
+  context.subscriptions.push(
+    issuesView,
+    baselineView,
+    sidebarProvider.onDidChangeActiveAudit(() => {
+      issuesView.setAudit(sidebarProvider.activeAudit);
+      baselineView.setProject(
+        sidebarProvider.activeWorkspaceFolder,
+        sidebarProvider.activeAudit
+      );
+    }),
+    vscode.commands.registerCommand("htflow.filterIssues", () =>
+      issuesView.pickSeverities()
+    ),
+    // SARIF, JSON, Markdown or HTML file of the active project's last audit
+    vscode.commands.registerCommand(
+      "htflow.exportAuditReport",
+      (format?: ExportFormat) =>
+        exportAuditReport(sidebarProvider.activeAudit, format)
+    ),
+    vscode.commands.registerCommand("htflow.createBaseline", () =>
+      baselineView.createBaseline()
+    ),
+    vscode.commands.registerCommand("htflow.pruneBaseline", () =>
+      baselineView.pruneBaseline()
+    )
+  );
 
   // Initialize minimap decorations
   rocketDecorationType = createRocketDecoration(context);
@@ -250,17 +371,14 @@ export function activate(context: vscode.ExtensionContext) {
           currentPanel.webview
         );
 
-        // Attach unified message handler so CLI buttons work in this panel too
-        sidebarProvider.attachMessageHandler(currentPanel.webview);
-
-        // Set the current panel reference for audit results
-        sidebarProvider.currentPanel = currentPanel;
+        // Register with the provider so this panel receives every
+        // broadcast and its messages use the shared message protocol
+        sidebarProvider.registerWebview(currentPanel);
 
         // Reset when the panel is closed
         currentPanel.onDidDispose(
           () => {
             currentPanel = undefined;
-            sidebarProvider.currentPanel = undefined;
           },
           undefined,
           context.subscriptions
@@ -347,6 +465,57 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Register the HTFlow CLI actions as commands. From the explorer they
+  // receive the folder or file that was right-clicked; from the Command
+  // Palette or a keybinding they run on the workspace root.
+  const cliCommands: [string, CliAction][] = [
+    ["htflow.init", "init"],
+    ["htflow.validate", "validate"],
+    ["htflow.audit", "audit"],
+    ["htflow.auditHtml", "audit --html"],
+    ["htflow.build", "build"],
+    ["htflow.serveDev", "serveDev"],
+    ["htflow.serveProd", "serveProd"],
+    ["htflow.mcpInstall", "mcp-install"],
+    ["htflow.mcpUninstall", "mcp-uninstall"],
+    ["htflow.mcpStatus", "mcp-status"],
+    ["htflow.version", "version"],
+  ];
+  const cliCommandRegistrations = cliCommands.map(([command, action]) =>
+    vscode.commands.registerCommand(command, (uri?: vscode.Uri) =>
+      sidebarProvider.runCliAction(action, uri)
+    )
+  );
+
+  // Convert the active file or selection, previewed as a diff first
+  const editPreview = new HTFlowEditPreview();
+  const convertCommands = [
+    vscode.commands.registerCommand("htflow.convertToHTFlow", () =>
+      convertToHTFlow(editPreview, configManager)
+    ),
+    vscode.commands.registerCommand("htflow.convertTailwind", () =>
+      convertTailwindToCss(editPreview, configManager)
+    ),
+    vscode.commands.registerCommand("htflow.convertReact", (uri?: vscode.Uri) =>
+      convertReactToHTFlow(uri)
+    ),
+    vscode.commands.registerCommand("htflow.optimizeCss", () =>
+      optimizeCssFile(editPreview, configManager)
+    ),
+  ];
+
+  // Choose which workspace folder the panel acts on (multi-root workspaces)
+  const selectProjectCommand = vscode.commands.registerCommand(
+    "htflow.selectProject",
+    () => sidebarProvider.pickProject()
+  );
+
+  // `htflow` tasks for tasks.json, Run Build Task and preLaunchTask
+  const taskProviderRegistration = vscode.tasks.registerTaskProvider(
+    HTFlowTaskProvider.type,
+    new HTFlowTaskProvider()
+  );
+
   // Set up event listeners for decoration updates
   const activeEditorChangeListener = vscode.window.onDidChangeActiveTextEditor(
     () => {
@@ -377,6 +546,11 @@ export function activate(context: vscode.ExtensionContext) {
     togglePanelCommand,
     toggleMinimapCommand,
     activateIconThemeCommand,
+    ...cliCommandRegistrations,
+    editPreview,
+    ...convertCommands,
+    selectProjectCommand,
+    taskProviderRegistration,
     activeEditorChangeListener,
     textDocumentChangeListener,
     rocketDecorationType
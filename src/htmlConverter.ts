@@ -0,0 +1,598 @@
+import render from "dom-serializer";
+import { ChildNode, Comment, Document, Element, Text } from "domhandler";
+import { DomUtils, parseDocument } from "htmlparser2";
+import { expandShorthand } from "./offlineValidator";
+
+// Rewrites plain HTML into markup that follows the HTFlow rules: page
+// content in an htflow-wrapper, a class on every styled element, inline
+// styles moved into a <style data-ht-styles> block as longhand properties,
+// and basic accessibility attributes. Works on whole pages and on snippets
+// (an editor selection); page-only steps are skipped for snippets.
+//
+// Kept free of the vscode API so the webview converter and the editor
+// commands share it.
+
+export type ConvertOptions = {
+  wrapper?: boolean;
+  // Class of the page wrapper, `validation.htmlWrapper` in .htflowrc.json
+  wrapperClass?: string;
+  uniqueClasses?: boolean;
+  inlineStyles?: boolean;
+  semanticHints?: boolean;
+  accessibility?: boolean;
+};
+
+export type ConvertResult = {
+  html: string;
+  // What was changed, e.g. "Added 3 classes"; empty when nothing was
+  changes: string[];
+};
+
+// Elements that get a class when they have none, so they can be styled in
+// Webflow
+const ELEMENTS_TO_CLASS = [
+  "div",
+  "span",
+  "p",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "nav",
+  "main",
+];
+
+// Whitespace inside these is content, so it is never reindented
+const PRESERVED_ELEMENTS = ["pre", "textarea", "script", "style"];
+
+// Landmarks a page should have, suggested in a comment at the start or end
+// of its content when missing
+const SEMANTIC_HINTS = [
+  {
+    element: "header",
+    atEnd: false,
+    text: 'Consider adding <header class="site_header"> for your page header',
+  },
+  {
+    element: "main",
+    atEnd: false,
+    text: 'Consider wrapping main content in <main class="main_content">',
+  },
+  {
+    element: "footer",
+    atEnd: true,
+    text: 'Consider adding <footer class="site_footer"> for your page footer',
+  },
+];
+
+// Form controls that need an id for a <label for="">
+const LABELLED_INPUTS = ["input", "select", "textarea"];
+const UNLABELLED_INPUT_TYPES = ["hidden", "submit", "reset", "button", "image"];
+
+const DEFAULT_WRAPPER_CLASS = "htflow-wrapper";
+
+const PARSER_OPTIONS = {
+  // Entities and attribute names are written back as they were
+  decodeEntities: false,
+  lowerCaseAttributeNames: false,
+};
+
+// Options for a project's `validation.htmlWrapper`: the wrapper class, or
+// false when pages need no wrapper
+export function wrapperOptions(htmlWrapper: string | false): ConvertOptions {
+  return htmlWrapper ? { wrapperClass: htmlWrapper } : { wrapper: false };
+}
+
+export function convertHtml(
+  html: string,
+  options: ConvertOptions = {}
+): ConvertResult {
+  const document = parseHtml(html);
+  const indent = detectIndent(html);
+  const changes: string[] = [];
+  const wrapperClass = options.wrapperClass ?? DEFAULT_WRAPPER_CLASS;
+
+  if (options.wrapper !== false && wrapBody(document, indent, wrapperClass)) {
+    changes.push(`Wrapped the page content in ${wrapperClass}`);
+  }
+  if (options.uniqueClasses !== false) {
+    const count = addUniqueClasses(document);
+    if (count > 0) {
+      changes.push(`Added ${plural(count, "class", "classes")}`);
+    }
+  }
+  if (options.inlineStyles !== false) {
+    const count = replaceInlineStyles(document, indent);
+    if (count > 0) {
+      changes.push(
+        `Moved ${plural(count, "inline style")} into <style data-ht-styles>`
+      );
+    }
+    const marked = markStyleBlocks(document);
+    if (marked > 0) {
+      changes.push(
+        `Added data-ht-styles to ${plural(marked, "<style> block")}`
+      );
+    }
+  }
+  if (options.semanticHints !== false) {
+    const count = addSemanticHints(document, indent, wrapperClass);
+    if (count > 0) {
+      changes.push(`Added ${plural(count, "semantic structure hint")}`);
+    }
+  }
+  if (options.accessibility !== false) {
+    const count = addAccessibilityAttributes(document);
+    if (count > 0) {
+      changes.push(`Added ${plural(count, "accessibility attribute")}`);
+    }
+  }
+
+  return {
+    html: changes.length > 0 ? serializeHtml(document) : html,
+    changes,
+  };
+}
+
+// Move the contents of <body> into <div class="htflow-wrapper">. Scripts at
+// the end of the body stay outside it. Returns false for snippets and pages
+// that already have a wrapper.
+export function wrapBody(
+  document: Document,
+  indent: string = "  ",
+  wrapperClass: string = DEFAULT_WRAPPER_CLASS
+): boolean {
+  const body = findElement(document, "body");
+  if (
+    !body ||
+    DomUtils.findOne((element) => hasClass(element, wrapperClass), [body])
+  ) {
+    return false;
+  }
+
+  const children = body.children;
+  const first = children.findIndex((node) => !isBlank(node));
+  let last = children.length - 1;
+  while (
+    last >= first &&
+    (isBlank(children[last]) || isScript(children[last]))
+  ) {
+    last--;
+  }
+
+  const wrapper = new Element("div", { class: wrapperClass });
+  if (first === -1 || last < first) {
+    DomUtils.appendChild(body, wrapper);
+    return true;
+  }
+
+  const content = children.slice(first, last + 1);
+  const outer = lineIndent(content[0]);
+  DomUtils.prepend(content[0], wrapper);
+  DomUtils.appendChild(wrapper, new Text(`\n${outer}${indent}`));
+  for (const node of content) {
+    reindent(node, indent);
+    DomUtils.appendChild(wrapper, node);
+  }
+  DomUtils.appendChild(wrapper, new Text(`\n${outer}`));
+  return true;
+}
+
+// Give classless elements a class named after their tag, e.g. section_2.
+// Returns how many classes were added.
+export function addUniqueClasses(document: Document): number {
+  const used = collectClasses(document);
+  const counters = new Map<string, number>();
+  let added = 0;
+
+  for (const element of DomUtils.findAll(
+    (element) =>
+      ELEMENTS_TO_CLASS.includes(element.name) &&
+      !element.attribs.class?.trim(),
+    document.children
+  )) {
+    let className: string;
+    do {
+      const count = (counters.get(element.name) ?? 0) + 1;
+      counters.set(element.name, count);
+      className = `${element.name}_${count}`;
+    } while (used.has(className));
+
+    used.add(className);
+    element.attribs.class = className;
+    added++;
+  }
+  return added;
+}
+
+// Replace style="" attributes with a class and a rule in the page's
+// <style data-ht-styles> block, created in <head> (or at the top of a
+// snippet) when there is none. Returns how many attributes were replaced.
+export function replaceInlineStyles(
+  document: Document,
+  indent: string = "  "
+): number {
+  const { rules, replaced } = extractInlineStyles(document, indent);
+  if (rules.length > 0) {
+    appendStyles(document, rules, indent);
+  }
+  return replaced;
+}
+
+// Remove the style="" attributes and return a rule per element, under a
+// class only that element has. Box shorthands are written as longhands.
+export function extractInlineStyles(
+  document: Document,
+  indent: string = "  "
+): { rules: string[]; replaced: number } {
+  const styled = DomUtils.findAll(
+    (element) => element.attribs.style !== undefined,
+    document.children
+  );
+  if (styled.length === 0) {
+    return { rules: [], replaced: 0 };
+  }
+
+  const used = collectClasses(document);
+  const classCounts = countClasses(document);
+  const rules: string[] = [];
+  let counter = 0;
+
+  for (const element of styled) {
+    const declarations = parseDeclarations(element.attribs.style);
+    delete element.attribs.style;
+    if (declarations.length === 0) {
+      continue;
+    }
+
+    // A class only this element has can carry the rule itself
+    const classes = splitClasses(element.attribs.class);
+    let className = classes.find((name) => classCounts.get(name) === 1);
+    if (!className) {
+      do {
+        className = `styled_element_${++counter}`;
+      } while (used.has(className));
+      used.add(className);
+      element.attribs.class = [...classes, className].join(" ");
+    }
+
+    rules.push(
+      [
+        `.${className} {`,
+        ...declarations.map((declaration) => `${indent}${declaration};`),
+        "}",
+      ].join("\n")
+    );
+  }
+  return { rules, replaced: styled.length };
+}
+
+// HTFlow only imports <style> blocks marked with data-ht-styles. Returns how
+// many blocks were marked.
+export function markStyleBlocks(document: Document): number {
+  const blocks = DomUtils.findAll(
+    (element) =>
+      element.name === "style" &&
+      element.attribs["data-ht-styles"] === undefined,
+    document.children
+  );
+  blocks.forEach((element) => {
+    element.attribs["data-ht-styles"] = "";
+  });
+  return blocks.length;
+}
+
+// Comments suggesting <header>, <main> and <footer> elements a page lacks,
+// at the start and end of its content. Snippets get none. Returns how many
+// were added.
+export function addSemanticHints(
+  document: Document,
+  indent: string = "  ",
+  wrapperClass: string = DEFAULT_WRAPPER_CLASS
+): number {
+  const body = findElement(document, "body");
+  if (!body) {
+    return 0;
+  }
+
+  const container =
+    DomUtils.findOne(
+      (element) => hasClass(element, wrapperClass),
+      body.children
+    ) ?? body;
+  // Hints from an earlier conversion are not added again
+  const comments = new Set(
+    DomUtils.filter((node) => node instanceof Comment, body).map((node) =>
+      (node as Comment).data.trim()
+    )
+  );
+  const missing = SEMANTIC_HINTS.filter(
+    (hint) => !findElement(body, hint.element) && !comments.has(hint.text)
+  );
+  const start = missing.filter((hint) => !hint.atEnd).map((hint) => hint.text);
+  const end = missing.find((hint) => hint.atEnd)?.text;
+
+  const hints = [...start, ...(end ? [end] : [])];
+  const content = container.children.filter((node) => !isBlank(node));
+  if (content.length === 0) {
+    const inner = `${lineIndent(container)}${indent}`;
+    for (const hint of hints) {
+      DomUtils.appendChild(container, new Text(`\n${inner}`));
+      DomUtils.appendChild(container, new Comment(` ${hint} `));
+    }
+    DomUtils.appendChild(container, new Text(`\n${lineIndent(container)}`));
+    return hints.length;
+  }
+
+  const first = content[0];
+  const last = content[content.length - 1];
+  const inner = lineIndent(first) || `${lineIndent(container)}${indent}`;
+  for (const hint of start) {
+    DomUtils.prepend(first, new Comment(` ${hint} `));
+    DomUtils.prepend(first, new Text(`\n${inner}`));
+  }
+  if (end) {
+    DomUtils.append(last, new Comment(` ${end} `));
+    DomUtils.append(last, new Text(`\n${inner}`));
+  }
+  return start.length + (end ? 1 : 0);
+}
+
+// Alt text placeholders for images and ids for form controls, so a label can
+// point at them. Returns how many attributes were added.
+export function addAccessibilityAttributes(document: Document): number {
+  const ids = new Set(
+    DomUtils.findAll((element) => !!element.attribs.id, document.children).map(
+      (element) => element.attribs.id
+    )
+  );
+  let added = 0;
+
+  for (const element of DomUtils.findAll(
+    (element) => element.name === "img" && element.attribs.alt === undefined,
+    document.children
+  )) {
+    element.attribs.alt = "Image description needed";
+    added++;
+  }
+
+  for (const element of DomUtils.findAll(
+    (element) =>
+      LABELLED_INPUTS.includes(element.name) &&
+      !element.attribs.id &&
+      !UNLABELLED_INPUT_TYPES.includes(
+        (element.attribs.type ?? "").toLowerCase()
+      ) &&
+      !isInsideLabel(element),
+    document.children
+  )) {
+    const base = `${toIdentifier(element.attribs.name) || element.name}_field`;
+    let id = base;
+    for (let count = 2; ids.has(id); count++) {
+      id = `${base}_${count}`;
+    }
+    ids.add(id);
+    element.attribs.id = id;
+    added++;
+  }
+  return added;
+}
+
+export function parseHtml(html: string): Document {
+  return parseDocument(html, PARSER_OPTIONS);
+}
+
+export function serializeHtml(document: Document): string {
+  return render(document, { decodeEntities: false });
+}
+
+// Unit of indentation used by the source, for the markup the converter adds
+export function detectIndent(html: string): string {
+  return /\n\t+</.test(html) ? "\t" : "  ";
+}
+
+// Whitespace before the node on its line, when it starts a line
+function lineIndent(node: ChildNode | Element): string {
+  const previous = node.prev;
+  if (previous instanceof Text) {
+    return previous.data.match(/\n([ \t]*)$/)?.[1] ?? "";
+  }
+  return "";
+}
+
+// Indent every line break inside the node by one level
+function reindent(node: ChildNode, indent: string) {
+  if (node instanceof Text) {
+    node.data = node.data.replace(/\n/g, `\n${indent}`);
+  } else if (
+    node instanceof Element &&
+    !PRESERVED_ELEMENTS.includes(node.name)
+  ) {
+    node.children.forEach((child) => reindent(child, indent));
+  }
+}
+
+// Add CSS rules to the first <style data-ht-styles> block, or to a new one
+// in <head> (at the top of a snippet)
+export function appendStyles(
+  document: Document,
+  rules: string[],
+  indent: string
+) {
+  const css = rules.join("\n\n");
+  const existing = DomUtils.findOne(
+    (element) =>
+      element.name === "style" &&
+      element.attribs["data-ht-styles"] !== undefined,
+    document.children
+  );
+
+  if (existing) {
+    const blockIndent = lineIndent(existing);
+    const text = existing.children.find(
+      (child): child is Text => child instanceof Text
+    );
+    const content = (text?.data ?? "").replace(/\s*$/, "");
+    const added = indentLines(css, `${blockIndent}${indent}`);
+    const data = `${content}${content ? "\n\n" : "\n"}${added}\n${blockIndent}`;
+    if (text) {
+      text.data = data;
+    } else {
+      DomUtils.appendChild(existing, new Text(data));
+    }
+    return;
+  }
+
+  const head = findElement(document, "head");
+  const blockIndent = head
+    ? `${lineIndent(head)}${indent}`
+    : lineIndent(document.children[0]);
+  const style = new Element("style", { "data-ht-styles": "" }, [
+    new Text(
+      `\n${indentLines(css, `${blockIndent}${indent}`)}\n${blockIndent}`
+    ),
+  ]);
+
+  if (head) {
+    const last = head.children[head.children.length - 1];
+    if (last && isBlank(last)) {
+      DomUtils.prepend(last, style);
+      DomUtils.prepend(style, new Text(`\n${blockIndent}`));
+    } else {
+      DomUtils.appendChild(head, new Text(`\n${blockIndent}`));
+      DomUtils.appendChild(head, style);
+      DomUtils.appendChild(head, new Text(`\n${lineIndent(head)}`));
+    }
+  } else if (document.children.length > 0) {
+    const first = document.children[0];
+    DomUtils.prepend(first, style);
+    DomUtils.prepend(first, new Text(`\n${blockIndent}`));
+  } else {
+    DomUtils.appendChild(document, style);
+  }
+}
+
+function indentLines(text: string, indent: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${indent}${line}` : line))
+    .join("\n");
+}
+
+// "margin: 0 auto; color: red" -> longhand declarations without the `;`
+function parseDeclarations(style: string): string[] {
+  const declarations: string[] = [];
+  for (const part of splitDeclarations(decodeAttribute(style))) {
+    const match = part.match(/^\s*([a-zA-Z-]+)\s*:\s*([\s\S]*?)\s*$/);
+    if (!match || !match[2]) {
+      continue;
+    }
+    const property = match[1].toLowerCase();
+    declarations.push(
+      ...(expandShorthand(property, match[2]) ?? [`${property}: ${match[2]}`])
+    );
+  }
+  return declarations;
+}
+
+// Split on `;` outside of quotes and parentheses, e.g. in url(data:...)
+function splitDeclarations(style: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quote = "";
+
+  for (const char of style) {
+    if (quote) {
+      quote = char === quote ? "" : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ";" && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Attribute values are kept encoded; CSS in a <style> block is not
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&(#39|apos);/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function findElement(parent: Document | Element, name: string): Element | null {
+  return DomUtils.findOne((element) => element.name === name, parent.children);
+}
+
+function hasClass(element: Element, className: string): boolean {
+  return splitClasses(element.attribs.class).includes(className);
+}
+
+export function splitClasses(value: string | undefined): string[] {
+  return (value ?? "").split(/\s+/).filter(Boolean);
+}
+
+export function collectClasses(document: Document): Set<string> {
+  return new Set(countClasses(document).keys());
+}
+
+function countClasses(document: Document): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const element of DomUtils.findAll(
+    (element) => !!element.attribs.class,
+    document.children
+  )) {
+    for (const name of splitClasses(element.attribs.class)) {
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function isBlank(node: ChildNode): boolean {
+  return node instanceof Text && node.data.trim() === "";
+}
+
+function isScript(node: ChildNode): boolean {
+  return node instanceof Element && node.name === "script";
+}
+
+function isInsideLabel(element: Element): boolean {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (parent instanceof Element && parent.name === "label") {
+      return true;
+    }
+  }
+  return false;
+}
+
+// "user[email]" -> "user_email"
+function toIdentifier(value: string | undefined): string {
+  return (value ?? "").replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+export function plural(
+  count: number,
+  singular: string,
+  pluralForm?: string
+): string {
+  return `${count} ${count === 1 ? singular : pluralForm ?? `${singular}s`}`;
+}
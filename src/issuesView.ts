@@ -0,0 +1,346 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AuditIssue, AuditIssueType } from "./auditReport";
+import { resolveIssuePath } from "./diagnostics";
+import { ActiveAudit } from "./sidebarProvider";
+
+export const ISSUES_VIEW_ID = "htflow.issues";
+
+const SEVERITIES: AuditIssueType[] = ["error", "warning", "info"];
+
+const SEVERITY_LABELS: Record<AuditIssueType, string> = {
+  error: "Errors",
+  warning: "Warnings",
+  info: "Info",
+};
+
+// Rules with more occurrences than this start collapsed
+const EXPANDED_RULE_LIMIT = 10;
+
+type FileNode = {
+  kind: "file";
+  // Absolute path, unless the issues have no file
+  filePath?: string;
+  children: RuleNode[];
+  count: number;
+};
+
+type RuleNode = {
+  kind: "rule";
+  rule: string;
+  children: OccurrenceNode[];
+};
+
+type OccurrenceNode = {
+  kind: "occurrence";
+  filePath?: string;
+  issue: AuditIssue;
+};
+
+type IssueNode = FileNode | RuleNode | OccurrenceNode;
+
+// "Audit Issues" view: the active project's last audit grouped by file, then
+// rule, then occurrence. Clicking an occurrence opens its line.
+export class HTFlowIssuesView
+  implements vscode.TreeDataProvider<IssueNode>, vscode.Disposable
+{
+  private _audit?: ActiveAudit;
+  private _files: FileNode[] = [];
+  // Severities currently shown
+  private _severities: Set<AuditIssueType> = new Set(SEVERITIES);
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  private _view: vscode.TreeView<IssueNode>;
+
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor() {
+    this._view = vscode.window.createTreeView(ISSUES_VIEW_ID, {
+      treeDataProvider: this,
+      showCollapseAll: true,
+    });
+  }
+
+  public setAudit(audit: ActiveAudit | undefined) {
+    this._audit = audit;
+    vscode.commands.executeCommand("setContext", "htflow.hasAudit", !!audit);
+    this.refresh();
+  }
+
+  // Let the user pick which severities are listed
+  public async pickSeverities() {
+    const picked = await vscode.window.showQuickPick(
+      SEVERITIES.map((severity) => ({
+        label: SEVERITY_LABELS[severity],
+        picked: this._severities.has(severity),
+        severity,
+      })),
+      { canPickMany: true, placeHolder: "Show issues with these severities" }
+    );
+    if (!picked) {
+      return;
+    }
+
+    // Picking nothing shows everything rather than an empty tree
+    this._severities = new Set(
+      picked.length > 0 ? picked.map((item) => item.severity) : SEVERITIES
+    );
+    this.refresh();
+  }
+
+  public getTreeItem(node: IssueNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "file":
+        return this.getFileItem(node);
+      case "rule":
+        return this.getRuleItem(node);
+      case "occurrence":
+        return this.getOccurrenceItem(node);
+    }
+  }
+
+  public getChildren(node?: IssueNode): IssueNode[] {
+    if (!node) {
+      return this._files;
+    }
+    return node.kind === "occurrence" ? [] : node.children;
+  }
+
+  public dispose() {
+    this._view.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+
+  private refresh() {
+    const issues = (this._audit?.report.issues ?? []).filter((issue) =>
+      this._severities.has(issue.type)
+    );
+    this._files = this.groupIssues(issues);
+    this._onDidChangeTreeData.fire();
+
+    const filtered = this._severities.size < SEVERITIES.length;
+    const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    this._view.description =
+      [
+        multiRoot ? this._audit?.workspaceFolder.name : undefined,
+        filtered
+          ? SEVERITIES.filter((severity) => this._severities.has(severity))
+              .map((severity) => SEVERITY_LABELS[severity])
+              .join(", ")
+          : undefined,
+      ]
+        .filter(Boolean)
+        .join(" · ") || undefined;
+
+    this._view.badge =
+      issues.length > 0
+        ? {
+            value: issues.length,
+            tooltip: `${issues.length} HTFlow issue${
+              issues.length === 1 ? "" : "s"
+            }`,
+          }
+        : undefined;
+
+    if (!this._audit) {
+      this._view.message = undefined;
+    } else if (this._audit.report.issues.length === 0) {
+      this._view.message = "No issues found in the last audit.";
+    } else if (issues.length === 0) {
+      this._view.message = "No issues match the severity filter.";
+    } else {
+      this._view.message = undefined;
+    }
+  }
+
+  private groupIssues(issues: AuditIssue[]): FileNode[] {
+    const audit = this._audit;
+    if (!audit) {
+      return [];
+    }
+
+    const files = new Map<string, FileNode>();
+    for (const issue of issues) {
+      const filePath = resolveIssuePath(
+        issue,
+        audit.workspaceFolder,
+        audit.folder
+      );
+      const fileKey = filePath ?? "";
+      let file = files.get(fileKey);
+      if (!file) {
+        file = { kind: "file", filePath, children: [], count: 0 };
+        files.set(fileKey, file);
+      }
+
+      const ruleId = issue.rule ?? issue.title;
+      let rule = file.children.find((candidate) => candidate.rule === ruleId);
+      if (!rule) {
+        rule = { kind: "rule", rule: ruleId, children: [] };
+        file.children.push(rule);
+      }
+
+      rule.children.push({ kind: "occurrence", filePath, issue });
+      file.count++;
+    }
+
+    // Worst files first, then by path
+    const sorted = Array.from(files.values()).sort(
+      (a, b) =>
+        severityRank(worstSeverity(a)) - severityRank(worstSeverity(b)) ||
+        (a.filePath ?? "").localeCompare(b.filePath ?? "")
+    );
+    for (const file of sorted) {
+      file.children.sort(
+        (a, b) =>
+          severityRank(worstSeverity(a)) - severityRank(worstSeverity(b)) ||
+          a.rule.localeCompare(b.rule)
+      );
+      for (const rule of file.children) {
+        rule.children.sort(
+          (a, b) =>
+            (a.issue.line ?? 0) - (b.issue.line ?? 0) ||
+            (a.issue.column ?? 0) - (b.issue.column ?? 0)
+        );
+      }
+    }
+    return sorted;
+  }
+
+  private getFileItem(node: FileNode): vscode.TreeItem {
+    if (!node.filePath) {
+      const item = new vscode.TreeItem(
+        "Project",
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.description = `${node.count}`;
+      item.tooltip = "Issues that are not tied to a file";
+      item.iconPath = new vscode.ThemeIcon("project");
+      return item;
+    }
+
+    const uri = vscode.Uri.file(node.filePath);
+    const item = new vscode.TreeItem(
+      uri,
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    const relativeDir = path.dirname(
+      vscode.workspace.asRelativePath(uri, false)
+    );
+    item.description = [
+      `${node.count}`,
+      relativeDir !== "." ? relativeDir : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    item.tooltip = `${node.filePath}\n${describeCounts(node)}`;
+    item.contextValue = "htflowIssueFile";
+    return item;
+  }
+
+  private getRuleItem(node: RuleNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      node.rule,
+      node.children.length > EXPANDED_RULE_LIMIT
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.description = `${node.children.length}`;
+    item.tooltip = describeCounts(node);
+    item.iconPath = severityIcon(worstSeverity(node));
+    item.contextValue = "htflowIssueRule";
+    return item;
+  }
+
+  private getOccurrenceItem(node: OccurrenceNode): vscode.TreeItem {
+    const { issue } = node;
+    const item = new vscode.TreeItem(
+      issue.title,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.iconPath = severityIcon(issue.type);
+    item.contextValue = "htflowIssue";
+    if (issue.line) {
+      item.description = issue.column
+        ? `Ln ${issue.line}, Col ${issue.column}`
+        : `Ln ${issue.line}`;
+    }
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${issue.title}**`);
+    if (issue.description) {
+      tooltip.appendMarkdown(`\n\n${issue.description}`);
+    }
+    if (issue.fix) {
+      tooltip.appendMarkdown(`\n\n💡 Fix: ${issue.fix}`);
+    }
+    if (issue.code.trim()) {
+      tooltip.appendCodeblock(issue.code.trim());
+    }
+    item.tooltip = tooltip;
+
+    if (node.filePath) {
+      const line = Math.max(0, (issue.line ?? 1) - 1);
+      const column = Math.max(0, (issue.column ?? 1) - 1);
+      item.command = {
+        command: "vscode.open",
+        title: "Open Issue",
+        arguments: [
+          vscode.Uri.file(node.filePath),
+          { selection: new vscode.Range(line, column, line, column) },
+        ],
+      };
+    }
+    return item;
+  }
+}
+
+function occurrencesOf(node: FileNode | RuleNode): AuditIssue[] {
+  return node.kind === "rule"
+    ? node.children.map((child) => child.issue)
+    : node.children.flatMap(occurrencesOf);
+}
+
+function worstSeverity(node: FileNode | RuleNode): AuditIssueType {
+  const types = occurrencesOf(node).map((issue) => issue.type);
+  return SEVERITIES.find((severity) => types.includes(severity)) ?? "info";
+}
+
+function severityRank(severity: AuditIssueType): number {
+  return SEVERITIES.indexOf(severity);
+}
+
+// "2 errors, 1 warning"
+function describeCounts(node: FileNode | RuleNode): string {
+  const issues = occurrencesOf(node);
+  return SEVERITIES.map((severity) => {
+    const count = issues.filter((issue) => issue.type === severity).length;
+    if (count === 0) {
+      return undefined;
+    }
+    const label =
+      severity === "info" ? "info" : `${severity}${count === 1 ? "" : "s"}`;
+    return `${count} ${label}`;
+  })
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function severityIcon(severity: AuditIssueType): vscode.ThemeIcon {
+  switch (severity) {
+    case "error":
+      return new vscode.ThemeIcon(
+        "error",
+        new vscode.ThemeColor("problemsErrorIcon.foreground")
+      );
+    case "warning":
+      return new vscode.ThemeIcon(
+        "warning",
+        new vscode.ThemeColor("problemsWarningIcon.foreground")
+      );
+    default:
+      return new vscode.ThemeIcon(
+        "info",
+        new vscode.ThemeColor("problemsInfoIcon.foreground")
+      );
+  }
+}
@@ -0,0 +1,287 @@
+import * as vscode from "vscode";
+import { ProcessResult, RunningProcess } from "./processRunner";
+
+export type JobState =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled"
+  | "timedOut";
+
+export type JobInfo = {
+  id: string;
+  // CLI action, e.g. "build" or "audit"
+  kind: string;
+  title: string;
+  command: string;
+  folder: string;
+  state: JobState;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  exitCode?: number;
+  duration?: number;
+};
+
+export type JobRequest = {
+  kind: string;
+  title: string;
+  command: string;
+  folder: string;
+  // Starts the process once the job reaches the front of its queue
+  start: () => RunningProcess;
+  timeoutMs?: number;
+};
+
+export type JobOutcome = {
+  job: JobInfo;
+  result?: ProcessResult;
+  // Set for a repeated request folded into an already queued job. The
+  // request that queued the job handles the result; this caller should not.
+  coalesced?: boolean;
+};
+
+// Per-command timeouts in milliseconds. Long-running servers are not jobs.
+const JOB_TIMEOUTS: Record<string, number> = {
+  build: 10 * 60 * 1000,
+  audit: 5 * 60 * 1000,
+  "audit --html": 5 * 60 * 1000,
+  validate: 5 * 60 * 1000,
+  init: 2 * 60 * 1000,
+  version: 60 * 1000,
+  "mcp-install": 2 * 60 * 1000,
+  "mcp-uninstall": 2 * 60 * 1000,
+  "mcp-status": 60 * 1000,
+};
+const DEFAULT_JOB_TIMEOUT = 5 * 60 * 1000;
+
+export function getJobTimeout(kind: string): number {
+  return JOB_TIMEOUTS[kind] ?? DEFAULT_JOB_TIMEOUT;
+}
+
+type JobEntry = {
+  info: JobInfo;
+  request: JobRequest;
+  promise: Promise<JobOutcome>;
+  resolve: (outcome: JobOutcome) => void;
+  process?: RunningProcess;
+  cancelRequested: boolean;
+  timedOut: boolean;
+};
+
+// Runs CLI jobs with a progress notification and Cancel button. Jobs of the
+// same kind in the same folder run one after another, and repeated requests
+// while one is already waiting are folded into the waiting job (their
+// outcome is marked as coalesced).
+export class HTFlowJobManager implements vscode.Disposable {
+  private _jobs: Map<string, JobEntry> = new Map();
+  private _queues: Map<string, JobEntry[]> = new Map();
+  private _onDidChangeJob = new vscode.EventEmitter<JobInfo>();
+  private _nextId = 1;
+
+  public readonly onDidChangeJob = this._onDidChangeJob.event;
+
+  get jobs(): JobInfo[] {
+    return Array.from(this._jobs.values()).map((entry) => entry.info);
+  }
+
+  public run(request: JobRequest): Promise<JobOutcome> {
+    const queueKey = `${request.folder}::${request.kind}`;
+    const queue = this._queues.get(queueKey) ?? [];
+
+    const waiting = queue.find((entry) => entry.info.state === "queued");
+    if (waiting) {
+      console.log(`HTFlow: ${request.title} is already queued`);
+      vscode.window.showInformationMessage(
+        `${request.title} is already queued and will run next.`
+      );
+      return waiting.promise.then((outcome) => ({
+        ...outcome,
+        coalesced: true,
+      }));
+    }
+
+    const entry = this.createEntry(request);
+    queue.push(entry);
+    this._queues.set(queueKey, queue);
+    this._jobs.set(entry.info.id, entry);
+    this._onDidChangeJob.fire(entry.info);
+
+    this.showProgress(entry);
+
+    if (queue.length === 1) {
+      this.start(entry, queueKey);
+    } else {
+      console.log(`HTFlow: Queued ${request.title} behind a running job`);
+    }
+
+    return entry.promise;
+  }
+
+  public cancel(jobId: string): boolean {
+    const entry = this._jobs.get(jobId);
+    if (!entry) {
+      return false;
+    }
+
+    entry.cancelRequested = true;
+
+    if (entry.info.state === "queued") {
+      const queueKey = `${entry.info.folder}::${entry.info.kind}`;
+      const queue = this._queues.get(queueKey) ?? [];
+      this._queues.set(
+        queueKey,
+        queue.filter((queued) => queued !== entry)
+      );
+      this.complete(entry, "cancelled");
+      return true;
+    }
+
+    if (entry.info.state === "running") {
+      entry.process?.kill();
+      return true;
+    }
+
+    return false;
+  }
+
+  public dispose() {
+    this._jobs.forEach((entry) => {
+      if (entry.info.state === "queued" || entry.info.state === "running") {
+        this.cancel(entry.info.id);
+      }
+    });
+    this._onDidChangeJob.dispose();
+  }
+
+  private createEntry(request: JobRequest): JobEntry {
+    let resolve!: (outcome: JobOutcome) => void;
+    const promise = new Promise<JobOutcome>((res) => {
+      resolve = res;
+    });
+
+    return {
+      info: {
+        id: `job-${this._nextId++}`,
+        kind: request.kind,
+        title: request.title,
+        command: request.command,
+        folder: request.folder,
+        state: "queued",
+        queuedAt: new Date().toISOString(),
+      },
+      request,
+      promise,
+      resolve,
+      cancelRequested: false,
+      timedOut: false,
+    };
+  }
+
+  private start(entry: JobEntry, queueKey: string) {
+    entry.info.state = "running";
+    entry.info.startedAt = new Date().toISOString();
+    this._onDidChangeJob.fire(entry.info);
+
+    const timeoutMs =
+      entry.request.timeoutMs ?? getJobTimeout(entry.request.kind);
+
+    let running: RunningProcess;
+    try {
+      running = entry.request.start();
+    } catch (error) {
+      console.error(`HTFlow: Failed to start ${entry.info.title}:`, error);
+      this.complete(entry, "failed");
+      this.startNext(queueKey);
+      return;
+    }
+    entry.process = running;
+
+    const timer = setTimeout(() => {
+      console.warn(
+        `HTFlow: ${entry.info.title} timed out after ${timeoutMs / 1000}s`
+      );
+      entry.timedOut = true;
+      running.kill();
+    }, timeoutMs);
+
+    running.result.then((result) => {
+      clearTimeout(timer);
+
+      let state: JobState;
+      if (entry.timedOut) {
+        state = "timedOut";
+      } else if (entry.cancelRequested) {
+        state = "cancelled";
+      } else {
+        state = result.success ? "succeeded" : "failed";
+      }
+
+      entry.info.exitCode = result.exitCode;
+      entry.info.duration = result.duration;
+      this.complete(entry, state, result);
+      this.startNext(queueKey);
+    });
+  }
+
+  private startNext(queueKey: string) {
+    const queue = (this._queues.get(queueKey) ?? []).filter(
+      (entry) => entry.info.state === "queued"
+    );
+
+    if (queue.length === 0) {
+      this._queues.delete(queueKey);
+      return;
+    }
+
+    this._queues.set(queueKey, queue);
+    this.start(queue[0], queueKey);
+  }
+
+  private complete(entry: JobEntry, state: JobState, result?: ProcessResult) {
+    entry.info.state = state;
+    entry.info.finishedAt = new Date().toISOString();
+    this._onDidChangeJob.fire(entry.info);
+    this._jobs.delete(entry.info.id);
+
+    if (state === "timedOut") {
+      vscode.window.showErrorMessage(
+        `${entry.info.title} timed out and was stopped.`
+      );
+    }
+
+    entry.resolve({ job: entry.info, result });
+  }
+
+  private showProgress(entry: JobEntry) {
+    vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: entry.info.title,
+        cancellable: true,
+      },
+      (progress, token) => {
+        token.onCancellationRequested(() => {
+          console.log(`HTFlow: Cancel requested for ${entry.info.title}`);
+          this.cancel(entry.info.id);
+        });
+
+        const report = (info: JobInfo) => {
+          if (info.id !== entry.info.id) {
+            return;
+          }
+          if (info.state === "queued") {
+            progress.report({ message: "Waiting for the previous run…" });
+          } else if (info.state === "running") {
+            progress.report({ message: info.command });
+          }
+        };
+
+        report(entry.info);
+        const listener = this.onDidChangeJob(report);
+        return entry.promise.finally(() => listener.dispose());
+      }
+    );
+  }
+}
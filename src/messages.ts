@@ -0,0 +1,299 @@
+import { AuditRunIssue } from "./auditHistory";
+import { AuditReport, AuditReportFormat, AuditSummary } from "./auditReport";
+import { JobInfo, JobState } from "./jobManager";
+
+// Message protocol between the HTFlow webviews (sidebar view and right-side
+// panel) and the extension host. Every message is keyed by `command`.
+
+type PortValue = string | number;
+
+// ----- Webview -> extension -----
+
+export type RequestMessage =
+  | { command: "ready" }
+  | { command: "refreshWorkspace" }
+  | { command: "htflow.init" }
+  | { command: "htflow.validate" }
+  | { command: "htflow.audit"; folder?: string; displayInPanel?: boolean }
+  | { command: "htflow.audit.html" }
+  | { command: "htflow.build" }
+  | { command: "htflow.version" }
+  | { command: "htflow.serve.dev"; folder?: string; port?: PortValue }
+  | { command: "htflow.serve.prod"; folder?: string; port?: PortValue }
+  | { command: "htflow.serve.custom"; port?: PortValue }
+  | { command: "htflow.mcp-install" }
+  | { command: "htflow.mcp-uninstall" }
+  | { command: "htflow.mcp-status" }
+  | { command: "npm.install" }
+  | { command: "npm.update" }
+  | { command: "npm.uninstall" }
+  | { command: "openFile"; path: string }
+  | { command: "validateFile"; path: string }
+  | { command: "toolAction"; tool: string }
+  // HTML from the Conversion tab, answered with convertedHtml
+  | { command: "convertHtml"; html: string }
+  | { command: "settingChange"; setting: string; value: boolean }
+  | { command: "stopServer"; serverId: string; port?: PortValue }
+  | { command: "cancelJob"; jobId: string }
+  // Ids of two runs from auditHistory, older first
+  | { command: "compareAudits"; baseId: string; headId: string }
+  | { command: "clearAuditHistory" }
+  // Workspace folder URI of the project the panel should act on
+  | { command: "selectProject"; folder: string }
+  | { command: "openUrl"; url: string }
+  | { command: "openExternal"; url: string };
+
+export type RequestCommand = RequestMessage["command"];
+
+// ----- Extension -> webview -----
+
+// "starting" until the server's port answers, "failed" if it exits first
+export type ServerStatus = "starting" | "ready" | "failed";
+
+export type ServerInfoPayload = {
+  // Name of the workspace folder the server runs in
+  workspaceFolder: string;
+  port: number;
+  // Set when the requested port was busy and another one was chosen
+  requestedPort?: number;
+  mode: string;
+  folder: string;
+  startTime: string;
+  status: ServerStatus;
+};
+
+export type ProjectPayload = {
+  // Workspace folder URI
+  uri: string;
+  name: string;
+  // Has an .htflowrc.json at its root
+  configured: boolean;
+};
+
+export type CliStatusPayload = {
+  installed: boolean;
+  version: string | null;
+  error?: string;
+};
+
+// An audit run in the history, without its issues
+export type AuditRunPayload = {
+  id: string;
+  timestamp: string;
+  folder?: string;
+  format: AuditReportFormat;
+  summary: AuditSummary;
+};
+
+export type CommandResultPayload = {
+  command: string;
+  source: string;
+  output: string;
+  success: boolean;
+  error: boolean;
+  exitCode: number;
+  duration: number;
+  jobState: JobState;
+};
+
+export type MessageErrorCode =
+  | "invalidMessage"
+  | "unknownCommand"
+  | "invalidField"
+  | "handlerFailed";
+
+export type MessageError = {
+  code: MessageErrorCode;
+  message: string;
+  // Command of the rejected request, when it had one
+  request?: string;
+  field?: string;
+};
+
+export type ResponseMessage =
+  | {
+      command: "serverStarted";
+      serverId: string;
+      serverInfo: ServerInfoPayload;
+    }
+  | {
+      // Port or status changed after serverStarted
+      command: "serverUpdated";
+      serverId: string;
+      serverInfo: ServerInfoPayload;
+    }
+  | { command: "serverFailed"; serverId: string; port: number; error: string }
+  | { command: "serverStopped"; serverId: string; port?: number }
+  | {
+      command: "auditResults";
+      output: string;
+      report?: AuditReport;
+      exitCode?: number;
+      duration?: number;
+    }
+  | { command: "commandResults"; data: CommandResultPayload }
+  // `changes` lists what the converter did, empty when nothing
+  | { command: "convertedHtml"; html: string; changes: string[] }
+  // Audit runs of the active project, oldest first
+  | { command: "auditHistory"; runs: AuditRunPayload[] }
+  | {
+      command: "auditDiff";
+      baseId: string;
+      headId: string;
+      added: AuditRunIssue[];
+      fixed: AuditRunIssue[];
+      unchanged: AuditRunIssue[];
+    }
+  | {
+      command: "commandOutput";
+      data: { source: string; command: string; chunk: string };
+    }
+  | { command: "jobState"; job: JobInfo }
+  | { command: "cliStatus"; data: CliStatusPayload }
+  | { command: "projects"; projects: ProjectPayload[]; active?: string }
+  | { command: "fileChanged"; filePath: string; fileName: string }
+  | { command: "error"; error: MessageError }
+  | {
+      // Full state for a webview that just loaded or switched project.
+      // The audit and CLI status belong to the active project.
+      command: "stateSnapshot";
+      projects: ProjectPayload[];
+      activeProject?: string;
+      servers: { serverId: string; serverInfo: ServerInfoPayload }[];
+      lastAudit?: { output: string; report?: AuditReport };
+      auditHistory: AuditRunPayload[];
+      cliStatus?: CliStatusPayload;
+      jobs: JobInfo[];
+    };
+
+// ----- Validation -----
+
+type FieldType = "string" | "boolean" | "port";
+type FieldSpec = { type: FieldType; required?: boolean };
+
+// Fields each request may carry. Extra fields sent by the webview (such as
+// `type` or the results container ids) are ignored.
+const REQUEST_FIELDS: Record<RequestCommand, Record<string, FieldSpec>> = {
+  ready: {},
+  refreshWorkspace: {},
+  "htflow.init": {},
+  "htflow.validate": {},
+  "htflow.audit": {
+    folder: { type: "string" },
+    displayInPanel: { type: "boolean" },
+  },
+  "htflow.audit.html": {},
+  "htflow.build": {},
+  "htflow.version": {},
+  "htflow.serve.dev": { folder: { type: "string" }, port: { type: "port" } },
+  "htflow.serve.prod": { folder: { type: "string" }, port: { type: "port" } },
+  "htflow.serve.custom": { port: { type: "port" } },
+  "htflow.mcp-install": {},
+  "htflow.mcp-uninstall": {},
+  "htflow.mcp-status": {},
+  "npm.install": {},
+  "npm.update": {},
+  "npm.uninstall": {},
+  openFile: { path: { type: "string", required: true } },
+  validateFile: { path: { type: "string", required: true } },
+  toolAction: { tool: { type: "string", required: true } },
+  convertHtml: { html: { type: "string", required: true } },
+  settingChange: {
+    setting: { type: "string", required: true },
+    value: { type: "boolean", required: true },
+  },
+  stopServer: {
+    serverId: { type: "string", required: true },
+    port: { type: "port" },
+  },
+  cancelJob: { jobId: { type: "string", required: true } },
+  compareAudits: {
+    baseId: { type: "string", required: true },
+    headId: { type: "string", required: true },
+  },
+  clearAuditHistory: {},
+  selectProject: { folder: { type: "string", required: true } },
+  openUrl: { url: { type: "string", required: true } },
+  openExternal: { url: { type: "string", required: true } },
+};
+
+export type ParseResult =
+  | { ok: true; message: RequestMessage }
+  | { ok: false; error: MessageError };
+
+export function parseRequestMessage(raw: unknown): ParseResult {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return fail("invalidMessage", "Message must be an object");
+  }
+
+  const message = raw as Record<string, unknown>;
+  const command = message.command;
+  if (typeof command !== "string" || command === "") {
+    return fail("invalidMessage", "Message is missing a command");
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(REQUEST_FIELDS, command)) {
+    return fail("unknownCommand", `Unknown command: ${command}`, command);
+  }
+
+  // A copy, so optional fields sent as null or "" can be left out
+  const parsed: Record<string, unknown> = { ...message };
+  const fields = REQUEST_FIELDS[command as RequestCommand];
+  for (const [field, spec] of Object.entries(fields)) {
+    const value = message[field];
+    const missing = value === undefined || value === null || value === "";
+
+    if (missing) {
+      if (spec.required) {
+        return fail(
+          "invalidField",
+          `${command} requires "${field}"`,
+          command,
+          field
+        );
+      }
+      delete parsed[field];
+      continue;
+    }
+
+    if (!matchesType(value, spec.type)) {
+      return fail(
+        "invalidField",
+        `${command}: "${field}" must be a ${
+          spec.type === "port" ? "port number" : spec.type
+        }`,
+        command,
+        field
+      );
+    }
+  }
+
+  return { ok: true, message: parsed as unknown as RequestMessage };
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "port": {
+      const port = Number(String(value).trim());
+      return (
+        (typeof value === "number" || typeof value === "string") &&
+        Number.isInteger(port) &&
+        port > 0 &&
+        port <= 65535
+      );
+    }
+  }
+}
+
+function fail(
+  code: MessageErrorCode,
+  message: string,
+  request?: string,
+  field?: string
+): ParseResult {
+  return { ok: false, error: { code, message, request, field } };
+}
@@ -0,0 +1,1123 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AuditIssue,
+  AuditIssueType,
+  AuditReport,
+  createEmptyReport,
+  summarizeIssues,
+} from "./auditReport";
+import { HTFlowConfig } from "./config";
+
+// Built-in checks for the core HTFlow rules, used when `npx htflow` cannot
+// run (CLI not installed, no network). Issues use the same shape as a parsed
+// CLI audit so the panel and the Problems view treat them alike. The CLI
+// remains the reference; this only covers the rules in the `validation`
+// block of .htflowrc.json.
+
+export type OfflineRule =
+  | "htflow-wrapper"
+  | "data-attributes"
+  | "css-longhand"
+  | "js-selectors";
+
+// Default severity per rule, overridable through `rules` in .htflowrc.json,
+// e.g. "css-longhand": "info"
+export const OFFLINE_RULES: Record<OfflineRule, AuditIssueType> = {
+  "htflow-wrapper": "error",
+  "data-attributes": "warning",
+  "css-longhand": "warning",
+  "js-selectors": "warning",
+};
+
+const HTML_EXTENSIONS = [".html", ".htm", ".htflow", ".htf"];
+const CSS_EXTENSIONS = [".css"];
+const JS_EXTENSIONS = [".js", ".mjs"];
+
+// Never descend into these (dot folders are skipped as well)
+const SKIPPED_FOLDERS = ["node_modules", "dist"];
+
+// Reserved data-ht-* attributes and the elements they belong on. These are
+// HTFlow's import markers whatever `validation.dataAttributes` says; other
+// attributes matching that pattern are hooks for scripts, e.g. data-ht-menu.
+const DATA_ATTRIBUTES: Record<string, string> = {
+  "data-ht-styles": "style",
+  "data-ht-scripts": "script",
+};
+
+// Shorthand property -> longhand properties Webflow imports
+const SHORTHAND_PROPERTIES: Record<string, string[]> = {
+  margin: ["margin-top", "margin-right", "margin-bottom", "margin-left"],
+  padding: ["padding-top", "padding-right", "padding-bottom", "padding-left"],
+  inset: ["top", "right", "bottom", "left"],
+  gap: ["row-gap", "column-gap"],
+  background: [
+    "background-color",
+    "background-image",
+    "background-position",
+    "background-size",
+    "background-repeat",
+    "background-attachment",
+    "background-origin",
+    "background-clip",
+  ],
+  // Webflow stores borders per side
+  border: [
+    "border-top-width",
+    "border-top-style",
+    "border-top-color",
+    "border-right-width",
+    "border-right-style",
+    "border-right-color",
+    "border-bottom-width",
+    "border-bottom-style",
+    "border-bottom-color",
+    "border-left-width",
+    "border-left-style",
+    "border-left-color",
+  ],
+  "border-width": [
+    "border-top-width",
+    "border-right-width",
+    "border-bottom-width",
+    "border-left-width",
+  ],
+  "border-style": [
+    "border-top-style",
+    "border-right-style",
+    "border-bottom-style",
+    "border-left-style",
+  ],
+  "border-color": [
+    "border-top-color",
+    "border-right-color",
+    "border-bottom-color",
+    "border-left-color",
+  ],
+  "border-top": ["border-top-width", "border-top-style", "border-top-color"],
+  "border-right": [
+    "border-right-width",
+    "border-right-style",
+    "border-right-color",
+  ],
+  "border-bottom": [
+    "border-bottom-width",
+    "border-bottom-style",
+    "border-bottom-color",
+  ],
+  "border-left": [
+    "border-left-width",
+    "border-left-style",
+    "border-left-color",
+  ],
+  "border-radius": [
+    "border-top-left-radius",
+    "border-top-right-radius",
+    "border-bottom-right-radius",
+    "border-bottom-left-radius",
+  ],
+  font: [
+    "font-style",
+    "font-variant",
+    "font-weight",
+    "font-stretch",
+    "font-size",
+    "line-height",
+    "font-family",
+  ],
+  flex: ["flex-grow", "flex-shrink", "flex-basis"],
+  "flex-flow": ["flex-direction", "flex-wrap"],
+  "grid-area": [
+    "grid-row-start",
+    "grid-column-start",
+    "grid-row-end",
+    "grid-column-end",
+  ],
+  "grid-template": [
+    "grid-template-rows",
+    "grid-template-columns",
+    "grid-template-areas",
+  ],
+  "list-style": ["list-style-type", "list-style-position", "list-style-image"],
+  outline: ["outline-width", "outline-style", "outline-color"],
+  transition: [
+    "transition-property",
+    "transition-duration",
+    "transition-timing-function",
+    "transition-delay",
+  ],
+  animation: [
+    "animation-name",
+    "animation-duration",
+    "animation-timing-function",
+    "animation-delay",
+  ],
+};
+
+// Shorthands whose 1-4 values map onto their longhands like `margin` does
+const BOX_SHORTHANDS = [
+  "margin",
+  "padding",
+  "inset",
+  "border-radius",
+  "border-width",
+  "border-style",
+  "border-color",
+];
+
+const BORDER_STYLES = [
+  "none",
+  "hidden",
+  "dotted",
+  "dashed",
+  "solid",
+  "double",
+  "groove",
+  "ridge",
+  "inset",
+  "outset",
+];
+
+// DOM lookups that take a CSS selector as their first argument. `$` is not
+// a word character, so a lookbehind rather than \b marks the name's start.
+export const SELECTOR_CALL =
+  /(?<![\w$])(querySelector|querySelectorAll|closest|matches|\$|jQuery)\s*\(\s*(["'`])((?:\\.|(?!\2)[^\\])*)\2/g;
+// DOM lookups that can only select by id, class or tag
+export const NON_DATA_LOOKUP =
+  /\b(getElementById|getElementsByClassName|getElementsByTagName|getElementsByName)\s*\(/g;
+
+// Validate every HTML, CSS and JS file in `target` (relative to `root`, the
+// workspace folder). File paths in the report are relative to the target.
+export async function validateFolder(
+  root: string,
+  config: HTFlowConfig,
+  target?: string
+): Promise<AuditReport> {
+  const base = path.join(root, target?.trim() ?? "");
+  const report = createEmptyReport("offline");
+
+  // A single file (validate on a file) is reported relative to the root
+  const isFile = await isFilePath(base);
+  const outDir = config.build.outDir
+    ? path.resolve(root, config.build.outDir)
+    : undefined;
+  const files = isFile ? [base] : await collectFiles(base, outDir);
+  const relativeTo = isFile ? root : base;
+  for (const file of files) {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, "utf8");
+    } catch (error) {
+      console.log(`HTFlow: Skipping unreadable file ${file}`);
+      continue;
+    }
+
+    const relative = path.relative(relativeTo, file).split(path.sep).join("/");
+    report.issues.push(...validateText(relative, text, config));
+  }
+
+  report.issues.forEach((issue, index) => (issue.number = index + 1));
+  report.summary = summarizeIssues(report.issues, files.length);
+  return report;
+}
+
+// Validate one file's contents. The file type is taken from the extension of
+// `file`, which is also what the issues report as their location.
+export function validateText(
+  file: string,
+  text: string,
+  config: HTFlowConfig
+): AuditIssue[] {
+  const extension = path.extname(file).toLowerCase();
+  const context = new RuleContext(file, text, config);
+
+  if (HTML_EXTENSIONS.includes(extension)) {
+    checkHtml(context);
+  } else if (CSS_EXTENSIONS.includes(extension)) {
+    checkCss(context, text, 0);
+  } else if (JS_EXTENSIONS.includes(extension)) {
+    checkScript(context, text, 0);
+  }
+
+  return context.issues.sort(
+    (a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0)
+  );
+}
+
+// Rules validateText checks in a file of this type with this configuration
+export function checkedRules(
+  file: string,
+  config: HTFlowConfig
+): OfflineRule[] {
+  const extension = path.extname(file).toLowerCase();
+  const { validation } = config;
+  const isHtml = HTML_EXTENSIONS.includes(extension);
+  const rules: OfflineRule[] = [];
+
+  if (isHtml && validation.htmlWrapper) {
+    rules.push("htflow-wrapper");
+  }
+  if (isHtml && validation.dataAttributes !== false) {
+    rules.push("data-attributes");
+  }
+  if (
+    (isHtml || CSS_EXTENSIONS.includes(extension)) &&
+    validation.cssProperties === "longhand-only"
+  ) {
+    rules.push("css-longhand");
+  }
+  if (
+    (isHtml || JS_EXTENSIONS.includes(extension)) &&
+    validation.jsSelectors === "data-attributes-only"
+  ) {
+    rules.push("js-selectors");
+  }
+
+  return rules.filter(
+    (rule) => config.rules.enabled && config.rules.severities[rule] !== "off"
+  );
+}
+
+export function isValidatedFile(file: string): boolean {
+  const extension = path.extname(file).toLowerCase();
+  return (
+    isHtmlFile(file) ||
+    CSS_EXTENSIONS.includes(extension) ||
+    JS_EXTENSIONS.includes(extension)
+  );
+}
+
+export function isHtmlFile(file: string): boolean {
+  return HTML_EXTENSIONS.includes(path.extname(file).toLowerCase());
+}
+
+// Print a report as compact `file:line:col severity title [rule]` lines,
+// the format the $htflow problem matcher and parseAuditText understand
+export function formatOfflineReport(report: AuditReport): string {
+  const lines = report.issues.map(
+    (issue) =>
+      `${issue.file}:${issue.line ?? 1}:${issue.column ?? 1}  ${issue.type}  ${
+        issue.title
+      }  [${issue.rule}]`
+  );
+
+  const { summary } = report;
+  lines.push(
+    "",
+    "HTFlow offline validation (CLI not available)",
+    `Files Analyzed: ${summary.files}`,
+    `Errors: ${summary.errors}`,
+    `Warnings: ${summary.warnings}`,
+    `Info: ${summary.info}`
+  );
+  return lines.join("\n");
+}
+
+class RuleContext {
+  public readonly issues: AuditIssue[] = [];
+  private readonly _lineStarts: number[] = [0];
+
+  constructor(
+    public readonly file: string,
+    public readonly text: string,
+    public readonly config: HTFlowConfig
+  ) {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "\n") {
+        this._lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  public isEnabled(rule: OfflineRule): boolean {
+    return (
+      this.config.rules.enabled && this.config.rules.severities[rule] !== "off"
+    );
+  }
+
+  public report(
+    rule: OfflineRule,
+    offset: number,
+    title: string,
+    description: string,
+    fix: string
+  ) {
+    const severity = this.config.rules.severities[rule];
+    if (!this.config.rules.enabled || severity === "off") {
+      return;
+    }
+
+    const { line, column } = this.positionAt(offset);
+    const code = this.lineText(line).trim();
+    this.issues.push({
+      number: 0,
+      type: severity ?? OFFLINE_RULES[rule],
+      rule,
+      title,
+      description,
+      file: this.file,
+      line,
+      column,
+      code,
+      fix,
+      prompt:
+        `Fix the HTFlow "${rule}" issue in ${this.file} at line ${line}: ` +
+        `${title}. ${fix}`,
+    });
+  }
+
+  // 1-based line and column of a character offset
+  private positionAt(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this._lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this._lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - this._lineStarts[low] + 1 };
+  }
+
+  private lineText(line: number): string {
+    const start = this._lineStarts[line - 1];
+    const end = this._lineStarts[line] ?? this.text.length;
+    return this.text.slice(start, end).replace(/\r?\n$/, "");
+  }
+}
+
+function checkHtml(context: RuleContext) {
+  const text = maskComments(context.text, /<!--[\s\S]*?-->/g);
+
+  const { htmlWrapper } = context.config.validation;
+  if (htmlWrapper) {
+    checkWrapper(context, text, htmlWrapper);
+  }
+  checkDataAttributes(context, text);
+
+  // Embedded <style> and <script> blocks
+  const blocks = /<(style|script)\b([^>]*)>([\s\S]*?)<\/\1\s*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = blocks.exec(text))) {
+    const contentOffset = match.index + match[0].indexOf(">") + 1;
+    if (match[1].toLowerCase() === "style") {
+      checkCss(context, match[3], contentOffset);
+    } else if (!/\bsrc\s*=/i.test(match[2]) && isJavaScript(match[2])) {
+      checkScript(context, match[3], contentOffset);
+    }
+  }
+
+  // Inline style="" attributes
+  const styleAttributes = /\sstyle\s*=\s*(["'])([\s\S]*?)\1/gi;
+  while ((match = styleAttributes.exec(text))) {
+    const valueOffset = match.index + match[0].indexOf(match[1]) + 1;
+    checkCss(context, match[2], valueOffset, true);
+  }
+}
+
+// Pages (documents with a <body>) must wrap their content in an element with
+// the wrapper class (`validation.htmlWrapper`), and nothing else may sit next
+// to it. The class name only holds word characters and dashes.
+function checkWrapper(context: RuleContext, text: string, className: string) {
+  const body = text.match(/<body\b[^>]*>/i);
+  if (!body || body.index === undefined) {
+    return;
+  }
+
+  const bodyStart = body.index + body[0].length;
+  const bodyEnd = text.search(/<\/body\s*>/i);
+  const content = text.slice(bodyStart, bodyEnd === -1 ? undefined : bodyEnd);
+  const wrapper = content.match(
+    new RegExp(
+      `<([a-z][\\w-]*)\\b[^>]*\\bclass\\s*=\\s*(["'])(?:(?!\\2)[\\s\\S])*` +
+        `(?<![\\w-])${className}(?![\\w-])`,
+      "i"
+    )
+  );
+
+  if (!wrapper || wrapper.index === undefined) {
+    context.report(
+      "htflow-wrapper",
+      body.index,
+      `Missing ${className}`,
+      `Page content must be wrapped in a single element with the ${className} class so it can be imported into Webflow.`,
+      `Wrap the contents of <body> in <div class="${className}">…</div>.`
+    );
+    return;
+  }
+
+  // Only scripts may come before the wrapper
+  const before = content
+    .slice(0, wrapper.index)
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, "");
+  const stray = before.search(/<[a-z]/i);
+  if (stray !== -1) {
+    context.report(
+      "htflow-wrapper",
+      bodyStart + stray,
+      `Content outside ${className}`,
+      `Elements outside the ${className} element are not imported into Webflow.`,
+      `Move this element inside the ${className} element.`
+    );
+  }
+}
+
+function checkDataAttributes(context: RuleContext, text: string) {
+  if (
+    context.config.validation.dataAttributes === false ||
+    !context.isEnabled("data-attributes")
+  ) {
+    return;
+  }
+
+  const tags = /<([a-z][\w-]*)\b([^>]*)>/gi;
+  let tag: RegExpExecArray | null;
+  while ((tag = tags.exec(text))) {
+    const element = tag[1].toLowerCase();
+    const attributesOffset = tag.index + 1 + tag[1].length;
+    const attributes = /\s(data-ht-[\w-]*)/gi;
+    let attribute: RegExpExecArray | null;
+
+    while ((attribute = attributes.exec(tag[2]))) {
+      const name = attribute[1].toLowerCase();
+      const offset = attributesOffset + attribute.index + 1;
+      const expected = DATA_ATTRIBUTES[name];
+
+      if (expected && expected !== element) {
+        context.report(
+          "data-attributes",
+          offset,
+          `${name} is only allowed on <${expected}>`,
+          `HTFlow reads ${name} from <${expected}> elements only, so it has no effect on <${element}>.`,
+          `Move ${name} to a <${expected}> element.`
+        );
+      }
+    }
+
+    if (element === "style" && !/\sdata-ht-styles\b/i.test(tag[2])) {
+      context.report(
+        "data-attributes",
+        tag.index,
+        "<style> without data-ht-styles",
+        "HTFlow only imports styles from <style data-ht-styles> blocks.",
+        "Add the data-ht-styles attribute to this <style> element."
+      );
+    }
+  }
+}
+
+// `offset` is where `css` starts in the file. Inline style attributes hold
+// bare declarations without a selector.
+function checkCss(
+  context: RuleContext,
+  css: string,
+  offset: number,
+  inline: boolean = false
+) {
+  if (
+    context.config.validation.cssProperties !== "longhand-only" ||
+    !context.isEnabled("css-longhand")
+  ) {
+    return;
+  }
+
+  const text = maskComments(css, /\/\*[\s\S]*?\*\//g);
+  // A property is preceded by `{`, `;` or the start of a declaration list
+  // and its value ends at `;` or `}`, which rules out selectors like a:hover
+  const declaration = inline
+    ? /(^|;)\s*([a-z-]+)\s*:\s*([^;]*)/gi
+    : /([{;])\s*([a-z-]+)\s*:\s*([^;{}]*)(?=[;}])/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = declaration.exec(text))) {
+    const property = match[2].toLowerCase();
+    const longhands = SHORTHAND_PROPERTIES[property];
+    if (!longhands) {
+      continue;
+    }
+
+    const expanded = expandShorthand(property, match[3].trim());
+    const propertyOffset =
+      offset + match.index + match[0].indexOf(match[2], match[1].length);
+    context.report(
+      "css-longhand",
+      propertyOffset,
+      `Shorthand property ${property}`,
+      "Webflow only imports longhand CSS properties.",
+      expanded
+        ? `Replace with ${expanded.join("; ")};`
+        : `Use ${longhands.join(", ")}.`
+    );
+  }
+}
+
+// `offset` is where `script` starts in the file. Selectors must use
+// attributes matching `validation.dataAttributes` (any data-* attribute when
+// that is off).
+function checkScript(context: RuleContext, script: string, offset: number) {
+  const { jsSelectors, dataAttributes } = context.config.validation;
+  if (
+    jsSelectors !== "data-attributes-only" ||
+    !context.isEnabled("js-selectors")
+  ) {
+    return;
+  }
+
+  const prefix = dataAttributes ? dataAttributePrefix(dataAttributes) : "data-";
+  const hint = dataAttributes || "data-*";
+
+  const text = maskComments(script, /\/\*[\s\S]*?\*\/|\/\/[^\n]*/g);
+  let match: RegExpExecArray | null;
+
+  SELECTOR_CALL.lastIndex = 0;
+  while ((match = SELECTOR_CALL.exec(text))) {
+    const selector = match[3];
+    if (match[2] === "`" && selector.includes("${")) {
+      continue;
+    }
+    // $("<div>") creates elements rather than selecting them
+    if ((match[1] === "$" || match[1] === "jQuery") && /^\s*</.test(selector)) {
+      continue;
+    }
+    if (isDataAttributeSelector(selector, prefix)) {
+      continue;
+    }
+
+    context.report(
+      "js-selectors",
+      offset + match.index,
+      `Selector "${selector}" does not use a ${hint} attribute`,
+      `Webflow renames classes and ids, so scripts must select elements by ${hint} attributes.`,
+      `Add a ${hint} attribute to the element and select it with [${prefix}…] instead of "${selector}".`
+    );
+  }
+
+  NON_DATA_LOOKUP.lastIndex = 0;
+  while ((match = NON_DATA_LOOKUP.exec(text))) {
+    context.report(
+      "js-selectors",
+      offset + match.index,
+      `${match[1]} does not select by ${hint} attribute`,
+      `Webflow renames classes and ids, so scripts must select elements by ${hint} attributes.`,
+      `Use querySelector("[${prefix}…]") with a ${hint} attribute on the element.`
+    );
+  }
+}
+
+// True when every compound selector is made of attribute selectors whose
+// names start with `prefix` only, e.g. `[data-menu] [data-item="1"]` for
+// "data-". Pseudo-classes are allowed.
+export function isDataAttributeSelector(
+  selector: string,
+  prefix: string = "data-"
+): boolean {
+  const name = `${escapeRegExp(prefix)}[\\w-]+`;
+  const attribute = new RegExp(
+    `\\[${name}(?:\\s*[~|^$*]?=\\s*(?:"[^"]*"|'[^']*'|[^\\]]*))?\\s*\\]`,
+    "gi"
+  );
+  const parts = selector.split(",").map((part) => part.trim());
+  return parts.every((part) => {
+    if (!new RegExp(`\\[${name}`, "i").test(part)) {
+      return false;
+    }
+    const rest = part
+      .replace(attribute, "")
+      .replace(/::?[\w-]+(?:\([^)]*\))?/g, "")
+      .replace(/[\s>+~*]/g, "");
+    return rest === "";
+  });
+}
+
+export function isShorthandProperty(property: string): boolean {
+  return !!SHORTHAND_PROPERTIES[property];
+}
+
+// Longhands a shorthand sets, or just the property itself
+export function longhandsOf(property: string): string[] {
+  return SHORTHAND_PROPERTIES[property] ?? [property];
+}
+
+// Longhand declarations for a shorthand, e.g. `margin: 0 auto` gives
+// ["margin-top: 0", "margin-right: auto", ...]. Values the shorthand leaves
+// out get their initial value, as the shorthand would reset them. Undefined
+// for values that cannot be split mechanically (var(), system fonts).
+export function expandShorthand(
+  property: string,
+  value: string
+): string[] | undefined {
+  const important = /\s*!important\s*$/i.test(value) ? " !important" : "";
+  const values = splitValue(value.replace(/\s*!important\s*$/i, ""));
+  if (
+    !SHORTHAND_PROPERTIES[property] ||
+    values.length === 0 ||
+    values.some((part) => /^var\(/i.test(part))
+  ) {
+    return undefined;
+  }
+
+  // A CSS-wide keyword applies to every longhand
+  const longhands = /^(inherit|initial|unset|revert)$/i.test(values.join(" "))
+    ? zip(
+        SHORTHAND_PROPERTIES[property],
+        SHORTHAND_PROPERTIES[property].map(() => values[0])
+      )
+    : expandValues(property, values);
+  return longhands?.map(
+    ([longhand, longhandValue]) => `${longhand}: ${longhandValue}${important}`
+  );
+}
+
+function expandValues(
+  property: string,
+  values: string[]
+): [string, string][] | undefined {
+  const longhands = SHORTHAND_PROPERTIES[property];
+
+  if (BOX_SHORTHANDS.includes(property)) {
+    // border-radius: 10px / 20px sets elliptical corners
+    if (values.length > 4 || values.includes("/")) {
+      return undefined;
+    }
+    const [top, right = top, bottom = top, left = right] = values;
+    return zip(longhands, [top, right, bottom, left]);
+  }
+
+  switch (property) {
+    case "gap": {
+      const [row, column = row] = values;
+      return values.length <= 2 ? zip(longhands, [row, column]) : undefined;
+    }
+    case "border":
+    case "border-top":
+    case "border-right":
+    case "border-bottom":
+    case "border-left":
+    case "outline": {
+      const parts = { width: "medium", style: "none", color: "currentcolor" };
+      for (const part of values) {
+        if (BORDER_STYLES.includes(part.toLowerCase())) {
+          parts.style = part;
+        } else if (/^(thin|medium|thick)$/i.test(part) || isLength(part)) {
+          parts.width = part;
+        } else {
+          parts.color = part;
+        }
+      }
+      // `border` repeats width, style and color for each side
+      const side = [parts.width, parts.style, parts.color];
+      return values.length <= 3
+        ? zip(
+            longhands,
+            longhands.map((_, index) => side[index % 3])
+          )
+        : undefined;
+    }
+    case "flex":
+      return expandFlex(values);
+    case "flex-flow": {
+      const direction = values.find((part) =>
+        /^(row|row-reverse|column|column-reverse)$/i.test(part)
+      );
+      const wrap = values.find((part) =>
+        /^(nowrap|wrap|wrap-reverse)$/i.test(part)
+      );
+      return values.length === [direction, wrap].filter(Boolean).length
+        ? zip(longhands, [direction ?? "row", wrap ?? "nowrap"])
+        : undefined;
+    }
+    case "grid-area":
+      return expandGridArea(values);
+    case "font":
+      return expandFont(values);
+    case "background":
+      return expandBackground(values);
+    case "list-style": {
+      let type: string | undefined;
+      let position: string | undefined;
+      let image: string | undefined;
+      for (const part of values) {
+        if (/^(inside|outside)$/i.test(part) && !position) {
+          position = part;
+        } else if (/^url\(/i.test(part) && !image) {
+          image = part;
+        } else if (!type) {
+          type = part;
+        } else if (part.toLowerCase() === "none" && !image) {
+          image = part;
+        } else {
+          return undefined;
+        }
+      }
+      return zip(longhands, [
+        type ?? "disc",
+        position ?? "outside",
+        image ?? "none",
+      ]);
+    }
+  }
+  return undefined;
+}
+
+// flex: none | auto | <grow> [<shrink>] [<basis>] | <basis>
+function expandFlex(values: string[]): [string, string][] | undefined {
+  const keyword = values.length === 1 ? values[0].toLowerCase() : "";
+  const parts =
+    keyword === "none"
+      ? ["0", "0", "auto"]
+      : keyword === "auto"
+      ? ["1", "1", "auto"]
+      : keyword === "initial"
+      ? ["0", "1", "auto"]
+      : undefined;
+  if (parts) {
+    return zip(SHORTHAND_PROPERTIES.flex, parts);
+  }
+
+  const isNumber = (part: string) => /^\d*\.?\d+$/.test(part);
+  if (values.length === 3) {
+    return isNumber(values[0]) && isNumber(values[1])
+      ? zip(SHORTHAND_PROPERTIES.flex, values)
+      : undefined;
+  }
+  const numbers = values.filter(isNumber);
+  const basis = values.filter((part) => !isNumber(part));
+  if (numbers.length > 2 || basis.length > 1 || values.length > 2) {
+    return undefined;
+  }
+  return zip(SHORTHAND_PROPERTIES.flex, [
+    numbers[0] ?? "1",
+    numbers[1] ?? "1",
+    // A bare number sets the basis to 0%
+    basis[0] ?? "0%",
+  ]);
+}
+
+// grid-area: <row-start> / <column-start> / <row-end> / <column-end>
+function expandGridArea(values: string[]): [string, string][] | undefined {
+  const lines = values
+    .join(" ")
+    .split("/")
+    .map((line) => line.trim());
+  if (lines.length > 4 || lines.some((line) => !line)) {
+    return undefined;
+  }
+
+  // A missing line repeats a named line, otherwise it is auto
+  const named = (line: string) =>
+    /^-?[a-z_][\w-]*$/i.test(line) && !/^(auto|span)$/i.test(line)
+      ? line
+      : "auto";
+  const [rowStart, columnStart = named(rowStart)] = lines;
+  const rowEnd = lines[2] ?? named(rowStart);
+  const columnEnd = lines[3] ?? named(columnStart);
+  return zip(SHORTHAND_PROPERTIES["grid-area"], [
+    rowStart,
+    columnStart,
+    rowEnd,
+    columnEnd,
+  ]);
+}
+
+// font: [<style> || <variant> || <weight> || <stretch>]
+// <size>[/<line-height>] <family>
+function expandFont(values: string[]): [string, string][] | undefined {
+  // Unlike a size, a weight like 700 has no unit
+  const sizeIndex = values.findIndex(
+    (part) =>
+      (isLength(part) && !/^\d+$/.test(part)) ||
+      /^(xx-small|x-small|small|medium|large|x-large|xx-large|smaller|larger)$/i.test(
+        part
+      )
+  );
+  const hasLineHeight = values[sizeIndex + 1] === "/";
+  const familyIndex = sizeIndex + (hasLineHeight ? 3 : 1);
+  if (sizeIndex < 0 || familyIndex >= values.length) {
+    return undefined;
+  }
+
+  const parts: Record<string, string> = {
+    "font-style": "normal",
+    "font-variant": "normal",
+    "font-weight": "normal",
+    "font-stretch": "normal",
+  };
+  for (const part of values.slice(0, sizeIndex)) {
+    if (/^(italic|oblique)$/i.test(part)) {
+      parts["font-style"] = part;
+    } else if (/^(bold|bolder|lighter|\d{3})$/i.test(part)) {
+      parts["font-weight"] = part;
+    } else if (/^small-caps$/i.test(part)) {
+      parts["font-variant"] = part;
+    } else if (/^(ultra-|extra-|semi-)?(condensed|expanded)$/i.test(part)) {
+      parts["font-stretch"] = part;
+    } else if (part.toLowerCase() !== "normal") {
+      return undefined;
+    }
+  }
+
+  return [
+    ...Object.entries(parts),
+    ["font-size", values[sizeIndex]],
+    ["line-height", hasLineHeight ? values[sizeIndex + 2] : "normal"],
+    ["font-family", values.slice(familyIndex).join(" ")],
+  ];
+}
+
+// background: <layer>, ..., <final layer>. Each longhand lists one value
+// per layer, and only the final layer may set the color.
+function expandBackground(values: string[]): [string, string][] | undefined {
+  const layers: BackgroundLayer[] = [];
+  for (const parts of splitLayers(values)) {
+    const layer = backgroundLayer(parts);
+    if (!layer) {
+      return undefined;
+    }
+    layers.push(layer);
+  }
+  const final = layers[layers.length - 1];
+  if (layers.some((layer) => layer !== final && layer.color !== undefined)) {
+    return undefined;
+  }
+
+  const list = (read: (layer: BackgroundLayer) => string) =>
+    layers.map(read).join(", ");
+  return zip(SHORTHAND_PROPERTIES.background, [
+    final.color ?? "transparent",
+    list((layer) => layer.image),
+    list((layer) => layer.position),
+    list((layer) => layer.size),
+    list((layer) => layer.repeat),
+    list((layer) => layer.attachment),
+    list((layer) => layer.origin),
+    list((layer) => layer.clip),
+  ]);
+}
+
+interface BackgroundLayer {
+  color?: string;
+  image: string;
+  position: string;
+  size: string;
+  repeat: string;
+  attachment: string;
+  origin: string;
+  clip: string;
+}
+
+// One box keyword sets both the origin and the clip (`text` only the clip),
+// a second one the clip
+function backgroundLayer(values: string[]): BackgroundLayer | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  let color: string | undefined;
+  let image = "none";
+  let repeat = "repeat";
+  let attachment = "scroll";
+  const boxes: string[] = [];
+  const position: string[] = [];
+  const size: string[] = [];
+  let target = position;
+
+  for (const part of values) {
+    const lower = part.toLowerCase();
+    if (part === "/") {
+      target = size;
+    } else if (/^(url|[a-z-]*gradient)\(/i.test(part) || lower === "none") {
+      image = part;
+    } else if (
+      /^(repeat|repeat-x|repeat-y|no-repeat|space|round)$/.test(lower)
+    ) {
+      repeat = repeat === "repeat" ? part : `${repeat} ${part}`;
+    } else if (/^(fixed|scroll|local)$/.test(lower)) {
+      attachment = part;
+    } else if (
+      /^(left|right|top|bottom|center|auto|cover|contain)$/.test(lower) ||
+      isLength(part)
+    ) {
+      target.push(part);
+    } else if (/^(border-box|padding-box|content-box|text)$/.test(lower)) {
+      boxes.push(part);
+    } else {
+      color = part;
+    }
+  }
+
+  const isText = (box: string) => box.toLowerCase() === "text";
+  if (boxes.length > 2 || (boxes.length === 2 && isText(boxes[0]))) {
+    return undefined;
+  }
+  const origin =
+    boxes.length > 0 && !isText(boxes[0]) ? boxes[0] : "padding-box";
+  const clip = boxes[boxes.length - 1] ?? "border-box";
+
+  return {
+    color,
+    image,
+    position: position.join(" ") || "0% 0%",
+    size: size.join(" ") || "auto",
+    repeat,
+    attachment,
+    origin,
+    clip,
+  };
+}
+
+// Split parts into comma-separated layers: "url(a) no-repeat, red" gives
+// [["url(a)", "no-repeat"], ["red"]]
+function splitLayers(values: string[]): string[][] {
+  const layers: string[][] = [[]];
+  for (const part of values) {
+    let current = "";
+    let depth = 0;
+    for (const char of part) {
+      depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+      if (char === "," && depth === 0) {
+        if (current) {
+          layers[layers.length - 1].push(current);
+        }
+        layers.push([]);
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    if (current) {
+      layers[layers.length - 1].push(current);
+    }
+  }
+  return layers;
+}
+
+// Split a value on whitespace outside parentheses and quotes, with `/` as a
+// separate part: "16px/1.5 serif" gives 4 parts and "1px solid rgb(0 0 0 /
+// 50%)" gives 3
+function splitValue(value: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quote = "";
+
+  for (const char of value.trim()) {
+    if (quote) {
+      current += char;
+      quote = char === quote ? "" : quote;
+    } else if (char === '"' || char === "'") {
+      current += char;
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+      current += char;
+    } else if (char === ")") {
+      depth--;
+      current += char;
+    } else if (depth === 0 && (/\s/.test(char) || char === "/")) {
+      if (current) {
+        parts.push(current);
+      }
+      if (char === "/") {
+        parts.push(char);
+      }
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+function isLength(value: string): boolean {
+  return /^(-?(\d*\.)?\d+([a-z]+|%)?|(calc|min|max|clamp)\(.*\))$/i.test(value);
+}
+
+function zip(longhands: string[], values: string[]): [string, string][] {
+  return longhands.map((longhand, index) => [longhand, values[index]]);
+}
+
+// Rewrite a selector made of classes and ids to data-ht-* attributes (or
+// another prefix), e.g. `.nav .nav-link` gives
+// `[data-ht-nav] [data-ht-nav-link]`. Undefined when it also selects by tag
+// or attribute.
+export function toDataSelector(
+  selector: string,
+  prefix: string = "data-ht-"
+): string | undefined {
+  const trimmed = selector.trim();
+  if (
+    !/[.#][\w-]/.test(trimmed) ||
+    !/^(?:[.#][\w-]+|::?[\w-]+(?:\([^)]*\))?|\s*[>+~,]\s*|\s+)+$/.test(trimmed)
+  ) {
+    return undefined;
+  }
+  return trimmed.replace(/[.#]([\w-]+)/g, `[${prefix}$1]`);
+}
+
+// "data-ht-" for the `validation.dataAttributes` pattern "data-ht-*"
+export function dataAttributePrefix(pattern: string): string {
+  return pattern.replace(/\*$/, "");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function isJavaScript(attributes: string): boolean {
+  const type = attributes.match(/\btype\s*=\s*["']?([^"'\s>]+)/i)?.[1];
+  return (
+    !type || /^(text\/javascript|module|application\/javascript)$/i.test(type)
+  );
+}
+
+// Blank out comments while keeping offsets (and line breaks) intact
+function maskComments(text: string, pattern: RegExp): string {
+  return text.replace(pattern, (comment) => comment.replace(/[^\n]/g, " "));
+}
+
+// HTML, CSS and JS files under a folder, without dependencies, dot folders
+// and the build output
+export async function collectFiles(
+  folder: string,
+  outDir?: string
+): Promise<string[]> {
+  const files: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(folder, { withFileTypes: true });
+  } catch (error) {
+    return files;
+  }
+
+  for (const entry of entries) {
+    const fullPath = path.join(folder, entry.name);
+    if (entry.isDirectory()) {
+      if (
+        SKIPPED_FOLDERS.includes(entry.name) ||
+        entry.name.startsWith(".") ||
+        fullPath === outDir
+      ) {
+        continue;
+      }
+      files.push(...(await collectFiles(fullPath, outDir)));
+    } else if (entry.isFile() && isValidatedFile(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// Whether `target` exists and is a file rather than a folder
+export async function isFilePath(target: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(target)).isFile();
+  } catch (error) {
+    return false;
+  }
+}
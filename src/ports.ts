@@ -0,0 +1,167 @@
+import * as net from "net";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { stripAnsi } from "./auditParser";
+
+// Resolve true when something accepts TCP connections on the port
+export function isPortOpen(
+  port: number,
+  host: string = "127.0.0.1",
+  timeoutMs: number = 1000
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host });
+    let settled = false;
+
+    const done = (open: boolean) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      socket.destroy();
+      resolve(open);
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => done(true));
+    socket.once("timeout", () => done(false));
+    socket.once("error", () => done(false));
+  });
+}
+
+// Something listening on either loopback address counts as busy
+export async function isPortInUse(port: number): Promise<boolean> {
+  return (await isPortOpen(port)) || (await isPortOpen(port, "::1"));
+}
+
+// First port after `port` that nothing is listening on
+export async function findFreePort(
+  port: number,
+  maxAttempts: number = 20
+): Promise<number | undefined> {
+  for (
+    let candidate = port + 1;
+    candidate < port + 1 + maxAttempts;
+    candidate++
+  ) {
+    if (candidate > 65535) {
+      break;
+    }
+    if (!(await isPortInUse(candidate))) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+export type PortOwner = {
+  pid: number;
+  // Process name, when the platform tools report it
+  name?: string;
+};
+
+const execFilePromise = promisify(execFile);
+
+// Best-effort lookup of the process listening on a port, using lsof on
+// macOS/Linux and netstat + tasklist on Windows
+export async function findPortOwner(
+  port: number
+): Promise<PortOwner | undefined> {
+  try {
+    if (process.platform === "win32") {
+      const { stdout } = await execFilePromise(
+        "netstat",
+        ["-ano", "-p", "TCP"],
+        { timeout: 5000 }
+      );
+      const line = stdout
+        .split(/\r?\n/)
+        .find((row) =>
+          new RegExp(`:${port}\\s+\\S+\\s+LISTENING\\s+\\d+`, "i").test(row)
+        );
+      const pid = line
+        ? parseInt(line.trim().split(/\s+/).pop() ?? "", 10)
+        : NaN;
+      if (!Number.isFinite(pid)) {
+        return undefined;
+      }
+
+      const { stdout: tasks } = await execFilePromise(
+        "tasklist",
+        ["/FI", `PID eq ${pid}`, "/FO", "CSV", "/NH"],
+        { timeout: 5000 }
+      );
+      const name = tasks.match(/^"([^"]+)"/m)?.[1];
+      return { pid, name };
+    }
+
+    const { stdout } = await execFilePromise(
+      "lsof",
+      ["-nP", `-iTCP:${port}`, "-sTCP:LISTEN", "-Fpc"],
+      { timeout: 5000 }
+    );
+    const pid = parseInt(stdout.match(/^p(\d+)/m)?.[1] ?? "", 10);
+    if (!Number.isFinite(pid)) {
+      return undefined;
+    }
+    return { pid, name: stdout.match(/^c(.+)$/m)?.[1] };
+  } catch (error) {
+    console.log(`HTFlow: Could not look up the owner of port ${port}`);
+    return undefined;
+  }
+}
+
+export type WaitForPortOptions = {
+  // Read on every attempt so a port discovered from output is picked up
+  getPort: () => number;
+  timeoutMs: number;
+  intervalMs?: number;
+  // Stop waiting early, e.g. when the server process exits
+  isCancelled?: () => boolean;
+};
+
+// Poll until the port answers. Resolves with the port that answered, or
+// undefined on timeout/cancellation.
+export async function waitForPort(
+  options: WaitForPortOptions
+): Promise<number | undefined> {
+  const deadline = Date.now() + options.timeoutMs;
+  const interval = options.intervalMs ?? 500;
+
+  while (Date.now() < deadline) {
+    if (options.isCancelled?.()) {
+      return undefined;
+    }
+
+    const port = options.getPort();
+    if (await isPortInUse(port)) {
+      return port;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+
+  return undefined;
+}
+
+// Find the port a dev server reports in its output, e.g.
+// "Server running at http://localhost:3050" or "Listening on port 3050"
+export function detectPortFromOutput(output: string): number | undefined {
+  const text = stripAnsi(output);
+  const patterns = [
+    /https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d{2,5})/i,
+    /\b(?:port|listening on)\s*:?\s*(\d{2,5})\b/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      const port = parseInt(match[1], 10);
+      if (port > 0 && port <= 65535) {
+        return port;
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,217 @@
+import * as vscode from "vscode";
+import { ChildProcess, execFile, spawn } from "child_process";
+import { promisify } from "util";
+
+export type ProcessResult = {
+  command: string;
+  output: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  duration: number;
+  success: boolean;
+};
+
+export type RunOptions = {
+  command: string;
+  cwd: string;
+  terminalName: string;
+  // Called for every chunk written by the process (stdout and stderr)
+  onOutput?: (chunk: string) => void;
+  show?: boolean;
+};
+
+export type RunningProcess = {
+  terminal: vscode.Terminal;
+  result: Promise<ProcessResult>;
+  kill: () => void;
+  // Undefined until the terminal opens and the process is spawned
+  pid: () => number | undefined;
+};
+
+// 10MB, same cap the previous exec-based runner used
+const MAX_CAPTURED_OUTPUT = 1024 * 1024 * 10;
+
+// Run a shell command once, streaming its output into a pseudoterminal and to
+// the caller. The terminal stays open after exit so the output can be read.
+export function runInTerminal(options: RunOptions): RunningProcess {
+  const writeEmitter = new vscode.EventEmitter<string>();
+
+  let child: ChildProcess | undefined;
+  let finished = false;
+  let stdout = "";
+  let stderr = "";
+  let output = "";
+  let resolveResult: (result: ProcessResult) => void;
+
+  const result = new Promise<ProcessResult>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  const write = (text: string) => {
+    writeEmitter.fire(text.replace(/\r?\n/g, "\r\n"));
+  };
+
+  const append = (current: string, chunk: string) =>
+    current.length < MAX_CAPTURED_OUTPUT ? current + chunk : current;
+
+  const finish = (exitCode: number, startTime: number) => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+
+    const duration = Date.now() - startTime;
+    write(`\n[Process exited with code ${exitCode} in ${duration}ms]\n`);
+
+    resolveResult({
+      command: options.command,
+      output,
+      stdout,
+      stderr,
+      exitCode,
+      duration,
+      success: exitCode === 0,
+    });
+  };
+
+  const kill = () => {
+    if (!child || finished || child.exitCode !== null || !child.pid) {
+      return;
+    }
+
+    console.log(`HTFlow: Killing process for ${options.command}`);
+    if (!killProcessTree(child.pid)) {
+      console.log(`HTFlow: Falling back to killing the shell only`);
+      child.kill();
+    }
+  };
+
+  const pty: vscode.Pseudoterminal = {
+    onDidWrite: writeEmitter.event,
+    open: () => {
+      const startTime = Date.now();
+      write(`> ${options.command}\n\n`);
+
+      try {
+        child = spawn(options.command, {
+          cwd: options.cwd,
+          shell: true,
+          // Own process group so kill() can reach grandchildren
+          detached: process.platform !== "win32",
+          env: { ...process.env, FORCE_COLOR: "1" },
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        output = message;
+        stderr = message;
+        write(`${message}\n`);
+        finish(1, startTime);
+        return;
+      }
+
+      const handleChunk = (data: Buffer, stream: "stdout" | "stderr") => {
+        const chunk = data.toString();
+        if (stream === "stdout") {
+          stdout = append(stdout, chunk);
+        } else {
+          stderr = append(stderr, chunk);
+        }
+        output = append(output, chunk);
+        write(chunk);
+        options.onOutput?.(chunk);
+      };
+
+      child.stdout?.on("data", (data: Buffer) => handleChunk(data, "stdout"));
+      child.stderr?.on("data", (data: Buffer) => handleChunk(data, "stderr"));
+
+      child.on("error", (error) => {
+        output = append(output, error.message);
+        stderr = append(stderr, error.message);
+        write(`${error.message}\n`);
+        finish(1, startTime);
+      });
+
+      child.on("close", (code, signal) => {
+        finish(code ?? (signal ? 130 : 1), startTime);
+      });
+    },
+    close: () => {
+      kill();
+    },
+    handleInput: (data: string) => {
+      // Ctrl+C in the terminal stops the process
+      if (data === "\u0003") {
+        kill();
+      }
+    },
+  };
+
+  const terminal = vscode.window.createTerminal({
+    name: options.terminalName,
+    pty,
+  });
+
+  if (options.show !== false) {
+    terminal.show();
+  }
+
+  result.finally(() => {
+    writeEmitter.dispose();
+  });
+
+  return { terminal, result, kill, pid: () => child?.pid };
+}
+
+// npx spawns its own children, so stop the whole process tree. Processes
+// started by runInTerminal lead their own process group on macOS/Linux.
+export function killProcessTree(pid: number): boolean {
+  try {
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(pid), "/T", "/F"]);
+    } else {
+      process.kill(-pid, "SIGTERM");
+    }
+    return true;
+  } catch (error) {
+    console.log(`HTFlow: Could not kill process tree ${pid}:`, error);
+    return false;
+  }
+}
+
+const execFilePromise = promisify(execFile);
+
+// When the process started, as the OS reports it; undefined when it is gone.
+// Pids are reused, so a stored pid only refers to the process it was stored
+// for while this still matches.
+export async function processStartTime(
+  pid: number
+): Promise<string | undefined> {
+  try {
+    const { stdout } =
+      process.platform === "win32"
+        ? await execFilePromise(
+            "powershell",
+            [
+              "-NoProfile",
+              "-Command",
+              `(Get-Process -Id ${pid}).StartTime.ToFileTimeUtc()`,
+            ],
+            { timeout: 5000 }
+          )
+        : await execFilePromise("ps", ["-o", "lstart=", "-p", String(pid)], {
+            timeout: 5000,
+          });
+    return stdout.trim() || undefined;
+  } catch (error) {
+    // ps exits with 1 when there is no such process
+    return undefined;
+  }
+}
+
+export async function isSameProcess(
+  pid: number,
+  startTime: string | undefined
+): Promise<boolean> {
+  return startTime !== undefined && (await processStartTime(pid)) === startTime;
+}
@@ -0,0 +1,68 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+// A workspace folder is an HTFlow project when it has this file at its root
+export const PROJECT_CONFIG_FILE = ".htflowrc.json";
+
+export type HTFlowProject = {
+  workspaceFolder: vscode.WorkspaceFolder;
+  // Whether the folder has an .htflowrc.json
+  configured: boolean;
+};
+
+export function detectProjects(): HTFlowProject[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((workspaceFolder) => ({
+    workspaceFolder,
+    configured: fs.existsSync(
+      path.join(workspaceFolder.uri.fsPath, PROJECT_CONFIG_FILE)
+    ),
+  }));
+}
+
+export function findWorkspaceFolder(
+  uri: string
+): vscode.WorkspaceFolder | undefined {
+  return vscode.workspace.workspaceFolders?.find(
+    (folder) => folder.uri.toString() === uri
+  );
+}
+
+// Ask which workspace folder a command should run in. There is no prompt
+// when only one folder (or only one HTFlow project) is open. `preferred`
+// is listed first, e.g. the project selected in the panel.
+export async function pickWorkspaceFolder(
+  preferred?: vscode.WorkspaceFolder
+): Promise<vscode.WorkspaceFolder | undefined> {
+  const projects = detectProjects();
+  if (projects.length === 0) {
+    vscode.window.showErrorMessage("No workspace folder found");
+    return undefined;
+  }
+
+  const configured = projects.filter((project) => project.configured);
+  const candidates = configured.length > 0 ? configured : projects;
+  if (candidates.length === 1) {
+    return candidates[0].workspaceFolder;
+  }
+
+  const items = candidates
+    .map((project) => ({
+      label: project.workspaceFolder.name,
+      description: project.configured ? PROJECT_CONFIG_FILE : undefined,
+      detail: project.workspaceFolder.uri.fsPath,
+      workspaceFolder: project.workspaceFolder,
+    }))
+    .sort((a, b) =>
+      a.workspaceFolder === preferred
+        ? -1
+        : b.workspaceFolder === preferred
+        ? 1
+        : 0
+    );
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select an HTFlow project",
+  });
+  return picked?.workspaceFolder;
+}
@@ -0,0 +1,1576 @@
+import { parse } from "@babel/parser";
+import * as t from "@babel/types";
+import * as path from "path";
+import {
+  addAccessibilityAttributes,
+  addUniqueClasses,
+  extractInlineStyles,
+  parseHtml,
+  serializeHtml,
+  wrapBody,
+} from "./htmlConverter";
+
+// Renders a static React component (.jsx/.tsx) to an HTFlow page: the
+// component is evaluated with its default props, className and style
+// objects become classes and a stylesheet, and event handlers become
+// data-ht-* hooks in a script stub. Anything that depends on runtime state
+// (fetches, context, unknown expressions) is left out and reported.
+
+export type ReactWarning = {
+  // 1-based line in the component file
+  line: number;
+  message: string;
+};
+
+export type ReactConversion = {
+  componentName: string;
+  html: string;
+  css: string;
+  js: string;
+  warnings: ReactWarning[];
+};
+
+// ----- Values -----
+
+// A JSX expression or identifier that cannot be known statically
+class Dynamic {
+  constructor(public readonly source: string) {}
+}
+
+// Rendered JSX
+class Markup {
+  constructor(public readonly nodes: HtmlNode[]) {}
+}
+
+class Closure {
+  constructor(public readonly node: t.Function, public readonly scope: Scope) {}
+}
+
+// `import styles from "./Card.module.css"`: styles.card is the class "card"
+class CssModule {
+  constructor(public readonly specifier: string) {}
+}
+
+type Value =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Value[]
+  | { [key: string]: Value }
+  | Dynamic
+  | Markup
+  | Closure
+  | CssModule;
+
+type HtmlNode =
+  | {
+      kind: "element";
+      tag: string;
+      attributes: [string, string | true][];
+      children: HtmlNode[];
+    }
+  // Text and raw markup are already escaped
+  | { kind: "text"; html: string }
+  | { kind: "comment"; text: string };
+
+type EventHook = {
+  name: string;
+  event: string;
+  // Source of the React handler, kept as a comment in the stub
+  source: string;
+};
+
+class Scope {
+  private _values: Map<string, Value> = new Map();
+
+  constructor(private readonly _parent?: Scope) {}
+
+  public has(name: string): boolean {
+    return this._values.has(name) || !!this._parent?.has(name);
+  }
+
+  public get(name: string): Value {
+    return this._values.has(name)
+      ? this._values.get(name)
+      : this._parent?.get(name);
+  }
+
+  public set(name: string, value: Value) {
+    this._values.set(name, value);
+  }
+}
+
+const VOID_ELEMENTS = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+];
+
+// Kept on the same line as surrounding text when formatting
+const INLINE_ELEMENTS = [
+  "a",
+  "abbr",
+  "b",
+  "br",
+  "button",
+  "cite",
+  "code",
+  "em",
+  "i",
+  "img",
+  "input",
+  "kbd",
+  "label",
+  "mark",
+  "q",
+  "s",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "u",
+];
+
+// Numeric style values React leaves without a px unit
+const UNITLESS_PROPERTIES = [
+  "animationIterationCount",
+  "aspectRatio",
+  "columnCount",
+  "flex",
+  "flexGrow",
+  "flexShrink",
+  "fontWeight",
+  "gridColumn",
+  "gridColumnEnd",
+  "gridColumnStart",
+  "gridRow",
+  "gridRowEnd",
+  "gridRowStart",
+  "lineHeight",
+  "opacity",
+  "order",
+  "orphans",
+  "scale",
+  "tabSize",
+  "widows",
+  "zIndex",
+  "zoom",
+];
+
+// camelCase SVG attributes that keep their case in markup
+const SVG_CAMEL_ATTRIBUTES = [
+  "viewBox",
+  "preserveAspectRatio",
+  "gradientTransform",
+  "gradientUnits",
+  "patternUnits",
+  "patternTransform",
+  "clipPathUnits",
+  "markerWidth",
+  "markerHeight",
+  "refX",
+  "refY",
+  "stdDeviation",
+  "textLength",
+  "pathLength",
+  "spreadMethod",
+];
+
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  className: "class",
+  htmlFor: "for",
+  acceptCharset: "accept-charset",
+  httpEquiv: "http-equiv",
+  defaultValue: "value",
+  defaultChecked: "checked",
+  xlinkHref: "xlink:href",
+};
+
+// React event props whose DOM event is not just the lowercased name
+const EVENT_NAMES: Record<string, string> = {
+  DoubleClick: "dblclick",
+};
+
+// Nested components deeper than this are assumed to recurse
+const MAX_DEPTH = 32;
+
+export function convertReactComponent(
+  source: string,
+  fileName: string
+): ReactConversion {
+  return new ReactRenderer(source, fileName).convert();
+}
+
+class ReactRenderer {
+  private readonly _file: t.File;
+  // Babel nodes have no parent links; filled once after parsing
+  private readonly _parents = new WeakMap<t.Node, t.Node>();
+  private readonly _module = new Scope();
+  private _warnings: ReactWarning[] = [];
+  private _hooks: EventHook[] = [];
+  private _depth = 0;
+  private _componentName = "";
+
+  constructor(
+    private readonly _source: string,
+    private readonly _fileName: string
+  ) {
+    this._file = parse(_source, {
+      sourceType: "module",
+      plugins: /\.tsx$/i.test(_fileName) ? ["jsx", "typescript"] : ["jsx"],
+    });
+    this.linkParents(this._file.program);
+  }
+
+  public convert(): ReactConversion {
+    const component = this.loadModule();
+    if (!component) {
+      throw new Error(`No React component found in ${this._fileName}`);
+    }
+
+    this._componentName = component.name;
+    const markup = this.callComponent(component.closure, component.props);
+    const body = this.toNodes(markup, component.closure.node);
+    return this.assemble(body);
+  }
+
+  // Bind the module's imports, constants and functions, and pick the
+  // component to render: the default export, else the first exported or
+  // declared one
+  private loadModule():
+    | { name: string; closure: Closure; props: Record<string, Value> }
+    | undefined {
+    const candidates: {
+      name: string;
+      exported: boolean;
+      isDefault: boolean;
+    }[] = [];
+    const defaultProps = new Map<string, t.Expression>();
+
+    for (const item of this._file.program.body) {
+      const exported =
+        t.isExportNamedDeclaration(item) || t.isExportDefaultDeclaration(item);
+      const isDefault = t.isExportDefaultDeclaration(item);
+      const statement =
+        t.isExportNamedDeclaration(item) || t.isExportDefaultDeclaration(item)
+          ? item.declaration
+          : item;
+
+      if (t.isImportDeclaration(statement)) {
+        this.bindImport(statement);
+      } else if (t.isFunctionDeclaration(statement) && statement.id) {
+        const name = statement.id.name;
+        this._module.set(name, new Closure(statement, this._module));
+        candidates.push({ name, exported, isDefault });
+      } else if (t.isVariableDeclaration(statement)) {
+        for (const declaration of statement.declarations) {
+          this.bindDeclaration(declaration, this._module);
+          if (t.isIdentifier(declaration.id)) {
+            candidates.push({
+              name: declaration.id.name,
+              exported,
+              isDefault: false,
+            });
+          }
+        }
+      } else if (isDefault && t.isExpression(statement)) {
+        const value = this.evaluate(statement, this._module);
+        if (value instanceof Closure) {
+          const name = t.isIdentifier(statement)
+            ? statement.name
+            : componentNameFromFile(this._fileName);
+          this._module.set(name, value);
+          candidates.push({ name, exported: true, isDefault: true });
+        }
+      } else if (
+        t.isExpressionStatement(statement) &&
+        t.isAssignmentExpression(statement.expression, { operator: "=" }) &&
+        t.isMemberExpression(statement.expression.left, { computed: false }) &&
+        t.isIdentifier(statement.expression.left.property, {
+          name: "defaultProps",
+        }) &&
+        t.isIdentifier(statement.expression.left.object)
+      ) {
+        // Card.defaultProps = { ... }
+        defaultProps.set(
+          statement.expression.left.object.name,
+          statement.expression.right
+        );
+      }
+    }
+
+    const components = candidates.filter(
+      (candidate) =>
+        /^[A-Z]/.test(candidate.name) &&
+        this._module.get(candidate.name) instanceof Closure
+    );
+    const chosen =
+      components.find((candidate) => candidate.isDefault) ??
+      components.find((candidate) => candidate.exported) ??
+      components[0];
+    if (!chosen) {
+      return undefined;
+    }
+
+    const closure = this._module.get(chosen.name) as Closure;
+    const defaults = defaultProps.get(chosen.name);
+    const props = defaults ? this.evaluate(defaults, this._module) : {};
+    return {
+      name: chosen.name,
+      closure,
+      props: isObject(props) ? props : {},
+    };
+  }
+
+  private bindImport(statement: t.ImportDeclaration) {
+    const specifiers = statement.specifiers;
+    if (specifiers.length === 0) {
+      return;
+    }
+
+    const specifier = statement.source.value;
+    if (/\.(css|scss|sass|less)$/i.test(specifier)) {
+      const cssModule = new CssModule(specifier);
+      this.warn(
+        statement,
+        `Class names from ${specifier} are used as written; copy its rules into the stylesheet`
+      );
+      for (const imported of specifiers) {
+        if (!t.isImportSpecifier(imported)) {
+          this._module.set(imported.local.name, cssModule);
+        }
+      }
+      return;
+    }
+
+    for (const imported of specifiers) {
+      const name = imported.local.name;
+      this._module.set(name, new Dynamic(`${name} from "${specifier}"`));
+    }
+  }
+
+  // ----- Components -----
+
+  private callComponent(closure: Closure, props: Record<string, Value>) {
+    if (this._depth >= MAX_DEPTH) {
+      this.warn(closure.node, "Components nest too deeply; stopped rendering");
+      return undefined;
+    }
+
+    this._depth++;
+    try {
+      return this.callFunction(closure, [props]);
+    } finally {
+      this._depth--;
+    }
+  }
+
+  private callFunction(closure: Closure, args: Value[]): Value {
+    const scope = new Scope(closure.scope);
+    closure.node.params.forEach((parameter, index) => {
+      if (t.isRestElement(parameter)) {
+        this.bindName(parameter.argument, args.slice(index), undefined, scope);
+      } else if (t.isAssignmentPattern(parameter)) {
+        this.bindName(parameter.left, args[index], parameter.right, scope);
+      } else if (!t.isTSParameterProperty(parameter)) {
+        this.bindName(parameter, args[index], undefined, scope);
+      }
+    });
+
+    const body = closure.node.body;
+    if (!t.isBlockStatement(body)) {
+      return this.evaluate(body, scope);
+    }
+    return this.runStatements(body.body, scope).value;
+  }
+
+  // Runs a function body far enough to find what it returns
+  private runStatements(
+    statements: t.Statement[],
+    scope: Scope
+  ): { returned: boolean; value: Value } {
+    for (const statement of statements) {
+      if (t.isReturnStatement(statement)) {
+        return {
+          returned: true,
+          value: statement.argument
+            ? this.evaluate(statement.argument, scope)
+            : undefined,
+        };
+      }
+
+      if (t.isVariableDeclaration(statement)) {
+        statement.declarations.forEach((declaration) =>
+          this.bindDeclaration(declaration, scope)
+        );
+      } else if (t.isFunctionDeclaration(statement) && statement.id) {
+        scope.set(statement.id.name, new Closure(statement, scope));
+      } else if (t.isIfStatement(statement)) {
+        const condition = this.evaluate(statement.test, scope);
+        let branch: t.Statement | null | undefined = statement.alternate;
+        if (condition instanceof Dynamic) {
+          this.warn(
+            statement.test,
+            `Condition \`${condition.source}\` cannot be evaluated; rendered as false`
+          );
+        } else if (isTruthy(condition)) {
+          branch = statement.consequent;
+        }
+        if (branch) {
+          const result = this.runStatements(
+            t.isBlockStatement(branch) ? branch.body : [branch],
+            new Scope(scope)
+          );
+          if (result.returned) {
+            return result;
+          }
+        }
+      } else if (t.isExpressionStatement(statement)) {
+        this.runHook(statement.expression, scope);
+      } else if (!t.isEmptyStatement(statement)) {
+        this.warn(statement, "Statement skipped in the static render");
+      }
+    }
+    return { returned: false, value: undefined };
+  }
+
+  private bindDeclaration(declaration: t.VariableDeclarator, scope: Scope) {
+    const initializer = declaration.init;
+    if (!initializer) {
+      this.bindName(declaration.id, undefined, undefined, scope);
+      return;
+    }
+
+    const hook = this.runHook(initializer, scope);
+    this.bindName(
+      declaration.id,
+      hook.handled ? hook.value : this.evaluate(initializer, scope),
+      undefined,
+      scope
+    );
+  }
+
+  private bindName(
+    name: t.Node,
+    value: Value,
+    initializer: t.Expression | undefined,
+    scope: Scope
+  ) {
+    if (value === undefined && initializer) {
+      value = this.evaluate(initializer, scope);
+    }
+
+    if (t.isAssignmentPattern(name)) {
+      this.bindName(name.left, value, name.right, scope);
+      return;
+    }
+
+    if (t.isIdentifier(name)) {
+      scope.set(name.name, value);
+      return;
+    }
+
+    if (t.isArrayPattern(name)) {
+      name.elements.forEach((element, index) => {
+        if (!element) {
+          return;
+        }
+        const rest = t.isRestElement(element);
+        const item = Array.isArray(value)
+          ? rest
+            ? value.slice(index)
+            : value[index]
+          : value instanceof Dynamic
+          ? value
+          : undefined;
+        this.bindName(
+          rest ? element.argument : element,
+          item,
+          undefined,
+          scope
+        );
+      });
+      return;
+    }
+
+    if (!t.isObjectPattern(name)) {
+      return;
+    }
+
+    const used: string[] = [];
+    for (const element of name.properties) {
+      if (t.isRestElement(element)) {
+        const rest = isObject(value)
+          ? Object.fromEntries(
+              Object.entries(value).filter(([key]) => !used.includes(key))
+            )
+          : value;
+        this.bindName(element.argument, rest, undefined, scope);
+        continue;
+      }
+
+      const key = element.computed ? undefined : propertyName(element.key);
+      if (key === undefined) {
+        continue;
+      }
+      used.push(key);
+      const item =
+        value instanceof Dynamic
+          ? new Dynamic(`${value.source}.${key}`)
+          : isObject(value)
+          ? value[key]
+          : undefined;
+      this.bindName(element.value, item, undefined, scope);
+    }
+  }
+
+  // React hooks. State renders its initial value, memos are computed and
+  // effects are reported since nothing runs them.
+  private runHook(
+    expression: t.Expression,
+    scope: Scope
+  ): { handled: boolean; value?: Value } {
+    if (!t.isCallExpression(expression)) {
+      return { handled: false };
+    }
+    const name = calleeName(expression.callee);
+    if (!name || !/^use[A-Z]/.test(name)) {
+      return { handled: false };
+    }
+
+    const [first] = expression.arguments;
+    switch (name) {
+      case "useState":
+      case "useReducer": {
+        const initial = first
+          ? this.evaluate(
+              name === "useReducer" ? expression.arguments[1] ?? first : first,
+              scope
+            )
+          : undefined;
+        const value =
+          initial instanceof Closure ? this.callFunction(initial, []) : initial;
+        this.warn(
+          expression,
+          `${name} renders its initial state; updates need the script stub`
+        );
+        return { handled: true, value: [value, new Dynamic(`${name} setter`)] };
+      }
+      case "useMemo": {
+        const factory = first && this.evaluate(first, scope);
+        return {
+          handled: true,
+          value:
+            factory instanceof Closure
+              ? this.callFunction(factory, [])
+              : this.dynamic(expression),
+        };
+      }
+      case "useCallback":
+        return { handled: true, value: first && this.evaluate(first, scope) };
+      case "useRef":
+        return {
+          handled: true,
+          value: { current: first ? this.evaluate(first, scope) : null },
+        };
+      case "useEffect":
+      case "useLayoutEffect":
+        this.warn(
+          expression,
+          `${name} does not run in static HTML; port it to the script stub`
+        );
+        return { handled: true, value: undefined };
+      case "useId":
+        return { handled: true, value: `${this._componentName}-id` };
+      default:
+        this.warn(
+          expression,
+          `${name}() cannot run in static HTML; its result is left out`
+        );
+        return { handled: true, value: new Dynamic(`${name}()`) };
+    }
+  }
+
+  // ----- Expressions -----
+
+  // Anything that is not an expression (spread arguments, holes) evaluates
+  // to a Dynamic
+  private evaluate(node: t.Node, scope: Scope): Value {
+    if (t.isStringLiteral(node)) {
+      return node.value;
+    }
+    if (t.isNumericLiteral(node) || t.isBooleanLiteral(node)) {
+      return node.value;
+    }
+    if (t.isNullLiteral(node)) {
+      return null;
+    }
+
+    if (
+      t.isParenthesizedExpression(node) ||
+      t.isTSAsExpression(node) ||
+      t.isTSNonNullExpression(node) ||
+      t.isTSTypeAssertion(node) ||
+      t.isTSSatisfiesExpression(node)
+    ) {
+      return this.evaluate(node.expression, scope);
+    }
+
+    if (t.isIdentifier(node)) {
+      if (node.name === "undefined") {
+        return undefined;
+      }
+      return scope.has(node.name) ? scope.get(node.name) : this.dynamic(node);
+    }
+
+    if (t.isTemplateLiteral(node)) {
+      let text = templateText(node.quasis[0]);
+      for (const [index, expression] of node.expressions.entries()) {
+        const value = this.evaluate(expression, scope);
+        if (!isPrimitive(value)) {
+          return this.dynamic(node);
+        }
+        text += String(value) + templateText(node.quasis[index + 1]);
+      }
+      return text;
+    }
+
+    if (t.isArrayExpression(node)) {
+      const items: Value[] = [];
+      for (const element of node.elements) {
+        if (t.isSpreadElement(element)) {
+          const spread = this.evaluate(element.argument, scope);
+          if (!Array.isArray(spread)) {
+            return this.dynamic(node);
+          }
+          items.push(...spread);
+        } else {
+          items.push(element ? this.evaluate(element, scope) : undefined);
+        }
+      }
+      return items;
+    }
+
+    if (t.isObjectExpression(node)) {
+      return this.evaluateObject(node, scope);
+    }
+
+    if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+      return new Closure(node, scope);
+    }
+
+    if (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) {
+      const target = this.evaluate(node.object, scope);
+      const key = node.computed
+        ? this.evaluate(node.property, scope)
+        : propertyName(node.property);
+      if (node.optional && (target === null || target === undefined)) {
+        return undefined;
+      }
+      return this.member(target, key, node);
+    }
+
+    if (t.isUnaryExpression(node)) {
+      const operand = this.evaluate(node.argument, scope);
+      if (operand instanceof Dynamic) {
+        return this.dynamic(node);
+      }
+      switch (node.operator) {
+        case "!":
+          return !isTruthy(operand);
+        case "-":
+          return -Number(operand);
+        case "+":
+          return Number(operand);
+      }
+      return this.dynamic(node);
+    }
+
+    if (t.isLogicalExpression(node)) {
+      return this.evaluateLogical(node, scope);
+    }
+    if (t.isBinaryExpression(node)) {
+      return this.evaluateBinary(node, scope);
+    }
+
+    if (t.isConditionalExpression(node)) {
+      const condition = this.evaluate(node.test, scope);
+      if (condition instanceof Dynamic) {
+        this.warn(
+          node.test,
+          `Condition \`${condition.source}\` cannot be evaluated; rendered the second branch`
+        );
+        return this.evaluate(node.alternate, scope);
+      }
+      return this.evaluate(
+        isTruthy(condition) ? node.consequent : node.alternate,
+        scope
+      );
+    }
+
+    if (t.isCallExpression(node) || t.isOptionalCallExpression(node)) {
+      return this.evaluateCall(node, scope);
+    }
+
+    if (t.isJSXElement(node) || t.isJSXFragment(node)) {
+      return new Markup(this.renderJsx(node, scope));
+    }
+
+    return this.dynamic(node);
+  }
+
+  private evaluateObject(node: t.ObjectExpression, scope: Scope): Value {
+    const result: { [key: string]: Value } = {};
+    for (const property of node.properties) {
+      if (t.isObjectProperty(property)) {
+        const key = property.computed
+          ? this.evaluate(property.key, scope)
+          : propertyName(property.key);
+        if (!isPrimitive(key) || key === undefined || key === null) {
+          return this.dynamic(node);
+        }
+        result[String(key)] = this.evaluate(property.value, scope);
+      } else if (t.isSpreadElement(property)) {
+        const spread = this.evaluate(property.argument, scope);
+        if (!isObject(spread)) {
+          return this.dynamic(node);
+        }
+        Object.assign(result, spread);
+      } else if (property.kind === "method" && !property.computed) {
+        const key = propertyName(property.key);
+        if (key !== undefined) {
+          result[key] = new Closure(property, scope);
+        }
+      }
+    }
+    return result;
+  }
+
+  private member(target: Value, key: Value, node: t.Node): Value {
+    if (target instanceof CssModule && typeof key === "string") {
+      return key;
+    }
+    if (target instanceof Dynamic || !isPrimitive(key)) {
+      return this.dynamic(node);
+    }
+    if (typeof target === "string" || Array.isArray(target)) {
+      if (key === "length") {
+        return target.length;
+      }
+      return typeof key === "number" ? target[key] : this.dynamic(node);
+    }
+    if (isObject(target)) {
+      return Object.prototype.hasOwnProperty.call(target, String(key))
+        ? target[String(key)]
+        : undefined;
+    }
+    return this.dynamic(node);
+  }
+
+  // Short-circuit operators only need the right side when it is taken
+  private evaluateLogical(node: t.LogicalExpression, scope: Scope): Value {
+    const left = this.evaluate(node.left, scope);
+    if (left instanceof Dynamic) {
+      this.warn(
+        node.left,
+        `\`${left.source}\` cannot be evaluated; \`${this.text(
+          node
+        )}\` is left out`
+      );
+      return undefined;
+    }
+    if (node.operator === "&&") {
+      return isTruthy(left) ? this.evaluate(node.right, scope) : left;
+    }
+    if (node.operator === "||") {
+      return isTruthy(left) ? left : this.evaluate(node.right, scope);
+    }
+    return left === null || left === undefined
+      ? this.evaluate(node.right, scope)
+      : left;
+  }
+
+  private evaluateBinary(node: t.BinaryExpression, scope: Scope): Value {
+    const left = this.evaluate(node.left, scope);
+    const right = this.evaluate(node.right, scope);
+    if (!isPrimitive(left) || !isPrimitive(right)) {
+      return this.dynamic(node);
+    }
+    const a = left as any;
+    const b = right as any;
+    switch (node.operator) {
+      case "+":
+        return a + b;
+      case "-":
+        return a - b;
+      case "*":
+        return a * b;
+      case "/":
+        return a / b;
+      case "%":
+        return a % b;
+      case "===":
+        return a === b;
+      case "!==":
+        return a !== b;
+      case "==":
+        return a == b;
+      case "!=":
+        return a != b;
+      case "<":
+        return a < b;
+      case ">":
+        return a > b;
+      case "<=":
+        return a <= b;
+      case ">=":
+        return a >= b;
+    }
+    return this.dynamic(node);
+  }
+
+  private evaluateCall(
+    node: t.CallExpression | t.OptionalCallExpression,
+    scope: Scope
+  ): Value {
+    const name = calleeName(node.callee);
+    const args = node.arguments.map((argument) =>
+      this.evaluate(argument, scope)
+    );
+
+    if (name && /^(React\.)?(memo|forwardRef)$/.test(name)) {
+      return args[0];
+    }
+    if (name === "String" && isPrimitive(args[0])) {
+      return String(args[0]);
+    }
+    if (name === "Number" && isPrimitive(args[0])) {
+      return Number(args[0]);
+    }
+    if (
+      name &&
+      /^Object\.(keys|values|entries)$/.test(name) &&
+      isObject(args[0])
+    ) {
+      const object = args[0];
+      return name === "Object.keys"
+        ? Object.keys(object)
+        : name === "Object.values"
+        ? Object.values(object)
+        : Object.entries(object);
+    }
+
+    if (
+      (t.isMemberExpression(node.callee) ||
+        t.isOptionalMemberExpression(node.callee)) &&
+      !node.callee.computed &&
+      t.isIdentifier(node.callee.property)
+    ) {
+      const target = this.evaluate(node.callee.object, scope);
+      const result = this.callMethod(
+        target,
+        node.callee.property.name,
+        args,
+        node
+      );
+      if (result !== NOT_HANDLED) {
+        return result;
+      }
+    }
+
+    const callee = this.evaluate(node.callee, scope);
+    if (callee instanceof Closure) {
+      return this.callFunction(callee, args);
+    }
+    return this.dynamic(node);
+  }
+
+  private callMethod(
+    target: Value,
+    method: string,
+    args: Value[],
+    node: t.Node
+  ): Value | typeof NOT_HANDLED {
+    if (Array.isArray(target)) {
+      const [callback] = args;
+      switch (method) {
+        case "map":
+          return callback instanceof Closure
+            ? target.map((item, index) =>
+                this.callFunction(callback, [item, index, target])
+              )
+            : this.dynamic(node);
+        case "filter":
+          if (callback instanceof Dynamic && callback.source === "Boolean") {
+            return target.filter(isTruthy);
+          }
+          return callback instanceof Closure
+            ? target.filter((item, index) =>
+                isTruthy(this.callFunction(callback, [item, index, target]))
+              )
+            : this.dynamic(node);
+        case "join":
+          return target.every(isPrimitive)
+            ? target.join(args[0] === undefined ? "," : String(args[0]))
+            : this.dynamic(node);
+        case "slice":
+          return target.slice(args[0] as number, args[1] as number);
+        case "concat":
+          return target.concat(...(args as Value[][]));
+        case "includes":
+          return target.includes(args[0]);
+      }
+    }
+
+    if (typeof target === "string") {
+      switch (method) {
+        case "toUpperCase":
+          return target.toUpperCase();
+        case "toLowerCase":
+          return target.toLowerCase();
+        case "trim":
+          return target.trim();
+        case "split":
+          return typeof args[0] === "string"
+            ? target.split(args[0])
+            : this.dynamic(node);
+        case "slice":
+          return target.slice(args[0] as number, args[1] as number);
+        case "includes":
+          return target.includes(String(args[0]));
+      }
+    }
+
+    if (typeof target === "number" && method === "toFixed") {
+      return target.toFixed(args[0] as number);
+    }
+    return NOT_HANDLED;
+  }
+
+  // ----- JSX -----
+
+  private renderJsx(
+    node: t.JSXElement | t.JSXFragment,
+    scope: Scope
+  ): HtmlNode[] {
+    if (t.isJSXFragment(node)) {
+      return this.renderChildren(node.children, scope);
+    }
+
+    const opening = node.openingElement;
+    const tagName = this.text(opening.name);
+    const children = opening.selfClosing ? undefined : node.children;
+
+    if (/^(React\.)?Fragment$/.test(tagName)) {
+      return children ? this.renderChildren(children, scope) : [];
+    }
+
+    const props = this.evaluateAttributes(opening.attributes, scope);
+    if (/^[a-z][\w-]*$/.test(tagName)) {
+      return [this.renderElement(tagName, props, children, scope, opening)];
+    }
+
+    // Capitalized tags and Foo.Bar are components
+    const component = this.evaluateTagName(opening.name, scope);
+    if (!(component instanceof Closure)) {
+      this.warn(
+        opening,
+        `<${tagName}> is not defined in this file and is not rendered; add its markup by hand`
+      );
+      return [{ kind: "comment", text: `<${tagName}>` }];
+    }
+
+    const componentProps: Record<string, Value> = {};
+    props.forEach(({ value }, name) => {
+      componentProps[name] = value;
+    });
+    if (children && children.length > 0) {
+      componentProps.children = new Markup(
+        this.renderChildren(children, scope)
+      );
+    }
+    return this.toNodes(this.callComponent(component, componentProps), opening);
+  }
+
+  private evaluateTagName(
+    name: t.JSXOpeningElement["name"],
+    scope: Scope
+  ): Value {
+    if (t.isJSXIdentifier(name)) {
+      return scope.has(name.name) ? scope.get(name.name) : this.dynamic(name);
+    }
+    if (t.isJSXMemberExpression(name)) {
+      const target = this.evaluateTagName(name.object, scope);
+      return this.member(target, name.property.name, name);
+    }
+    return this.dynamic(name);
+  }
+
+  private evaluateAttributes(
+    attributes: t.JSXOpeningElement["attributes"],
+    scope: Scope
+  ): Map<string, { value: Value; node: t.Node }> {
+    const props = new Map<string, { value: Value; node: t.Node }>();
+    for (const attribute of attributes) {
+      if (t.isJSXSpreadAttribute(attribute)) {
+        const spread = this.evaluate(attribute.argument, scope);
+        if (isObject(spread)) {
+          Object.entries(spread).forEach(([name, value]) =>
+            props.set(name, { value, node: attribute })
+          );
+        } else {
+          this.warn(
+            attribute,
+            `Spread props \`${this.text(
+              attribute.argument
+            )}\` cannot be evaluated`
+          );
+        }
+        continue;
+      }
+
+      const name = this.text(attribute.name);
+      const initializer = attribute.value;
+      let value: Value = true;
+      if (t.isStringLiteral(initializer)) {
+        value = initializer.value;
+      } else if (t.isJSXExpressionContainer(initializer)) {
+        value = t.isJSXEmptyExpression(initializer.expression)
+          ? undefined
+          : this.evaluate(initializer.expression, scope);
+      } else if (initializer) {
+        value = this.evaluate(initializer, scope);
+      }
+      props.set(name, { value, node: attribute });
+    }
+    return props;
+  }
+
+  private renderElement(
+    tag: string,
+    props: Map<string, { value: Value; node: t.Node }>,
+    children: t.JSXElement["children"] | undefined,
+    scope: Scope,
+    opening: t.Node
+  ): HtmlNode {
+    const attributes: [string, string | true][] = [];
+    let content: HtmlNode[] | undefined;
+    const isSvg = tag === "svg" || this.isInsideSvg(opening);
+
+    props.forEach(({ value, node }, name) => {
+      if (name === "key" || name === "ref" || name === "children") {
+        return;
+      }
+
+      if (/^on[A-Z]/.test(name)) {
+        attributes.push([this.addHook(tag, name, value, node), true]);
+        return;
+      }
+
+      if (name === "dangerouslySetInnerHTML") {
+        const html = isObject(value) ? value.__html : undefined;
+        if (typeof html === "string") {
+          content = [{ kind: "text", html }];
+        } else {
+          this.warn(node, "dangerouslySetInnerHTML cannot be evaluated");
+        }
+        return;
+      }
+
+      if (value instanceof Dynamic) {
+        this.warn(
+          node,
+          `\`${value.source}\` cannot be evaluated; the ${name} attribute is left out`
+        );
+        return;
+      }
+
+      if (name === "style") {
+        const style = this.toInlineStyle(value, node);
+        if (style) {
+          attributes.push(["style", style]);
+        }
+        return;
+      }
+
+      if (name === "className" || name === "class") {
+        const classes = Array.isArray(value)
+          ? value.filter(isTruthy).join(" ")
+          : value;
+        if (typeof classes === "string" && classes.trim()) {
+          attributes.push(["class", classes.trim().replace(/\s+/g, " ")]);
+        }
+        return;
+      }
+
+      const attribute = toAttributeName(name, isSvg);
+      if (value === true) {
+        attributes.push([
+          attribute,
+          /^(aria|data)-/.test(attribute) ? "true" : true,
+        ]);
+      } else if (value === false && /^aria-/.test(attribute)) {
+        attributes.push([attribute, "false"]);
+      } else if (typeof value === "string" || typeof value === "number") {
+        attributes.push([attribute, String(value)]);
+      } else if (value !== false && value !== null && value !== undefined) {
+        this.warn(node, `The ${name} prop has no HTML equivalent`);
+      }
+    });
+
+    if (!content) {
+      content = children ? this.renderChildren(children, scope) : [];
+      const childrenProp = props.get("children");
+      if (content.length === 0 && childrenProp) {
+        content = this.toNodes(childrenProp.value, childrenProp.node);
+      }
+    }
+
+    return {
+      kind: "element",
+      tag,
+      attributes,
+      children: VOID_ELEMENTS.includes(tag) ? [] : content,
+    };
+  }
+
+  private renderChildren(
+    children: t.JSXElement["children"],
+    scope: Scope
+  ): HtmlNode[] {
+    const nodes: HtmlNode[] = [];
+    for (const child of children) {
+      if (t.isJSXText(child)) {
+        // The source text, with its entities still escaped
+        const text = jsxText(this.text(child));
+        if (text) {
+          nodes.push({ kind: "text", html: text });
+        }
+      } else if (
+        t.isJSXExpressionContainer(child) ||
+        t.isJSXSpreadChild(child)
+      ) {
+        if (!t.isJSXEmptyExpression(child.expression)) {
+          nodes.push(
+            ...this.toNodes(this.evaluate(child.expression, scope), child)
+          );
+        }
+      } else {
+        nodes.push(...this.renderJsx(child, scope));
+      }
+    }
+    return nodes;
+  }
+
+  // What a value renders as inside JSX
+  private toNodes(value: Value, node: t.Node): HtmlNode[] {
+    if (value instanceof Markup) {
+      return value.nodes;
+    }
+    if (typeof value === "string" || typeof value === "number") {
+      return [{ kind: "text", html: escapeHtml(String(value)) }];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap((item) => this.toNodes(item, node));
+    }
+    if (value instanceof Dynamic) {
+      this.warn(
+        node,
+        `\`${value.source}\` cannot be evaluated and is not rendered`
+      );
+      return [{ kind: "comment", text: value.source }];
+    }
+    if (value === null || value === undefined || typeof value === "boolean") {
+      return [];
+    }
+    this.warn(node, "An object or function cannot be rendered as markup");
+    return [];
+  }
+
+  // { marginTop: 8, backgroundColor: "red" } -> "margin-top: 8px; ..."
+  private toInlineStyle(value: Value, node: t.Node): string | undefined {
+    if (typeof value === "string") {
+      return value;
+    }
+    if (!isObject(value)) {
+      this.warn(node, "The style prop cannot be evaluated");
+      return undefined;
+    }
+
+    const declarations: string[] = [];
+    for (const [property, item] of Object.entries(value)) {
+      if (item === null || item === undefined || item === false) {
+        continue;
+      }
+      if (!isPrimitive(item)) {
+        this.warn(
+          node,
+          `The ${property} style cannot be evaluated and is left out`
+        );
+        continue;
+      }
+      const css = property.startsWith("--")
+        ? property
+        : property
+            .replace(
+              /^(Webkit|Moz|O|ms)(?=[A-Z])/,
+              (prefix) => `-${prefix.toLowerCase()}`
+            )
+            .replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)
+            .toLowerCase();
+      const unit =
+        typeof item === "number" &&
+        item !== 0 &&
+        !UNITLESS_PROPERTIES.includes(property) &&
+        !property.startsWith("--")
+          ? "px"
+          : "";
+      declarations.push(`${css}: ${item}${unit}`);
+    }
+    return declarations.length > 0 ? declarations.join("; ") : undefined;
+  }
+
+  // onClick={handleMenuToggle} -> data-ht-menu-toggle, wired up in the
+  // script stub
+  private addHook(
+    tag: string,
+    prop: string,
+    value: Value,
+    node: t.Node
+  ): string {
+    const reactEvent = prop.slice(2);
+    const event =
+      EVENT_NAMES[reactEvent] ??
+      (reactEvent === "Change" && ["input", "textarea"].includes(tag)
+        ? "input"
+        : reactEvent.toLowerCase());
+
+    const expression =
+      t.isJSXAttribute(node) &&
+      t.isJSXExpressionContainer(node.value) &&
+      !t.isJSXEmptyExpression(node.value.expression)
+        ? node.value.expression
+        : undefined;
+    const handlerName = t.isIdentifier(expression) ? expression.name : "";
+    const base =
+      toKebabCase(handlerName.replace(/^(handle|on)(?=[A-Z])/, "")) ||
+      `${toKebabCase(this._componentName)}-${tag}-${event}`;
+    let source = expression ? this.text(expression) : "";
+    if (value instanceof Closure) {
+      const parent = this._parents.get(value.node);
+      source = this.text(
+        parent && t.isVariableDeclarator(parent) ? parent : value.node
+      );
+    }
+
+    // The same handler on several elements shares one hook
+    let name = base;
+    for (let count = 2; ; count++) {
+      const existing = this._hooks.find((hook) => hook.name === name);
+      if (!existing) {
+        this._hooks.push({ name, event, source });
+        break;
+      }
+      if (existing.event === event && existing.source === source) {
+        break;
+      }
+      name = `${base}-${count}`;
+    }
+    return `data-ht-${name}`;
+  }
+
+  private isInsideSvg(node: t.Node): boolean {
+    for (
+      let parent = this._parents.get(node);
+      parent;
+      parent = this._parents.get(parent)
+    ) {
+      if (
+        t.isJSXElement(parent) &&
+        this.text(parent.openingElement.name) === "svg"
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // ----- Output -----
+
+  private assemble(body: HtmlNode[]): ReactConversion {
+    const name = this._componentName;
+    const page = [
+      "<!DOCTYPE html>",
+      '<html lang="en">',
+      "  <head>",
+      '    <meta charset="UTF-8">',
+      '    <meta name="viewport" content="width=device-width, initial-scale=1.0">',
+      `    <title>${escapeHtml(name)}</title>`,
+      `    <link rel="stylesheet" href="${name}.css">`,
+      "  </head>",
+      "  <body>",
+      ...body.map((node) => formatNode(node, "    ")),
+      `    <script src="${name}.js" data-ht-scripts></script>`,
+      "  </body>",
+      "</html>",
+      "",
+    ].join("\n");
+
+    const document = parseHtml(page);
+    wrapBody(document);
+    addUniqueClasses(document);
+    const { rules } = extractInlineStyles(document);
+    addAccessibilityAttributes(document);
+
+    const source = path.basename(this._fileName);
+    const css = [
+      `/* Styles for ${name}, converted from ${source} */`,
+      ...rules,
+    ].join("\n\n");
+
+    return {
+      componentName: name,
+      html: serializeHtml(document),
+      css: `${css}\n`,
+      js: this.scriptStub(source),
+      warnings: this._warnings.sort((a, b) => a.line - b.line),
+    };
+  }
+
+  private scriptStub(source: string): string {
+    const lines = [
+      `// Event hooks for ${this._componentName}, converted from ${source}.`,
+      "// The React handlers are kept as comments; port them to DOM code.",
+    ];
+    for (const hook of this._hooks) {
+      lines.push(
+        "",
+        `document.querySelectorAll("[data-ht-${hook.name}]").forEach((element) => {`,
+        `  element.addEventListener("${hook.event}", (event) => {`,
+        ...(hook.source || "TODO")
+          .split("\n")
+          .map((line) => `    // ${line.trimEnd()}`),
+        "  });",
+        "});"
+      );
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  private warn(node: t.Node, message: string) {
+    const line = node.loc?.start.line ?? 1;
+    if (
+      !this._warnings.some(
+        (warning) => warning.line === line && warning.message === message
+      )
+    ) {
+      this._warnings.push({ line, message });
+    }
+  }
+
+  private text(node: t.Node): string {
+    return this._source.slice(node.start ?? 0, node.end ?? 0);
+  }
+
+  private dynamic(node: t.Node): Dynamic {
+    return new Dynamic(this.text(node));
+  }
+
+  private linkParents(node: t.Node) {
+    for (const key of t.VISITOR_KEYS[node.type] ?? []) {
+      const value = (node as unknown as Record<string, unknown>)[key];
+      const children = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (t.isNode(child)) {
+          this._parents.set(child, node);
+          this.linkParents(child);
+        }
+      }
+    }
+  }
+}
+
+const NOT_HANDLED = Symbol("notHandled");
+
+// Indented markup; elements holding text and inline elements stay on one
+// line
+function formatNode(node: HtmlNode, indent: string): string {
+  if (node.kind === "text") {
+    return `${indent}${node.html}`;
+  }
+  if (node.kind === "comment") {
+    return `${indent}<!-- ${node.text.replace(/--/g, "- -")} -->`;
+  }
+
+  const open = `<${node.tag}${node.attributes
+    .map(([name, value]) =>
+      value === true ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`
+    )
+    .join("")}>`;
+  if (VOID_ELEMENTS.includes(node.tag)) {
+    return `${indent}${open}`;
+  }
+  if (node.children.every(isInline)) {
+    const line = `${indent}${open}${node.children
+      .map((child) => formatNode(child, ""))
+      .join("")}</${node.tag}>`;
+    // Breaking lines between text and inline elements would add spaces
+    if (
+      line.length <= 80 ||
+      node.children.some((child) => child.kind === "text")
+    ) {
+      return line;
+    }
+  }
+  return [
+    `${indent}${open}`,
+    ...node.children.map((child) => formatNode(child, `${indent}  `)),
+    `${indent}</${node.tag}>`,
+  ].join("\n");
+}
+
+function isInline(node: HtmlNode): boolean {
+  return (
+    node.kind !== "element" ||
+    (INLINE_ELEMENTS.includes(node.tag) && node.children.every(isInline))
+  );
+}
+
+// React's JSX whitespace rules: lines are trimmed and blank lines dropped
+function jsxText(text: string): string {
+  const lines = text.split(/\r?\n/);
+  return lines
+    .map((line, index) => {
+      let result = line.replace(/\t/g, " ");
+      if (index > 0) {
+        result = result.trimStart();
+      }
+      if (index < lines.length - 1) {
+        result = result.trimEnd();
+      }
+      return result;
+    })
+    .filter((line) => line !== "")
+    .join(" ");
+}
+
+function toAttributeName(name: string, isSvg: boolean): string {
+  if (ATTRIBUTE_NAMES[name]) {
+    return ATTRIBUTE_NAMES[name];
+  }
+  if (/^(aria|data)-/.test(name) || !/[A-Z]/.test(name)) {
+    return name;
+  }
+  if (isSvg) {
+    return SVG_CAMEL_ATTRIBUTES.includes(name) ? name : toKebabCase(name);
+  }
+  // tabIndex, readOnly, autoComplete, ...
+  return name.toLowerCase();
+}
+
+function calleeName(expression: t.Node): string | undefined {
+  if (t.isIdentifier(expression)) {
+    return expression.name;
+  }
+  if (
+    (t.isMemberExpression(expression) ||
+      t.isOptionalMemberExpression(expression)) &&
+    !expression.computed &&
+    t.isIdentifier(expression.object) &&
+    t.isIdentifier(expression.property)
+  ) {
+    return `${expression.object.name}.${expression.property.name}`;
+  }
+  return undefined;
+}
+
+function propertyName(name: t.Node): string | undefined {
+  if (t.isIdentifier(name)) {
+    return name.name;
+  }
+  if (t.isStringLiteral(name)) {
+    return name.value;
+  }
+  if (t.isNumericLiteral(name)) {
+    return String(name.value);
+  }
+  if (t.isPrivateName(name)) {
+    return name.id.name;
+  }
+  return undefined;
+}
+
+// The cooked text, or the raw text where an escape is invalid
+function templateText(element: t.TemplateElement): string {
+  return element.value.cooked ?? element.value.raw;
+}
+
+// Card.tsx -> Card, hero-banner.jsx -> HeroBanner
+function componentNameFromFile(fileName: string): string {
+  return path
+    .basename(fileName, path.extname(fileName))
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function toKebabCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+}
+
+function isObject(value: Value): value is { [key: string]: Value } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Dynamic) &&
+    !(value instanceof Markup) &&
+    !(value instanceof Closure) &&
+    !(value instanceof CssModule)
+  );
+}
+
+function isPrimitive(value: Value): value is string | number | boolean {
+  return (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value === null ||
+    value === undefined
+  );
+}
+
+// Arrays, objects and markup are truthy whatever they hold
+function isTruthy(value: Value): boolean {
+  return isPrimitive(value) ? !!value : !(value instanceof Dynamic);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, "&quot;");
+}
@@ -1,37 +1,248 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
+import { diffAudits, HTFlowAuditHistory } from "./auditHistory";
+import { parseAuditOutput, stripAnsi } from "./auditParser";
+import { AuditReport } from "./auditReport";
+import { HTFlowBaselineManager } from "./baseline";
+import { buildCliCommand, buildServeCommand } from "./cliCommands";
+import { DEFAULT_CONFIG, HTFlowConfigManager } from "./config";
+import { HTFlowDiagnostics } from "./diagnostics";
+import { convertHtml, wrapperOptions } from "./htmlConverter";
+import { HTFlowJobManager } from "./jobManager";
+import {
+  AuditRunPayload,
+  CliStatusPayload,
+  parseRequestMessage,
+  ProjectPayload,
+  RequestMessage,
+  ResponseMessage,
+  ServerInfoPayload,
+  ServerStatus,
+} from "./messages";
+import { formatOfflineReport, validateFolder } from "./offlineValidator";
+import {
+  detectProjects,
+  findWorkspaceFolder,
+  pickWorkspaceFolder,
+  PROJECT_CONFIG_FILE,
+} from "./projects";
+import {
+  detectPortFromOutput,
+  findFreePort,
+  findPortOwner,
+  isPortInUse,
+  waitForPort,
+} from "./ports";
+import {
+  isSameProcess,
+  killProcessTree,
+  processStartTime,
+  ProcessResult,
+  RunningProcess,
+  runInTerminal,
+} from "./processRunner";
+import { suppressReport } from "./suppressions";
+
+// CLI actions exposed as VS Code commands
+export type CliAction =
+  | "init"
+  | "validate"
+  | "audit"
+  | "audit --html"
+  | "build"
+  | "serveDev"
+  | "serveProd"
+  | "mcp-install"
+  | "mcp-uninstall"
+  | "mcp-status"
+  | "version";
 
 type RunningServer = {
+  workspaceFolder: vscode.WorkspaceFolder;
+  // Port the server actually listens on, once known from its output
   port: number;
+  // Port originally asked for, when it was busy and another one was chosen
+  requestedPort?: number;
   mode: string;
   folder: string;
   startTime: Date;
-  terminal: vscode.Terminal;
+  status: ServerStatus;
+  // Servers restored after a window reload may have neither a terminal nor
+  // a process handle, only the pid of the still-running process
+  terminal?: vscode.Terminal;
+  process?: RunningProcess;
+  pid?: number;
+  // When `pid` started, to tell it from a later process reusing the pid
+  pidStartTime?: string;
   origin: "sidebar";
 };
 
+// The audit shown for the active project, e.g. in the issues tree
+export type ActiveAudit = {
+  workspaceFolder: vscode.WorkspaceFolder;
+  // Folder the audit ran on, relative to the workspace folder
+  folder?: string;
+  // Without the issues in .htflow-baseline.json
+  report: AuditReport;
+  unfilteredReport: AuditReport;
+};
+
+// Server record kept in workspaceState across window reloads
+type PersistedServer = {
+  serverId: string;
+  // Workspace folder URI
+  workspaceFolder: string;
+  port: number;
+  requestedPort?: number;
+  mode: string;
+  folder: string;
+  startTime: string;
+  pid?: number;
+  pidStartTime?: string;
+  terminalName?: string;
+};
+
+const SERVERS_STATE_KEY = "htflow.runningServers";
+const ACTIVE_PROJECT_STATE_KEY = "htflow.activeProject";
+
+// How long a server may take before its port answers
+const SERVER_READY_TIMEOUT = 60 * 1000;
+
 export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _fileWatcher?: vscode.FileSystemWatcher;
   private _runningServers: Map<string, RunningServer> = new Map();
   private _terminals: Map<string, vscode.Terminal> = new Map();
-  private _currentPanel?: vscode.WebviewPanel;
+  private _webviews: Set<vscode.Webview> = new Set();
+  // Audit results and CLI status per workspace folder, keyed by its URI
+  private _lastAudits: Map<
+    string,
+    { output: string; report?: AuditReport; folder?: string }
+  > = new Map();
+  private _cliStatuses: Map<string, CliStatusPayload> = new Map();
+  // Workspace folder URI of the project the panel acts on
+  private _activeProject?: string;
+  private _auditJsonSupport: Map<string, boolean> = new Map();
+  private _jobs = new HTFlowJobManager();
+  private _terminalListener: vscode.Disposable;
+  private _projectListeners: vscode.Disposable[] = [];
+  private _onDidChangeActiveAudit = new vscode.EventEmitter<void>();
+
+  // Fires when the active project gets a new audit or another project
+  // becomes active
+  public readonly onDidChangeActiveAudit = this._onDidChangeActiveAudit.event;
+
+  constructor(
+    private readonly _extensionUri: vscode.Uri,
+    private readonly _workspaceState: vscode.Memento,
+    private readonly _configManager: HTFlowConfigManager,
+    // Shared with validate-on-save, which updates single documents
+    private readonly _diagnostics: HTFlowDiagnostics,
+    private readonly _auditHistory: HTFlowAuditHistory,
+    private readonly _baseline: HTFlowBaselineManager
+  ) {
+    this._activeProject = this._workspaceState.get<string>(
+      ACTIVE_PROJECT_STATE_KEY
+    );
 
-  constructor(private readonly _extensionUri: vscode.Uri) {
     this.setupFileWatcher();
+    this.setupProjectWatcher();
+
+    // Keep the webviews in sync with queued/running/finished CLI jobs
+    this._jobs.onDidChangeJob((job) => {
+      this.broadcast({ command: "jobState", job });
+    });
+
+    // Show or hide issues as soon as the baseline changes
+    this._projectListeners.push(
+      this._baseline.onDidChangeBaseline((workspaceFolder) => {
+        if (
+          folderKey(workspaceFolder) === folderKey(this.activeWorkspaceFolder)
+        ) {
+          this._webviews.forEach((webview) => this.sendStateSnapshot(webview));
+          this._onDidChangeActiveAudit.fire();
+        }
+      })
+    );
+
+    this._terminalListener = vscode.window.onDidCloseTerminal((terminal) =>
+      this.handleTerminalClosed(terminal)
+    );
+
+    // Webviews resolved while this runs get a new snapshot once it settles
+    this.restoreServers()
+      .catch((error) => {
+        console.error("HTFlow: Failed to restore servers:", error);
+      })
+      .finally(() => {
+        this._webviews.forEach((webview) => this.sendStateSnapshot(webview));
+      });
   }
 
   get webviewView(): vscode.WebviewView | undefined {
     return this._view;
   }
 
-  get currentPanel(): vscode.WebviewPanel | undefined {
-    return this._currentPanel;
+  // Project the panel acts on: the one picked by the user, else the first
+  // folder with an .htflowrc.json, else the first workspace folder
+  get activeWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    const selected = this._activeProject
+      ? findWorkspaceFolder(this._activeProject)
+      : undefined;
+    if (selected) {
+      return selected;
+    }
+
+    const projects = detectProjects();
+    return (projects.find((project) => project.configured) ?? projects[0])
+      ?.workspaceFolder;
+  }
+
+  // Last audit of the active project
+  get activeAudit(): ActiveAudit | undefined {
+    const workspaceFolder = this.activeWorkspaceFolder;
+    const audit = this._lastAudits.get(folderKey(workspaceFolder));
+    if (!workspaceFolder || !audit?.report) {
+      return undefined;
+    }
+    return {
+      workspaceFolder,
+      folder: audit.folder,
+      report: this._baseline.filterReport(
+        audit.report,
+        workspaceFolder,
+        audit.folder
+      ),
+      unfilteredReport: audit.report,
+    };
   }
 
-  set currentPanel(panel: vscode.WebviewPanel | undefined) {
-    this._currentPanel = panel;
+  public selectProject(workspaceFolder: vscode.WorkspaceFolder) {
+    const key = workspaceFolder.uri.toString();
+    if (key === this.activeWorkspaceFolder?.uri.toString()) {
+      return;
+    }
+
+    console.log(`HTFlow: Active project is now ${workspaceFolder.name}`);
+    this._activeProject = key;
+    this._workspaceState.update(ACTIVE_PROJECT_STATE_KEY, key);
+
+    if (!this._cliStatuses.has(key)) {
+      this.refreshCliStatus(workspaceFolder);
+    }
+    this._webviews.forEach((webview) => this.sendStateSnapshot(webview));
+    this._onDidChangeActiveAudit.fire();
+  }
+
+  // Let the user switch projects from the Command Palette
+  public async pickProject() {
+    const workspaceFolder = await pickWorkspaceFolder(
+      this.activeWorkspaceFolder
+    );
+    if (workspaceFolder) {
+      this.selectProject(workspaceFolder);
+    }
   }
 
   public resolveWebviewView(
@@ -51,472 +262,446 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
     webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
     // Handle messages from the webview
-    webviewView.webview.onDidReceiveMessage(async (message) => {
-      try {
-        console.log("HTFlow: ===== NEW MESSAGE RECEIVED =====");
-        console.log(
-          "HTFlow received message:",
-          JSON.stringify(message, null, 2)
-        );
-        console.log("HTFlow message command:", message.command);
-        console.log("HTFlow message type:", message.type);
-        console.log("HTFlow: Processing message...");
-        switch (message.command) {
-          case "ready":
-            console.log("HTFlow panel is ready");
-            vscode.window.showInformationMessage(
-              "HTFlow panel loaded successfully!"
-            );
-            break;
-
-          case "htflow.init":
-            await this.executeHTFlowCommandForPanel(
-              "init",
-              "HTFlow project initialized successfully!"
-            );
-            break;
-
-          case "htflow.validate":
-            await this.executeHTFlowCommandForPanel(
-              "validate",
-              "Validation completed successfully!"
-            );
-            break;
-
-          case "htflow.audit":
-            if (message.displayInPanel) {
-              await this.executeHTFlowAuditForPanel(
-                message.folder,
-                "Audit completed successfully!"
-              );
-            } else {
-              await this.executeHTFlowCommandWithFolder(
-                "audit",
-                message.folder,
-                "Audit completed successfully!"
-              );
-            }
-            break;
-
-          case "refreshWorkspace":
-            vscode.commands.executeCommand("workbench.action.reloadWindow");
-            break;
-
-          case "openFile":
-            if (message.path) {
-              const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-              if (workspaceFolder) {
-                const fullPath = path.join(
-                  workspaceFolder.uri.fsPath,
-                  message.path
-                );
-                await vscode.commands.executeCommand(
-                  "vscode.open",
-                  vscode.Uri.file(fullPath)
-                );
-              }
-            }
-            break;
-
-          case "toolAction":
-            await this.handleToolAction(message.tool);
-            break;
+    this.registerWebview(webviewView);
+  }
 
-          case "settingChange":
-            await this.handleSettingChange(message.setting, message.value);
-            break;
+  // Track a live HTFlow webview (sidebar view, right-side panel, ...) so it
+  // receives every broadcast, and route its messages through the shared
+  // message protocol. The webview is dropped again when its host is disposed.
+  public registerWebview(host: vscode.WebviewView | vscode.WebviewPanel) {
+    const webview = host.webview;
+    this._webviews.add(webview);
+    console.log(`HTFlow: Registered webview (${this._webviews.size} open)`);
+
+    host.onDidDispose(() => {
+      this._webviews.delete(webview);
+      if (this._view === host) {
+        this._view = undefined;
+      }
+      console.log(`HTFlow: Webview closed (${this._webviews.size} open)`);
+    });
 
-          case "validateFile":
-            if (message.path) {
-              await this.validateSpecificFile(message.path);
-            }
-            break;
-
-          // HTFlow CLI Commands
-          case "htflow.audit.html":
-            await this.executeHTFlowCommandForPanel(
-              "audit --html",
-              "HTML audit report generated successfully!"
-            );
-            break;
-
-          case "htflow.build":
-            await this.executeHTFlowCommandForPanel(
-              "build",
-              "Project built successfully!"
-            );
-            break;
-
-          case "htflow.serve.dev":
-            const devPort = message.port ? Number(message.port) : 3050;
-            console.log(
-              `HTFlow: Dev server requested with port: ${
-                message.port
-              } (type: ${typeof message.port}), converted: ${devPort}`
-            );
-            const hasUserDevPort =
-              message.port && message.port.toString().trim() !== "";
-            console.log(`HTFlow: User specified dev port: ${hasUserDevPort}`);
-            await this.startHTFlowServer(
-              devPort,
-              "dev",
-              message.folder,
-              "sidebar",
-              hasUserDevPort
-            );
-            break;
-
-          case "htflow.serve.prod":
-            const prodPort = message.port ? Number(message.port) : 3051;
-            console.log(
-              `HTFlow: Prod server requested with port: ${
-                message.port
-              } (type: ${typeof message.port}), converted: ${prodPort}`
-            );
-            const hasUserProdPort =
-              message.port && message.port.toString().trim() !== "";
-            console.log(`HTFlow: User specified prod port: ${hasUserProdPort}`);
-            await this.startHTFlowServer(
-              prodPort,
-              "start",
-              message.folder,
-              "sidebar",
-              hasUserProdPort
-            );
-            break;
-
-          case "htflow.serve.custom":
-            await this.startHTFlowServer(
-              message.port || 3000,
-              "dev",
-              undefined,
-              "sidebar",
-              false
-            );
-            break;
-
-          case "htflow.version":
-            await this.executeHTFlowCommandForPanel(
-              "version",
-              "HTFlow version checked successfully!"
-            );
-            break;
-
-          // MCP Commands
-          case "htflow.mcp-install":
-            await this.executeHTFlowCommandForPanel(
-              "mcp-install",
-              "MCP configuration installed successfully!"
-            );
-            break;
-
-          case "htflow.mcp-uninstall":
-            await this.executeHTFlowCommandForPanel(
-              "mcp-uninstall",
-              "MCP configuration uninstalled successfully!"
-            );
-            break;
-
-          case "htflow.mcp-status":
-            await this.executeHTFlowCommandForPanel(
-              "mcp-status",
-              "MCP status checked successfully!"
-            );
-            break;
-
-          // NPM Commands
-          case "npm.install":
-            await this.executeNpmCommand(
-              "install -g htflow-cli",
-              "HTFlow CLI installed successfully!"
-            );
-            break;
-
-          case "npm.update":
-            await this.executeNpmCommand(
-              "install -g htflow-cli@latest",
-              "HTFlow CLI updated successfully!"
-            );
-            break;
-
-          case "npm.uninstall":
-            await this.executeNpmCommand(
-              "uninstall -g htflow-cli",
-              "HTFlow CLI uninstalled successfully!"
-            );
-            break;
-
-          case "stopServer":
-            await this.stopServer(message.serverId, message.port);
-            break;
-
-          case "openUrl":
-            if (message.url) {
-              await vscode.commands.executeCommand(
-                "vscode.open",
-                vscode.Uri.parse(message.url)
-              );
-            }
-            break;
+    if (!this._cliStatuses.has(folderKey(this.activeWorkspaceFolder))) {
+      this.refreshCliStatus();
+    }
 
-          case "openExternal":
-            if (message.url) {
-              await vscode.env.openExternal(vscode.Uri.parse(message.url));
-            }
-            break;
+    webview.onDidReceiveMessage(async (raw: unknown) => {
+      const parsed = parseRequestMessage(raw);
+      if (!parsed.ok) {
+        console.warn("HTFlow: Rejected webview message:", parsed.error);
+        this.post(webview, { command: "error", error: parsed.error });
+        return;
+      }
 
-          default:
-            vscode.window.showInformationMessage(`HTFlow: ${message.command}`);
-            break;
-        }
+      const message = parsed.message;
+      try {
+        await this.handleMessage(message, webview);
       } catch (error) {
-        console.error("HTFlow: ===== ERROR PROCESSING MESSAGE =====");
-        console.error("HTFlow command error:", error);
-        console.error(
-          "HTFlow error stack:",
-          error instanceof Error ? error.stack : "No stack"
-        );
+        console.error(`HTFlow: Failed to handle ${message.command}:`, error);
         const errorMessage =
           error instanceof Error ? error.message : String(error);
+        this.post(webview, {
+          command: "error",
+          error: {
+            code: "handlerFailed",
+            message: errorMessage,
+            request: message.command,
+          },
+        });
         vscode.window.showErrorMessage(`HTFlow Error: ${errorMessage}`);
-        console.error("HTFlow: ===== END ERROR =====");
       }
     });
   }
 
-  // Attach the same message handling logic to any webview (e.g., right-side WebviewPanel)
-  public attachMessageHandler(webview: vscode.Webview) {
-    webview.onDidReceiveMessage(async (message) => {
-      try {
-        console.log("HTFlow: ===== NEW MESSAGE RECEIVED =====");
+  private async handleMessage(
+    message: RequestMessage,
+    webview: vscode.Webview
+  ) {
+    switch (message.command) {
+      case "ready":
+        console.log("HTFlow panel is ready");
+        this.sendStateSnapshot(webview);
+        vscode.window.showInformationMessage(
+          "HTFlow panel loaded successfully!"
+        );
+        break;
+
+      case "htflow.init":
+        await this.executeHTFlowCommandForPanel(
+          "init",
+          "HTFlow project initialized successfully!"
+        );
+        break;
+
+      case "htflow.validate":
+        await this.executeHTFlowCommandForPanel(
+          "validate",
+          "Validation completed successfully!"
+        );
+        break;
+
+      case "htflow.audit":
+        if (message.displayInPanel) {
+          await this.executeHTFlowAuditForPanel(
+            message.folder,
+            "Audit completed successfully!"
+          );
+        } else {
+          await this.executeHTFlowCommandWithFolder(
+            "audit",
+            message.folder,
+            "Audit completed successfully!"
+          );
+        }
+        break;
+
+      case "refreshWorkspace":
+        vscode.commands.executeCommand("workbench.action.reloadWindow");
+        break;
+
+      case "openFile": {
+        const workspaceFolder = this.activeWorkspaceFolder;
+        if (workspaceFolder) {
+          const fullPath = path.resolve(
+            workspaceFolder.uri.fsPath,
+            message.path
+          );
+          await vscode.commands.executeCommand(
+            "vscode.open",
+            vscode.Uri.file(fullPath)
+          );
+        }
+        break;
+      }
+
+      case "selectProject": {
+        const workspaceFolder = findWorkspaceFolder(message.folder);
+        if (!workspaceFolder) {
+          this.post(webview, {
+            command: "error",
+            error: {
+              code: "invalidField",
+              message: `No workspace folder ${message.folder}`,
+              request: message.command,
+              field: "folder",
+            },
+          });
+          break;
+        }
+        this.selectProject(workspaceFolder);
+        break;
+      }
+
+      case "toolAction":
+        await this.handleToolAction(message.tool);
+        break;
+
+      case "convertHtml": {
+        const workspaceFolder = this.activeWorkspaceFolder;
+        const { htmlWrapper } = workspaceFolder
+          ? this._configManager.get(workspaceFolder).validation
+          : DEFAULT_CONFIG.validation;
+        this.post(webview, {
+          command: "convertedHtml",
+          ...convertHtml(message.html, wrapperOptions(htmlWrapper)),
+        });
+        break;
+      }
+
+      case "settingChange":
+        await this.handleSettingChange(message.setting, message.value);
+        break;
+
+      case "validateFile":
+        await this.validateSpecificFile(message.path);
+        break;
+
+      // HTFlow CLI Commands
+      case "htflow.audit.html":
+        await this.executeHTFlowCommandForPanel(
+          "audit --html",
+          "HTML audit report generated successfully!"
+        );
+        break;
+
+      case "htflow.build":
+        await this.executeHTFlowCommandForPanel(
+          "build",
+          "Project built successfully!"
+        );
+        break;
+
+      case "htflow.serve.dev": {
+        const devPort = message.port ? Number(message.port) : 3050;
         console.log(
-          "HTFlow received message:",
-          JSON.stringify(message, null, 2)
+          `HTFlow: Dev server requested with port: ${message.port}, converted: ${devPort}`
         );
-        console.log("HTFlow message command:", message.command);
-        console.log("HTFlow message type:", message.type);
-        console.log("HTFlow: Processing message (panel)...");
-
-        switch (message.command) {
-          case "ready":
-            console.log("HTFlow panel is ready (panel)");
-            vscode.window.showInformationMessage(
-              "HTFlow panel loaded successfully!"
-            );
-            break;
-
-          case "htflow.init":
-            await this.executeHTFlowCommandForPanel(
-              "init",
-              "HTFlow project initialized successfully!"
-            );
-            break;
-
-          case "htflow.validate":
-            await this.executeHTFlowCommandForPanel(
-              "validate",
-              "Validation completed successfully!"
-            );
-            break;
-
-          case "htflow.audit":
-            if (message.displayInPanel) {
-              await this.executeHTFlowAuditForPanel(
-                message.folder,
-                "Audit completed successfully!"
-              );
-            } else {
-              await this.executeHTFlowCommandWithFolder(
-                "audit",
-                message.folder,
-                "Audit completed successfully!"
-              );
-            }
-            break;
-
-          case "refreshWorkspace":
-            vscode.commands.executeCommand("workbench.action.reloadWindow");
-            break;
-
-          case "openFile":
-            if (message.path) {
-              const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-              if (workspaceFolder) {
-                const fullPath = path.join(
-                  workspaceFolder.uri.fsPath,
-                  message.path
-                );
-                await vscode.commands.executeCommand(
-                  "vscode.open",
-                  vscode.Uri.file(fullPath)
-                );
-              }
-            }
-            break;
+        const hasUserDevPort =
+          message.port !== undefined && message.port.toString().trim() !== "";
+        await this.startHTFlowServer(
+          devPort,
+          "dev",
+          message.folder,
+          "sidebar",
+          hasUserDevPort
+        );
+        break;
+      }
 
-          case "toolAction":
-            await this.handleToolAction(message.tool);
-            break;
+      case "htflow.serve.prod": {
+        const prodPort = message.port ? Number(message.port) : 3051;
+        console.log(
+          `HTFlow: Prod server requested with port: ${message.port}, converted: ${prodPort}`
+        );
+        const hasUserProdPort =
+          message.port !== undefined && message.port.toString().trim() !== "";
+        await this.startHTFlowServer(
+          prodPort,
+          "start",
+          message.folder,
+          "sidebar",
+          hasUserProdPort
+        );
+        break;
+      }
 
-          case "settingChange":
-            await this.handleSettingChange(message.setting, message.value);
-            break;
+      case "htflow.serve.custom":
+        await this.startHTFlowServer(
+          message.port ? Number(message.port) : 3000,
+          "dev",
+          undefined,
+          "sidebar",
+          false
+        );
+        break;
 
-          case "validateFile":
-            if (message.path) {
-              await this.validateSpecificFile(message.path);
-            }
-            break;
-
-          // HTFlow CLI Commands
-          case "htflow.audit.html":
-            await this.executeHTFlowCommandForPanel(
-              "audit --html",
-              "HTML audit report generated successfully!"
-            );
-            break;
-
-          case "htflow.build":
-            await this.executeHTFlowCommandForPanel(
-              "build",
-              "Project built successfully!"
-            );
-            break;
-
-          case "htflow.serve.dev":
-            const devPort = message.port ? Number(message.port) : 3050;
-            console.log(
-              `HTFlow: Dev server requested with port: ${
-                message.port
-              } (type: ${typeof message.port}), converted: ${devPort}`
-            );
-            const hasUserDevPort =
-              message.port && message.port.toString().trim() !== "";
-            console.log(`HTFlow: User specified dev port: ${hasUserDevPort}`);
-            await this.startHTFlowServer(
-              devPort,
-              "dev",
-              message.folder,
-              "sidebar",
-              hasUserDevPort
-            );
-            break;
-
-          case "htflow.serve.prod":
-            const prodPort = message.port ? Number(message.port) : 3051;
-            console.log(
-              `HTFlow: Prod server requested with port: ${
-                message.port
-              } (type: ${typeof message.port}), converted: ${prodPort}`
-            );
-            const hasUserProdPort =
-              message.port && message.port.toString().trim() !== "";
-            console.log(`HTFlow: User specified prod port: ${hasUserProdPort}`);
-            await this.startHTFlowServer(
-              prodPort,
-              "start",
-              message.folder,
-              "sidebar",
-              hasUserProdPort
-            );
-            break;
-
-          case "htflow.serve.custom":
-            await this.startHTFlowServer(
-              message.port || 3000,
-              "dev",
-              undefined,
-              "sidebar",
-              false
-            );
-            break;
-
-          case "htflow.version":
-            await this.executeHTFlowCommandForPanel(
-              "version",
-              "HTFlow version checked successfully!"
-            );
-            break;
-
-          // MCP Commands
-          case "htflow.mcp-install":
-            await this.executeHTFlowCommandForPanel(
-              "mcp-install",
-              "MCP configuration installed successfully!"
-            );
-            break;
-
-          case "htflow.mcp-uninstall":
-            await this.executeHTFlowCommandForPanel(
-              "mcp-uninstall",
-              "MCP configuration uninstalled successfully!"
-            );
-            break;
-
-          case "htflow.mcp-status":
-            await this.executeHTFlowCommandForPanel(
-              "mcp-status",
-              "MCP status checked successfully!"
-            );
-            break;
-
-          // NPM Commands
-          case "npm.install":
-            await this.executeNpmCommand(
-              "install -g htflow-cli",
-              "HTFlow CLI installed successfully!"
-            );
-            break;
-
-          case "npm.update":
-            await this.executeNpmCommand(
-              "install -g htflow-cli@latest",
-              "HTFlow CLI updated successfully!"
-            );
-            break;
-
-          case "npm.uninstall":
-            await this.executeNpmCommand(
-              "uninstall -g htflow-cli",
-              "HTFlow CLI uninstalled successfully!"
-            );
-            break;
-
-          case "stopServer":
-            await this.stopServer(message.serverId, message.port);
-            break;
-
-          case "openUrl":
-            if (message.url) {
-              await vscode.commands.executeCommand(
-                "vscode.open",
-                vscode.Uri.parse(message.url)
-              );
-            }
-            break;
+      case "htflow.version":
+        await this.executeHTFlowCommandForPanel(
+          "version",
+          "HTFlow version checked successfully!"
+        );
+        break;
 
-          case "openExternal":
-            if (message.url) {
-              await vscode.env.openExternal(vscode.Uri.parse(message.url));
-            }
-            break;
+      // MCP Commands
+      case "htflow.mcp-install":
+        await this.executeHTFlowCommandForPanel(
+          "mcp-install",
+          "MCP configuration installed successfully!"
+        );
+        break;
 
-          default:
-            vscode.window.showInformationMessage(`HTFlow: ${message.command}`);
-            break;
-        }
-      } catch (error) {
-        console.error("HTFlow: ===== ERROR PROCESSING MESSAGE (panel) =====");
-        console.error("HTFlow command error:", error);
-        console.error(
-          "HTFlow error stack:",
-          error instanceof Error ? error.stack : "No stack"
+      case "htflow.mcp-uninstall":
+        await this.executeHTFlowCommandForPanel(
+          "mcp-uninstall",
+          "MCP configuration uninstalled successfully!"
         );
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        vscode.window.showErrorMessage(`HTFlow Error: ${errorMessage}`);
-        console.error("HTFlow: ===== END ERROR (panel) =====");
+        break;
+
+      case "htflow.mcp-status":
+        await this.executeHTFlowCommandForPanel(
+          "mcp-status",
+          "MCP status checked successfully!"
+        );
+        break;
+
+      // NPM Commands
+      case "npm.install":
+        await this.executeNpmCommand(
+          "install -g htflow-cli",
+          "HTFlow CLI installed successfully!"
+        );
+        break;
+
+      case "npm.update":
+        await this.executeNpmCommand(
+          "install -g htflow-cli@latest",
+          "HTFlow CLI updated successfully!"
+        );
+        break;
+
+      case "npm.uninstall":
+        await this.executeNpmCommand(
+          "uninstall -g htflow-cli",
+          "HTFlow CLI uninstalled successfully!"
+        );
+        break;
+
+      case "stopServer":
+        await this.stopServer(
+          message.serverId,
+          message.port !== undefined ? Number(message.port) : undefined
+        );
+        break;
+
+      case "cancelJob":
+        this._jobs.cancel(message.jobId);
+        break;
+
+      case "compareAudits": {
+        const base = this._auditHistory.get(message.baseId);
+        const head = this._auditHistory.get(message.headId);
+        if (!base || !head) {
+          this.post(webview, {
+            command: "error",
+            error: {
+              code: "invalidField",
+              message: "That audit run is no longer in the history",
+              request: message.command,
+              field: base ? "headId" : "baseId",
+            },
+          });
+          break;
+        }
+
+        // Always diff older -> newer
+        const [older, newer] =
+          base.timestamp <= head.timestamp ? [base, head] : [head, base];
+        this.post(webview, {
+          command: "auditDiff",
+          baseId: older.id,
+          headId: newer.id,
+          ...diffAudits(older, newer),
+        });
+        break;
+      }
+
+      case "clearAuditHistory": {
+        const workspaceFolder = this.activeWorkspaceFolder;
+        if (workspaceFolder) {
+          this._auditHistory.clear(workspaceFolder);
+          this.broadcast({ command: "auditHistory", runs: [] });
+        }
+        break;
       }
+
+      case "openUrl":
+        await vscode.commands.executeCommand(
+          "vscode.open",
+          vscode.Uri.parse(message.url)
+        );
+        break;
+
+      case "openExternal":
+        await vscode.env.openExternal(vscode.Uri.parse(message.url));
+        break;
+    }
+  }
+
+  private post(webview: vscode.Webview, message: ResponseMessage) {
+    webview.postMessage(message);
+  }
+
+  // Send a message to every open HTFlow webview
+  private broadcast(message: ResponseMessage) {
+    this._webviews.forEach((webview) => this.post(webview, message));
+  }
+
+  // Bring a freshly loaded webview up to date with projects, servers, the
+  // active project's last audit and CLI status, and running jobs
+  private sendStateSnapshot(webview: vscode.Webview) {
+    const active = folderKey(this.activeWorkspaceFolder);
+    const audit = this._lastAudits.get(active);
+    const servers = Array.from(this._runningServers.entries()).map(
+      ([serverId, server]) => ({
+        serverId,
+        serverInfo: toServerPayload(server),
+      })
+    );
+
+    this.post(webview, {
+      command: "stateSnapshot",
+      projects: this.getProjects(),
+      activeProject: this.activeWorkspaceFolder?.uri.toString(),
+      servers,
+      lastAudit: audit && {
+        output: audit.output,
+        report:
+          audit.report &&
+          this.activeWorkspaceFolder &&
+          this._baseline.filterReport(
+            audit.report,
+            this.activeWorkspaceFolder,
+            audit.folder
+          ),
+      },
+      auditHistory: this.getAuditHistory(this.activeWorkspaceFolder),
+      cliStatus: this._cliStatuses.get(active),
+      jobs: this._jobs.jobs,
+    });
+  }
+
+  private getProjects(): ProjectPayload[] {
+    return detectProjects().map((project) => ({
+      uri: project.workspaceFolder.uri.toString(),
+      name: project.workspaceFolder.name,
+      configured: project.configured,
+    }));
+  }
+
+  // Projects change when workspace folders are added or removed, or when an
+  // .htflowrc.json is created or deleted
+  private setupProjectWatcher() {
+    const configWatcher = vscode.workspace.createFileSystemWatcher(
+      `**/${PROJECT_CONFIG_FILE}`,
+      false,
+      true,
+      false
+    );
+    const broadcastProjects = () =>
+      this.broadcast({
+        command: "projects",
+        projects: this.getProjects(),
+        active: this.activeWorkspaceFolder?.uri.toString(),
+      });
+
+    this._projectListeners.push(
+      configWatcher,
+      configWatcher.onDidCreate(broadcastProjects),
+      configWatcher.onDidDelete(broadcastProjects),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        // The active project may have been removed
+        this._webviews.forEach((webview) => this.sendStateSnapshot(webview));
+        this._onDidChangeActiveAudit.fire();
+      })
+    );
+  }
+
+  // CLI version is per workspace folder, since npx prefers a local install
+  public updateCliStatus(
+    status: CliStatusPayload,
+    workspaceFolder: vscode.WorkspaceFolder | undefined = this
+      .activeWorkspaceFolder
+  ) {
+    const key = folderKey(workspaceFolder);
+    this._cliStatuses.set(key, status);
+    if (key === folderKey(this.activeWorkspaceFolder)) {
+      this.broadcast({ command: "cliStatus", data: status });
+    }
+  }
+
+  public refreshCliStatus(
+    workspaceFolder: vscode.WorkspaceFolder | undefined = this
+      .activeWorkspaceFolder
+  ): Promise<CliStatusPayload> {
+    return new Promise((resolve) => {
+      const { exec } = require("child_process");
+      exec(
+        "npx htflow --version",
+        {
+          cwd: workspaceFolder?.uri.fsPath,
+          timeout: 30000,
+        },
+        (error: Error | null, stdout: string) => {
+          const status: CliStatusPayload = {
+            installed: !error,
+            version: error ? null : stdout.trim(),
+            error: error?.message,
+          };
+          console.log("HTFlow: CLI status:", status);
+          this.updateCliStatus(status, workspaceFolder);
+          resolve(status);
+        }
+      );
     });
   }
 
@@ -662,20 +847,17 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
   }
 
   private notifyFileChanged(uri: vscode.Uri) {
-    // Notify the main view if it exists
-    if (this._view) {
-      this._view.webview.postMessage({
-        command: "fileChanged",
-        filePath: uri.fsPath,
-        fileName: path.basename(uri.fsPath),
-      });
-    }
+    this.broadcast({
+      command: "fileChanged",
+      filePath: uri.fsPath,
+      fileName: path.basename(uri.fsPath),
+    });
   }
 
   private async executeHTFlowCommand(command: string, successMessage: string) {
     try {
       console.log(`HTFlow: Executing command: ${command}`);
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+      const workspaceFolder = this.activeWorkspaceFolder;
       console.log(`HTFlow: Workspace folder:`, workspaceFolder?.uri.fsPath);
 
       const terminal = vscode.window.createTerminal({
@@ -729,7 +911,7 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
       console.log(
         `HTFlow: Executing command with folder: ${command}, folder: ${folder}`
       );
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+      const workspaceFolder = this.activeWorkspaceFolder;
       console.log(`HTFlow: Workspace folder:`, workspaceFolder?.uri.fsPath);
 
       const terminal = vscode.window.createTerminal({
@@ -743,22 +925,7 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
       terminal.show();
       console.log(`HTFlow: Terminal shown`);
 
-      let commandText: string;
-      switch (command) {
-        case "audit":
-          if (folder && folder.trim() !== "") {
-            commandText = `npx htflow audit ${folder.trim()}`;
-          } else {
-            commandText = "npx htflow audit";
-          }
-          break;
-        default:
-          if (folder && folder.trim() !== "") {
-            commandText = `npx htflow ${command} ${folder.trim()}`;
-          } else {
-            commandText = `npx htflow ${command}`;
-          }
-      }
+      const commandText = buildCliCommand(command, folder);
 
       console.log(`HTFlow: Sending command to terminal: ${commandText}`);
       terminal.sendText(commandText);
@@ -778,97 +945,100 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
 
   private async executeHTFlowAuditForPanel(
     folder: string | undefined,
-    successMessage: string
+    successMessage: string,
+    workspaceFolder: vscode.WorkspaceFolder | undefined = this
+      .activeWorkspaceFolder
   ) {
     try {
       console.log(
         `HTFlow: Executing audit for panel display, folder: ${folder}`
       );
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
       if (!workspaceFolder) {
         vscode.window.showErrorMessage("No workspace folder found");
         return;
       }
 
-      // Construct the command
-      let commandText: string;
-      if (folder && folder.trim() !== "") {
-        commandText = `npx htflow audit ${folder.trim()}`;
-      } else {
-        commandText = "npx htflow audit";
+      if (this.isCliMissing(workspaceFolder)) {
+        await this.runOfflineValidation("audit", folder, workspaceFolder);
+        return;
+      }
+
+      // Construct the command, asking for machine-readable output when the
+      // installed CLI supports it
+      let commandText = buildCliCommand("audit", folder);
+      if (await this.supportsAuditJson(workspaceFolder.uri.fsPath)) {
+        commandText += " --json";
       }
 
       console.log(`HTFlow: Executing command for panel: ${commandText}`);
 
-      // Create and show terminal for user to see command execution
-      const terminal = vscode.window.createTerminal({
-        name: `HTFlow: audit`,
-        cwd: workspaceFolder.uri.fsPath,
+      const { job, result, coalesced } = await this._jobs.run({
+        kind: "audit",
+        title: "HTFlow: Audit",
+        command: commandText,
+        folder: path.join(workspaceFolder.uri.fsPath, folder?.trim() ?? ""),
+        start: () => {
+          // Drop stale diagnostics from the previous run
+          this._diagnostics.clear(workspaceFolder);
+          return runInTerminal({
+            command: commandText,
+            cwd: workspaceFolder.uri.fsPath,
+            terminalName: "HTFlow: audit",
+            onOutput: (chunk) =>
+              this.broadcast({
+                command: "commandOutput",
+                data: { source: "htflow.audit", command: commandText, chunk },
+              }),
+          });
+        },
       });
 
-      terminal.show();
-      terminal.sendText(commandText);
-
-      // Execute command and capture output for panel results
-      const { exec } = require("child_process");
-      const util = require("util");
-      const execPromise = util.promisify(exec);
+      if (coalesced) {
+        return;
+      }
+      if (!result) {
+        console.log(`HTFlow: Audit ${job.state} before it started`);
+        return;
+      }
 
-      try {
-        const { stdout, stderr } = await execPromise(commandText, {
-          cwd: workspaceFolder.uri.fsPath,
-          maxBuffer: 1024 * 1024 * 10, // 10MB buffer for large outputs
-        });
+      if (isCliUnavailable(result)) {
+        await this.runOfflineValidation("audit", folder, workspaceFolder);
+        return;
+      }
 
-        const output = stdout || stderr || "No output received";
-        console.log(
-          `HTFlow: Audit output captured:`,
-          output.substring(0, 500) + "..."
-        );
+      const output = result.output || "No output received";
+      console.log(
+        `HTFlow: Audit finished with exit code ${result.exitCode} in ${result.duration}ms:`,
+        output.substring(0, 500) + "..."
+      );
 
-        // Send results to panel (both sidebar and right-side panels)
-        if (this.webviewView) {
-          this.webviewView.webview.postMessage({
-            command: "auditResults",
-            output: output,
-          });
-          console.log(`HTFlow: Audit results sent to sidebar panel`);
-        }
+      // The CLI exits non-zero when it finds errors, so always publish
+      const report = await this.publishDiagnostics(
+        result.stdout || output,
+        workspaceFolder,
+        folder
+      );
 
-        // Also send to right-side panel if it exists
-        if (this.currentPanel) {
-          this.currentPanel.webview.postMessage({
-            command: "auditResults",
-            output: output,
-          });
-          console.log(`HTFlow: Audit results sent to right-side panel`);
-        }
+      // Cancelled runs only have part of the report, so they stay out of
+      // the history
+      this.storeAudit(
+        workspaceFolder,
+        folder,
+        output,
+        report,
+        result.exitCode,
+        result.duration,
+        job.state !== "cancelled" && job.state !== "timedOut"
+      );
 
+      if (job.state === "cancelled" || job.state === "timedOut") {
+        console.log(`HTFlow: Audit ${job.state}`);
+      } else if (result.success || (report && report.issues.length > 0)) {
         vscode.window.showInformationMessage(successMessage);
-      } catch (execError: any) {
-        console.error(`HTFlow: Audit command failed:`, execError);
-
-        // Even if command fails, try to send the error output to panel
-        const errorOutput =
-          execError.stdout || execError.stderr || execError.message;
-        if (errorOutput) {
-          if (this.webviewView) {
-            this.webviewView.webview.postMessage({
-              command: "auditResults",
-              output: errorOutput,
-            });
-          }
-          if (this.currentPanel) {
-            this.currentPanel.webview.postMessage({
-              command: "auditResults",
-              output: errorOutput,
-            });
-          }
-        }
-
+      } else {
         vscode.window.showErrorMessage(
-          `HTFlow audit failed: ${execError.message}`
+          `HTFlow audit failed with exit code ${result.exitCode}`
         );
       }
     } catch (error) {
@@ -884,153 +1054,109 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
   private async executeHTFlowCommandForPanel(
     command: string,
     successMessage: string,
-    folder?: string
+    folder?: string,
+    workspaceFolder: vscode.WorkspaceFolder | undefined = this
+      .activeWorkspaceFolder
   ) {
     try {
       console.log(
         `HTFlow: Executing command for panel display: ${command}, folder: ${folder}`
       );
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
       if (!workspaceFolder) {
         vscode.window.showErrorMessage("No workspace folder found");
         return;
       }
 
-      // Construct the full command
-      let commandText: string;
-      switch (command) {
-        case "init":
-          commandText = "npx htflow init";
-          break;
-        case "validate":
-          commandText = "npx htflow validate";
-          break;
-        case "build":
-          commandText = "npx htflow build";
-          break;
-        case "audit --html":
-          commandText = "npx htflow audit --html";
-          break;
-        case "version":
-          commandText = "npx htflow --version";
-          break;
-        case "mcp-install":
-          commandText = "npx htflow mcp-install";
-          break;
-        case "mcp-uninstall":
-          commandText = "npx htflow mcp-uninstall";
-          break;
-        case "mcp-status":
-          commandText = "npx htflow mcp-status";
-          break;
-        default:
-          commandText =
-            folder && folder.trim()
-              ? `npx htflow ${command} ${folder.trim()}`
-              : `npx htflow ${command}`;
+      if (command === "validate" && this.isCliMissing(workspaceFolder)) {
+        await this.runOfflineValidation("validate", folder, workspaceFolder);
+        return;
       }
 
+      // Project commands take the folder (or, for validate, the file) they
+      // should run on
+      const commandText = buildCliCommand(command, folder);
+
+      // Webview command that triggered this run, used to pick the results
+      // container in the panel
+      const source =
+        command === "audit --html" ? "htflow.audit.html" : `htflow.${command}`;
+
       console.log(`HTFlow: Executing command: ${commandText}`);
 
-      // Create and show terminal for user to see command execution
-      const terminal = vscode.window.createTerminal({
-        name: `HTFlow: ${command}`,
-        cwd: workspaceFolder.uri.fsPath,
+      // Validation runs refresh the Problems panel. `audit --html` writes a
+      // report file rather than a listing, so it has no issues to publish.
+      const reportsIssues = command === "validate";
+      const { job, result, coalesced } = await this._jobs.run({
+        kind: command,
+        title: `HTFlow: ${command}`,
+        command: commandText,
+        folder: path.join(workspaceFolder.uri.fsPath, folder?.trim() ?? ""),
+        start: () => {
+          if (reportsIssues) {
+            this._diagnostics.clear(workspaceFolder);
+          }
+          return runInTerminal({
+            command: commandText,
+            cwd: workspaceFolder.uri.fsPath,
+            terminalName: `HTFlow: ${command}`,
+            onOutput: (chunk) =>
+              this.broadcast({
+                command: "commandOutput",
+                data: { source, command: commandText, chunk },
+              }),
+          });
+        },
       });
 
-      terminal.show();
-      terminal.sendText(commandText);
-
-      // Also execute command and capture output for panel results
-      const { exec } = require("child_process");
-      const util = require("util");
-      const execPromise = util.promisify(exec);
+      if (coalesced) {
+        return;
+      }
+      if (!result) {
+        console.log(`HTFlow: ${command} ${job.state} before it started`);
+        return;
+      }
 
-      const startTime = Date.now();
+      if (command === "validate" && isCliUnavailable(result)) {
+        await this.runOfflineValidation("validate", folder, workspaceFolder);
+        return;
+      }
 
-      try {
-        const { stdout, stderr } = await execPromise(commandText, {
-          cwd: workspaceFolder.uri.fsPath,
-          maxBuffer: 1024 * 1024 * 10, // 10MB buffer for large outputs
-        });
+      const output =
+        result.output ||
+        (result.success
+          ? "Command completed successfully (no output)"
+          : "Command failed with no output");
+      console.log(
+        `HTFlow: Command exited with code ${result.exitCode} (${output.length} chars):`,
+        output.substring(0, 500) + (output.length > 500 ? "..." : "")
+      );
 
-        const duration = Date.now() - startTime;
-        const output =
-          stdout || stderr || "Command completed successfully (no output)";
-        console.log(
-          `HTFlow: Command output captured (${output.length} chars):`,
-          output.substring(0, 500) + (output.length > 500 ? "..." : "")
-        );
+      if (reportsIssues) {
+        await this.publishDiagnostics(output, workspaceFolder, folder);
+      }
 
-        // Prepare command result data
-        const commandData = {
+      this.broadcast({
+        command: "commandResults",
+        data: {
           command: commandText,
+          source: source,
           output: output,
-          success: true,
-          exitCode: 0,
-          duration: duration,
-        };
-
-        // Send results to panel (both sidebar and right-side panels)
-        if (this.webviewView) {
-          this.webviewView.webview.postMessage({
-            command: "commandResults",
-            data: commandData,
-          });
-          console.log(`HTFlow: Command results sent to sidebar panel`);
-        }
-
-        // Also send to right-side panel if it exists
-        if (this.currentPanel) {
-          this.currentPanel.webview.postMessage({
-            command: "commandResults",
-            data: commandData,
-          });
-          console.log(`HTFlow: Command results sent to right-side panel`);
-        }
+          success: result.success,
+          error: !result.success,
+          exitCode: result.exitCode,
+          duration: result.duration,
+          jobState: job.state,
+        },
+      });
 
+      if (job.state === "cancelled" || job.state === "timedOut") {
+        console.log(`HTFlow: ${command} ${job.state}`);
+      } else if (result.success) {
         vscode.window.showInformationMessage(successMessage);
-      } catch (execError: any) {
-        const duration = Date.now() - startTime;
-        console.error(`HTFlow: Command failed:`, execError);
-
-        // Even if command fails, try to send the error output to panel
-        const errorOutput =
-          execError.stdout ||
-          execError.stderr ||
-          execError.message ||
-          "Command failed with no output";
-        console.log(
-          `HTFlow: Error output captured (${errorOutput.length} chars):`,
-          errorOutput.substring(0, 500) +
-            (errorOutput.length > 500 ? "..." : "")
-        );
-
-        const commandData = {
-          command: commandText,
-          output: errorOutput,
-          error: true,
-          success: false,
-          exitCode: execError.code || 1,
-          duration: duration,
-        };
-
-        if (this.webviewView) {
-          this.webviewView.webview.postMessage({
-            command: "commandResults",
-            data: commandData,
-          });
-        }
-        if (this.currentPanel) {
-          this.currentPanel.webview.postMessage({
-            command: "commandResults",
-            data: commandData,
-          });
-        }
-
+      } else {
         vscode.window.showErrorMessage(
-          `HTFlow command failed: ${execError.message}`
+          `HTFlow command failed with exit code ${result.exitCode}: ${commandText}`
         );
       }
     } catch (error) {
@@ -1043,6 +1169,328 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  private async publishDiagnostics(
+    output: string,
+    workspaceFolder: vscode.WorkspaceFolder,
+    folder?: string
+  ): Promise<AuditReport | undefined> {
+    try {
+      const report = await suppressReport(
+        parseAuditOutput(output),
+        workspaceFolder,
+        this._configManager.get(workspaceFolder),
+        folder
+      );
+      this._diagnostics.update(report, workspaceFolder, folder);
+      return report;
+    } catch (error) {
+      console.error("HTFlow: Failed to publish diagnostics:", error);
+      return undefined;
+    }
+  }
+
+  // Only the active project's audit is shown; others are kept for when the
+  // user switches to them
+  private storeAudit(
+    workspaceFolder: vscode.WorkspaceFolder,
+    folder: string | undefined,
+    output: string,
+    report: AuditReport | undefined,
+    exitCode: number,
+    duration: number,
+    addToHistory: boolean
+  ) {
+    const key = folderKey(workspaceFolder);
+    this._lastAudits.set(key, { output, report, folder });
+    // The panel and history only get issues that are not baselined
+    const visible =
+      report && this._baseline.filterReport(report, workspaceFolder, folder);
+    if (visible && addToHistory) {
+      this._auditHistory.add(workspaceFolder, folder, visible);
+    }
+
+    if (key === folderKey(this.activeWorkspaceFolder)) {
+      this.broadcast({
+        command: "auditResults",
+        output,
+        report: visible,
+        exitCode,
+        duration,
+      });
+      this.broadcast({
+        command: "auditHistory",
+        runs: this.getAuditHistory(workspaceFolder),
+      });
+      this._onDidChangeActiveAudit.fire();
+    }
+  }
+
+  private getAuditHistory(
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): AuditRunPayload[] {
+    if (!workspaceFolder) {
+      return [];
+    }
+    return this._auditHistory
+      .runs(workspaceFolder)
+      .map(({ id, timestamp, folder, format, summary }) => ({
+        id,
+        timestamp,
+        folder,
+        format,
+        summary,
+      }));
+  }
+
+  // Set once `npx htflow --version` has failed for the folder
+  private isCliMissing(workspaceFolder: vscode.WorkspaceFolder): boolean {
+    return (
+      this._cliStatuses.get(folderKey(workspaceFolder))?.installed === false
+    );
+  }
+
+  // Check the core rules from .htflowrc.json with the built-in validator in
+  // place of `htflow audit` / `htflow validate`, so the panel and the
+  // Problems view still get results without the CLI
+  private async runOfflineValidation(
+    command: "audit" | "validate",
+    folder: string | undefined,
+    workspaceFolder: vscode.WorkspaceFolder
+  ) {
+    const startTime = Date.now();
+    const config = this._configManager.get(workspaceFolder);
+    const report = await suppressReport(
+      await validateFolder(workspaceFolder.uri.fsPath, config, folder),
+      workspaceFolder,
+      config,
+      folder
+    );
+    const duration = Date.now() - startTime;
+    const output = formatOfflineReport(report);
+    const exitCode = report.summary.errors > 0 ? 1 : 0;
+    console.log(
+      `HTFlow: Offline ${command} found ${report.issues.length} issues in ${report.summary.files} files`
+    );
+
+    this._diagnostics.update(report, workspaceFolder, folder);
+
+    if (command === "audit") {
+      this.storeAudit(
+        workspaceFolder,
+        folder,
+        output,
+        report,
+        exitCode,
+        duration,
+        true
+      );
+    } else {
+      this.broadcast({
+        command: "commandResults",
+        data: {
+          command: `${buildCliCommand(command, folder)} (offline)`,
+          source: `htflow.${command}`,
+          output,
+          success: exitCode === 0,
+          error: exitCode !== 0,
+          exitCode,
+          duration,
+          jobState: exitCode === 0 ? "succeeded" : "failed",
+        },
+      });
+    }
+
+    vscode.window.showWarningMessage(
+      `HTFlow CLI is not available, so the built-in rules were checked instead: ${report.summary.errors} errors, ${report.summary.warnings} warnings in ${report.summary.files} files.`
+    );
+  }
+
+  // Newer CLI releases accept `audit --json`; check the help text once per
+  // folder so older installs keep using the text output.
+  private async supportsAuditJson(cwd: string): Promise<boolean> {
+    const cached = this._auditJsonSupport.get(cwd);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { exec } = require("child_process");
+    const util = require("util");
+    const execPromise = util.promisify(exec);
+
+    let supported = false;
+    try {
+      const { stdout, stderr } = await execPromise("npx htflow audit --help", {
+        cwd,
+        timeout: 15000,
+      });
+      supported = /--json\b/.test(`${stdout}${stderr}`);
+    } catch (error) {
+      console.log("HTFlow: Could not read audit help, using text output");
+    }
+
+    console.log(`HTFlow: CLI audit JSON output supported: ${supported}`);
+    this._auditJsonSupport.set(cwd, supported);
+    return supported;
+  }
+
+  // Entry point for the htflow.* VS Code commands (Command Palette, explorer
+  // context menu, keybindings). `uri` is the folder or file the command was
+  // invoked on; without one the command targets the workspace root.
+  public async runCliAction(action: CliAction, uri?: vscode.Uri) {
+    const target = await this.resolveCommandTarget(uri);
+    if (!target) {
+      return;
+    }
+    const { workspaceFolder, folder, file } = target;
+
+    // Show the results for the project the command ran on
+    this.selectProject(workspaceFolder);
+
+    switch (action) {
+      case "init":
+        await this.executeHTFlowCommandForPanel(
+          "init",
+          "HTFlow project initialized successfully!",
+          folder,
+          workspaceFolder
+        );
+        break;
+      case "validate":
+        await this.executeHTFlowCommandForPanel(
+          "validate",
+          "Validation completed successfully!",
+          file ?? folder,
+          workspaceFolder
+        );
+        break;
+      case "audit":
+        await this.executeHTFlowAuditForPanel(
+          folder,
+          "Audit completed successfully!",
+          workspaceFolder
+        );
+        break;
+      case "audit --html":
+        await this.executeHTFlowCommandForPanel(
+          "audit --html",
+          "HTML audit report generated successfully!",
+          folder,
+          workspaceFolder
+        );
+        break;
+      case "build":
+        await this.executeHTFlowCommandForPanel(
+          "build",
+          "Project built successfully!",
+          folder,
+          workspaceFolder
+        );
+        break;
+      case "serveDev":
+        await this.startHTFlowServer(
+          3050,
+          "dev",
+          folder,
+          "sidebar",
+          false,
+          workspaceFolder
+        );
+        break;
+      case "serveProd":
+        await this.startHTFlowServer(
+          3051,
+          "start",
+          folder,
+          "sidebar",
+          false,
+          workspaceFolder
+        );
+        break;
+      case "mcp-install":
+        await this.executeHTFlowCommandForPanel(
+          "mcp-install",
+          "MCP configuration installed successfully!",
+          undefined,
+          workspaceFolder
+        );
+        break;
+      case "mcp-uninstall":
+        await this.executeHTFlowCommandForPanel(
+          "mcp-uninstall",
+          "MCP configuration uninstalled successfully!",
+          undefined,
+          workspaceFolder
+        );
+        break;
+      case "mcp-status":
+        await this.executeHTFlowCommandForPanel(
+          "mcp-status",
+          "MCP status checked successfully!",
+          undefined,
+          workspaceFolder
+        );
+        break;
+      case "version":
+        await this.executeHTFlowCommandForPanel(
+          "version",
+          "HTFlow version checked successfully!",
+          undefined,
+          workspaceFolder
+        );
+        break;
+    }
+  }
+
+  // Turn a command's Uri into its workspace folder and paths relative to
+  // it. Files target their parent folder, and are kept as `file` for
+  // validate. Without a Uri the user picks the project when several are open.
+  private async resolveCommandTarget(uri?: vscode.Uri): Promise<
+    | {
+        workspaceFolder: vscode.WorkspaceFolder;
+        folder?: string;
+        file?: string;
+      }
+    | undefined
+  > {
+    if (!uri || uri.scheme !== "file") {
+      const workspaceFolder = await pickWorkspaceFolder(
+        this.activeWorkspaceFolder
+      );
+      return workspaceFolder ? { workspaceFolder } : undefined;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage(
+        `${uri.fsPath} is not inside a workspace folder`
+      );
+      return undefined;
+    }
+
+    const relativePath = path.relative(workspaceFolder.uri.fsPath, uri.fsPath);
+
+    let isFile = false;
+    try {
+      isFile = fs.statSync(uri.fsPath).isFile();
+    } catch (error) {
+      console.log(`HTFlow: Could not stat ${uri.fsPath}:`, error);
+    }
+
+    const toCliPath = (value: string) =>
+      value === "" || value === "."
+        ? undefined
+        : value.split(path.sep).join("/");
+
+    if (isFile) {
+      return {
+        workspaceFolder,
+        folder: toCliPath(path.dirname(relativePath)),
+        file: toCliPath(relativePath),
+      };
+    }
+    return { workspaceFolder, folder: toCliPath(relativePath) };
+  }
+
   private findRunningServerByPort(
     port: number,
     mode?: string
@@ -1060,7 +1508,9 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
     mode: string = "dev",
     folder?: string,
     origin: "sidebar" = "sidebar",
-    hasUserSpecifiedPort: boolean = false
+    hasUserSpecifiedPort: boolean = false,
+    workspaceFolder: vscode.WorkspaceFolder | undefined = this
+      .activeWorkspaceFolder
   ): Promise<{ serverId: string; server: RunningServer } | undefined> {
     // Use proper defaults based on mode
     const defaultPort = mode === "dev" ? 3050 : mode === "start" ? 3051 : 3000;
@@ -1073,7 +1523,7 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
 
       if (existing) {
         const { serverId, server } = existing;
-        server.terminal.show();
+        server.terminal?.show();
 
         vscode.window.showInformationMessage(
           `HTFlow ${server.mode} server already running on port ${server.port}`
@@ -1082,7 +1532,6 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
         return existing;
       }
 
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
       if (!workspaceFolder) {
         vscode.window.showErrorMessage(
           "Cannot start HTFlow server: no workspace folder is open"
@@ -1090,78 +1539,75 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
         return undefined;
       }
 
-      const serverId = `${mode}-${normalizedPort}-${Date.now()}`;
-      const terminal = vscode.window.createTerminal({
-        name: `HTFlow Server (${mode}:${normalizedPort})`,
+      // Without a user port the CLI picks its own and prints it, so there is
+      // nothing to probe; updateServerPort follows what it reports
+      const serverPort = hasUserSpecifiedPort
+        ? await this.resolveServerPort(normalizedPort, mode)
+        : normalizedPort;
+      if (serverPort === undefined) {
+        return undefined;
+      }
+
+      const serverId = `${mode}-${serverPort}-${Date.now()}`;
+      const folderValue = folder?.trim() ?? "";
+      // Without a user port the CLI chooses its own default
+      const command = buildServeCommand(
+        mode,
+        folderValue,
+        hasUserSpecifiedPort ? serverPort : undefined
+      );
+
+      console.log(`HTFlow: Executing command: ${command}`);
+
+      let output = "";
+      const running = runInTerminal({
+        command,
         cwd: workspaceFolder.uri.fsPath,
+        terminalName: `HTFlow Server (${mode}:${serverPort})`,
+        onOutput: (chunk) => {
+          // Only the startup banner matters for port discovery
+          if (output.length < 64 * 1024) {
+            output += chunk;
+          }
+          this.updateServerPort(serverId, output);
+        },
       });
 
       // Store terminal reference for later cleanup
-      this._terminals.set(serverId, terminal);
+      this._terminals.set(serverId, running.terminal);
 
-      const folderValue = folder?.trim() ?? "";
       const serverInfo: RunningServer = {
-        port: normalizedPort,
+        workspaceFolder,
+        port: serverPort,
+        requestedPort:
+          serverPort !== normalizedPort ? normalizedPort : undefined,
         mode,
         folder: folderValue,
         startTime: new Date(),
-        terminal,
+        status: "starting",
+        terminal: running.terminal,
+        process: running,
         origin,
       };
 
       this._runningServers.set(serverId, serverInfo);
-
-      terminal.show();
-      const folderArg = folderValue ? ` ${folderValue}` : "";
-
-      // Use different commands based on mode and port specification
-      let command;
-      if (mode === "dev" && !hasUserSpecifiedPort) {
-        // For dev mode without user port, use htflow dev (lets CLI choose default)
-        command = `npx htflow dev${folderArg}`;
-      } else if (mode === "start" && !hasUserSpecifiedPort) {
-        // For prod mode without user port, use htflow serve (lets CLI choose default)
-        command = `npx htflow serve${folderArg}`;
-      } else {
-        // When user specifies port, use htflow serve with -p flag
-        const portArg = ` -p ${normalizedPort}`;
-        command = `npx htflow serve ${mode}${folderArg}${portArg}`;
-      }
-
-      console.log(`HTFlow: Executing command: ${command}`);
-      terminal.sendText(command);
+      this.persistServers();
 
       const folderText = folderValue ? ` from folder '${folderValue}'` : "";
-      const statusMessage = `HTFlow ${mode} server starting on port ${normalizedPort}${folderText}...`;
+      const statusMessage = `HTFlow ${mode} server starting on port ${serverPort}${folderText}...`;
 
       vscode.window.showInformationMessage(statusMessage);
 
-      const payload = {
-        port: serverInfo.port,
-        mode: serverInfo.mode,
-        folder: serverInfo.folder,
-        startTime: serverInfo.startTime.toISOString(),
-      };
+      const payload = toServerPayload(serverInfo);
 
-      if (this._view) {
-        console.log(`HTFlow: Sending serverStarted message to sidebar view:`, {
-          command: "serverStarted",
-          serverId,
-          serverInfo: payload,
-        });
-        this._view.webview.postMessage({
-          command: "serverStarted",
-          serverId,
-          serverInfo: payload,
-        });
-      }
+      console.log(`HTFlow: Broadcasting serverStarted:`, serverId, payload);
+      this.broadcast({
+        command: "serverStarted",
+        serverId,
+        serverInfo: payload,
+      });
 
-      setTimeout(() => {
-        vscode.commands.executeCommand(
-          "vscode.open",
-          vscode.Uri.parse(`http://localhost:${normalizedPort}`)
-        );
-      }, 3000);
+      this.watchServerStartup(serverId, serverInfo, running);
 
       console.log(`HTFlow: Server started with ID ${serverId}`);
       return { serverId, server: serverInfo };
@@ -1176,23 +1622,176 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  // Probe the port before launching. When something outside this extension
+  // already listens on it, say which process owns it and offer the next
+  // free port instead. Resolves undefined when the user cancels.
+  private async resolveServerPort(
+    port: number,
+    mode: string
+  ): Promise<number | undefined> {
+    if (!(await isPortInUse(port))) {
+      return port;
+    }
+
+    const [owner, freePort] = await Promise.all([
+      findPortOwner(port),
+      findFreePort(port),
+    ]);
+    const ownerText = owner
+      ? ` by ${owner.name ?? "process"} (PID ${owner.pid})`
+      : "";
+    console.log(`HTFlow: Port ${port} is already in use${ownerText}`);
+
+    if (freePort === undefined) {
+      vscode.window.showErrorMessage(
+        `Cannot start HTFlow ${mode} server: port ${port} is already in use${ownerText} and no free port was found nearby.`
+      );
+      return undefined;
+    }
+
+    const usePort = `Use Port ${freePort}`;
+    const choice = await vscode.window.showWarningMessage(
+      `Port ${port} is already in use${ownerText}.`,
+      usePort,
+      "Cancel"
+    );
+    return choice === usePort ? freePort : undefined;
+  }
+
+  // The CLI may pick a different port than requested (e.g. `htflow dev`
+  // uses its own default), so follow the URL it prints while starting up
+  private updateServerPort(serverId: string, output: string) {
+    const server = this._runningServers.get(serverId);
+    if (!server || server.status !== "starting") {
+      return;
+    }
+
+    const port = detectPortFromOutput(output);
+    if (port === undefined || port === server.port) {
+      return;
+    }
+
+    console.log(
+      `HTFlow: Server ${serverId} reported port ${port} (requested ${server.port})`
+    );
+    server.port = port;
+    this.persistServers();
+    this.broadcast({
+      command: "serverUpdated",
+      serverId,
+      serverInfo: toServerPayload(server),
+    });
+  }
+
+  // Wait for the server's port to answer before opening the browser, and
+  // report servers that exit before they get there
+  private async watchServerStartup(
+    serverId: string,
+    server: RunningServer,
+    running: RunningProcess
+  ) {
+    let exited = false;
+    running.result.then((result) => {
+      exited = true;
+      this.handleServerExit(serverId, server, result);
+    });
+
+    const port = await waitForPort({
+      getPort: () => server.port,
+      timeoutMs: SERVER_READY_TIMEOUT,
+      isCancelled: () =>
+        exited || this._runningServers.get(serverId) !== server,
+    });
+
+    if (exited || this._runningServers.get(serverId) !== server) {
+      return;
+    }
+
+    if (port === undefined) {
+      console.warn(`HTFlow: Server ${serverId} did not answer in time`);
+      vscode.window.showWarningMessage(
+        `HTFlow ${server.mode} server is not answering on port ${
+          server.port
+        } after ${SERVER_READY_TIMEOUT / 1000}s. Check the terminal output.`
+      );
+      return;
+    }
+
+    server.status = "ready";
+    // The pid is known by now, so store it for reconciling after a reload
+    const pid = running.pid();
+    if (pid !== undefined) {
+      server.pid = pid;
+      server.pidStartTime = await processStartTime(pid);
+    }
+    this.persistServers();
+    console.log(`HTFlow: Server ${serverId} is ready on port ${port}`);
+    this.broadcast({
+      command: "serverUpdated",
+      serverId,
+      serverInfo: toServerPayload(server),
+    });
+
+    vscode.commands.executeCommand(
+      "vscode.open",
+      vscode.Uri.parse(`http://localhost:${port}`)
+    );
+  }
+
+  private handleServerExit(
+    serverId: string,
+    server: RunningServer,
+    result: ProcessResult
+  ) {
+    // Already removed by stopServer
+    if (this._runningServers.get(serverId) !== server) {
+      return;
+    }
+
+    this._runningServers.delete(serverId);
+    this._terminals.delete(serverId);
+    this.persistServers();
+
+    if (server.status === "starting") {
+      server.status = "failed";
+      const error =
+        outputTail(result.output) ||
+        `Process exited with code ${result.exitCode}`;
+
+      console.error(`HTFlow: Server ${serverId} failed to start:`, error);
+      this.broadcast({
+        command: "serverFailed",
+        serverId,
+        port: server.port,
+        error,
+      });
+      vscode.window.showErrorMessage(
+        `HTFlow ${server.mode} server failed to start (exit code ${result.exitCode}). See the terminal for details.`
+      );
+      return;
+    }
+
+    console.log(
+      `HTFlow: Server ${serverId} exited with code ${result.exitCode}`
+    );
+    this.broadcast({
+      command: "serverStopped",
+      serverId,
+      port: server.port,
+    });
+  }
+
   private async handleToolAction(tool: string) {
     try {
       switch (tool) {
         case "react-to-htflow":
-          vscode.window.showInformationMessage(
-            "React to HTFlow converter - Feature coming soon!"
-          );
+          await vscode.commands.executeCommand("htflow.convertReact");
           break;
         case "tailwind-to-css":
-          vscode.window.showInformationMessage(
-            "Tailwind to CSS converter - Feature coming soon!"
-          );
+          await vscode.commands.executeCommand("htflow.convertTailwind");
           break;
         case "css-optimizer":
-          vscode.window.showInformationMessage(
-            "CSS optimizer - Feature coming soon!"
-          );
+          await vscode.commands.executeCommand("htflow.optimizeCss");
           break;
         default:
           vscode.window.showInformationMessage(`Tool action: ${tool}`);
@@ -1226,7 +1825,7 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
 
   private async validateSpecificFile(filePath: string) {
     try {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+      const workspaceFolder = this.activeWorkspaceFolder;
       if (workspaceFolder) {
         const fullPath = path.join(workspaceFolder.uri.fsPath, filePath);
         const terminal = vscode.window.createTerminal({
@@ -1250,7 +1849,7 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
 
   private async checkHTFlowVersion() {
     try {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+      const workspaceFolder = this.activeWorkspaceFolder;
       if (workspaceFolder) {
         const terminal = vscode.window.createTerminal({
           name: "HTFlow Version",
@@ -1322,31 +1921,26 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
           (resolvedPort ? ` on port ${resolvedPort}` : "")
       );
 
+      // Remove first so the exit handler treats this as a requested stop
+      this._runningServers.delete(serverId);
+      this.persistServers();
+      if (serverInfo) {
+        await this.killServer(serverInfo);
+      }
+
       const terminal =
         this._terminals.get(serverId) ?? serverInfo?.terminal ?? null;
       if (terminal) {
-        try {
-          terminal.sendText("\u0003", false);
-        } catch (e) {
-          console.log(
-            `HTFlow: Unable to send interrupt to server ${serverId}:`,
-            e
-          );
-        }
         terminal.dispose();
         this._terminals.delete(serverId);
         console.log(`HTFlow: Terminal disposed for server ${serverId}`);
       }
 
-      this._runningServers.delete(serverId);
-
-      if (this._view) {
-        this._view.webview.postMessage({
-          command: "serverStopped",
-          serverId,
-          port: resolvedPort,
-        });
-      }
+      this.broadcast({
+        command: "serverStopped",
+        serverId,
+        port: resolvedPort,
+      });
 
       const successMessage = resolvedPort
         ? `HTFlow server on port ${resolvedPort} stopped successfully`
@@ -1367,6 +1961,117 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  // A restored server is only signalled while its pid still belongs to the
+  // process that was started, as the pid may have been reused since
+  private async killServer(server: RunningServer) {
+    if (server.process) {
+      server.process.kill();
+    } else if (
+      server.pid !== undefined &&
+      (await isSameProcess(server.pid, server.pidStartTime))
+    ) {
+      killProcessTree(server.pid);
+    }
+  }
+
+  // Closing a server terminal by hand ends its process (the pseudoterminal
+  // kills it), so drop the server instead of leaving a ghost entry
+  private handleTerminalClosed(terminal: vscode.Terminal) {
+    for (const [serverId, serverTerminal] of this._terminals.entries()) {
+      if (serverTerminal !== terminal) {
+        continue;
+      }
+
+      this._terminals.delete(serverId);
+      const server = this._runningServers.get(serverId);
+      if (!server) {
+        continue;
+      }
+
+      console.log(`HTFlow: Terminal closed for server ${serverId}`);
+      this._runningServers.delete(serverId);
+      this.killServer(server);
+      this.persistServers();
+      this.broadcast({ command: "serverStopped", serverId, port: server.port });
+    }
+  }
+
+  private persistServers() {
+    const records: PersistedServer[] = Array.from(
+      this._runningServers.entries()
+    ).map(([serverId, server]) => ({
+      serverId,
+      workspaceFolder: server.workspaceFolder.uri.toString(),
+      port: server.port,
+      requestedPort: server.requestedPort,
+      mode: server.mode,
+      folder: server.folder,
+      startTime: server.startTime.toISOString(),
+      pid: server.process?.pid() ?? server.pid,
+      pidStartTime: server.pidStartTime,
+      terminalName: server.terminal?.name,
+    }));
+
+    this._workspaceState.update(SERVERS_STATE_KEY, records);
+  }
+
+  // Bring back servers from before a window reload that are still alive:
+  // the process started then must still run (same pid and start time) and
+  // its port must still answer. Everything else is dropped.
+  private async restoreServers() {
+    const records = this._workspaceState.get<PersistedServer[]>(
+      SERVERS_STATE_KEY,
+      []
+    );
+    if (records.length === 0) {
+      return;
+    }
+
+    for (const record of records) {
+      const workspaceFolder = record.workspaceFolder
+        ? findWorkspaceFolder(record.workspaceFolder)
+        : undefined;
+      if (!workspaceFolder) {
+        console.log(`HTFlow: Dropping server ${record.serverId} (no folder)`);
+        continue;
+      }
+
+      const terminal = vscode.window.terminals.find(
+        (candidate) => candidate.name === record.terminalName
+      );
+      const alive =
+        record.pid !== undefined &&
+        (await isSameProcess(record.pid, record.pidStartTime));
+
+      if (!alive || !(await isPortInUse(record.port))) {
+        console.log(`HTFlow: Dropping stale server ${record.serverId}`);
+        continue;
+      }
+
+      console.log(
+        `HTFlow: Restored server ${record.serverId} on port ${record.port}`
+      );
+      this._runningServers.set(record.serverId, {
+        workspaceFolder,
+        port: record.port,
+        requestedPort: record.requestedPort,
+        mode: record.mode,
+        folder: record.folder,
+        startTime: new Date(record.startTime),
+        status: "ready",
+        terminal,
+        pid: record.pid,
+        pidStartTime: record.pidStartTime,
+        origin: "sidebar",
+      });
+      if (terminal) {
+        this._terminals.set(record.serverId, terminal);
+      }
+    }
+
+    this.persistServers();
+  }
+
   public dispose() {
     // Clean up file watcher
     if (this._fileWatcher) {
@@ -1375,16 +2080,57 @@ export class HTFlowSidebarProvider implements vscode.WebviewViewProvider {
       console.log("HTFlow: File watcher disposed");
     }
 
-    // Clean up all running terminals
-    this._terminals.forEach((terminal, serverId) => {
-      terminal.dispose();
-      console.log(`HTFlow: Terminal disposed for server ${serverId}`);
-    });
+    // Servers keep running: a window reload deactivates the extension too,
+    // and restoreServers picks them up again on the next activation.
+    // Disposing their terminals would end them.
     this._terminals.clear();
     this._runningServers.clear();
+
+    this._terminalListener.dispose();
+    this._projectListeners.forEach((listener) => listener.dispose());
+    this._onDidChangeActiveAudit.dispose();
+    this._jobs.dispose();
   }
 }
 
+function toServerPayload(server: RunningServer): ServerInfoPayload {
+  return {
+    workspaceFolder: server.workspaceFolder.name,
+    port: server.port,
+    requestedPort: server.requestedPort,
+    mode: server.mode,
+    folder: server.folder,
+    startTime: server.startTime.toISOString(),
+    status: server.status,
+  };
+}
+
+// Key for per-folder state; "" when no folder is open
+function folderKey(workspaceFolder?: vscode.WorkspaceFolder): string {
+  return workspaceFolder?.uri.toString() ?? "";
+}
+
+// Last few lines of a server's output, for reporting why it did not start
+function outputTail(output: string, lines: number = 10): string {
+  return stripAnsi(output)
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line !== "")
+    .slice(-lines)
+    .join("\n");
+}
+
+// npx could not find or download the CLI, as opposed to the CLI reporting
+// issues
+function isCliUnavailable(result: ProcessResult): boolean {
+  return (
+    !result.success &&
+    /could not determine executable|command not found|is not recognized as an internal|\bE404\b|ENOTFOUND|EAI_AGAIN/i.test(
+      result.output
+    )
+  );
+}
+
 function getNonce() {
   let text = "";
   const possible =
@@ -0,0 +1,245 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AuditIssue,
+  AuditReport,
+  summarizeIssues,
+  UnusedSuppression,
+} from "./auditReport";
+import { HTFlowConfig } from "./config";
+import { resolveIssuePath } from "./diagnostics";
+import { checkedRules, collectFiles, isFilePath } from "./offlineValidator";
+
+// `htflow-disable-next-line`, `htflow-disable-line`, or an
+// `htflow-disable` ... `htflow-enable` block, in an HTML, CSS or JS comment.
+// Rule ids may follow, separated by spaces or commas, then "-- reason". A
+// line comment in an inline script ends at </script>.
+const DIRECTIVE =
+  /(?:<!--|\/\*|\/\/)\s*htflow-(disable-next-line|disable-line|disable|enable)\b(.*?)(?:-->|\*\/|(?=<\/script)|$)/g;
+
+export type Suppression = {
+  kind: "next-line" | "line" | "block";
+  // 1-based position of the comment, and the comment as written
+  line: number;
+  column: number;
+  text: string;
+  // 1-based lines the comment covers, inclusive
+  from: number;
+  to: number;
+  // Empty when every rule is suppressed
+  rules: string[];
+};
+
+export type SuppressionResult = {
+  issues: AuditIssue[];
+  suppressed: number;
+  unused: Suppression[];
+};
+
+export function parseSuppressions(text: string): Suppression[] {
+  if (!/htflow-(disable|enable)/.test(text)) {
+    return [];
+  }
+
+  const lines = text.split(/\r?\n/);
+  const suppressions: Suppression[] = [];
+  // Blocks waiting for their htflow-enable
+  const open: Suppression[] = [];
+
+  lines.forEach((lineText, index) => {
+    const line = index + 1;
+    for (const match of lineText.matchAll(DIRECTIVE)) {
+      const rules = parseRules(match[2]);
+      const comment = {
+        line,
+        column: (match.index ?? 0) + 1,
+        text: match[0],
+        rules,
+      };
+
+      switch (match[1]) {
+        case "disable-next-line":
+          suppressions.push({
+            ...comment,
+            kind: "next-line",
+            from: line + 1,
+            to: line + 1,
+          });
+          break;
+        case "disable-line":
+          suppressions.push({ ...comment, kind: "line", from: line, to: line });
+          break;
+        case "disable": {
+          const block: Suppression = {
+            ...comment,
+            kind: "block",
+            from: line,
+            to: lines.length,
+          };
+          suppressions.push(block);
+          open.push(block);
+          break;
+        }
+        case "enable":
+          // Ends the blocks it names every rule of, or all of them
+          for (const block of [...open]) {
+            if (
+              rules.length === 0 ||
+              (block.rules.length > 0 &&
+                block.rules.every((rule) => rules.includes(rule)))
+            ) {
+              block.to = line;
+              open.splice(open.indexOf(block), 1);
+            }
+          }
+          break;
+      }
+    }
+  });
+
+  return suppressions;
+}
+
+// Whether a suppression comment hides the issue
+export function isSuppressedBy(
+  suppression: Suppression,
+  issue: Pick<AuditIssue, "line" | "rule">
+): boolean {
+  return (
+    issue.line !== undefined &&
+    issue.line >= suppression.from &&
+    issue.line <= suppression.to &&
+    (suppression.rules.length === 0 ||
+      (!!issue.rule && suppression.rules.includes(issue.rule)))
+  );
+}
+
+// Drop the issues of one file that its suppression comments cover. Unused
+// comments are only reported when `isChecked` says the run could have
+// produced the issues they name.
+export function applySuppressions(
+  issues: AuditIssue[],
+  text: string,
+  isChecked: (suppression: Suppression) => boolean = () => true
+): SuppressionResult {
+  const suppressions = parseSuppressions(text);
+  if (suppressions.length === 0) {
+    return { issues, suppressed: 0, unused: [] };
+  }
+
+  const used = new Set<Suppression>();
+  const kept = issues.filter((issue) => {
+    const suppression = suppressions.find((candidate) =>
+      isSuppressedBy(candidate, issue)
+    );
+    if (suppression) {
+      used.add(suppression);
+    }
+    return !suppression;
+  });
+
+  return {
+    issues: kept,
+    suppressed: issues.length - kept.length,
+    unused: suppressions.filter(
+      (suppression) => !used.has(suppression) && isChecked(suppression)
+    ),
+  };
+}
+
+// Whether a run that checked `rules` in a file could have produced the
+// issues a suppression comment names. A comment for every rule cannot be
+// judged from one run.
+export function isCheckedSuppression(
+  suppression: Suppression,
+  rules: string[]
+): boolean {
+  return (
+    suppression.rules.length > 0 &&
+    suppression.rules.every((rule) => rules.includes(rule))
+  );
+}
+
+// Apply the suppression comments in the audited files to a report. A comment
+// is only reported as unused for rules the run checked in its file: those
+// the built-in validator applies to the file type, or for a CLI report, the
+// rules it reported issues for in that file. So offline runs read every
+// file of the audited folder, CLI runs only the files with issues.
+export async function suppressReport(
+  report: AuditReport,
+  workspaceFolder: vscode.WorkspaceFolder,
+  config: HTFlowConfig,
+  folder?: string
+): Promise<AuditReport> {
+  const root = workspaceFolder.uri.fsPath;
+  const base = path.join(root, folder?.trim() ?? "");
+  const isFile = await isFilePath(base);
+  // Same base as the built-in validator uses for issue paths
+  const relativeTo = isFile ? root : base;
+  const outDir = config.build.outDir
+    ? path.resolve(root, config.build.outDir)
+    : undefined;
+  const isOffline = report.format === "offline";
+
+  const byFile = new Map<string, AuditIssue[]>();
+  if (isOffline) {
+    for (const file of isFile ? [base] : await collectFiles(base, outDir)) {
+      byFile.set(file, []);
+    }
+  }
+  for (const issue of report.issues) {
+    const filePath = resolveIssuePath(issue, workspaceFolder, folder);
+    if (filePath) {
+      byFile.set(filePath, [...(byFile.get(filePath) ?? []), issue]);
+    }
+  }
+
+  const suppressedIssues = new Set<AuditIssue>();
+  const unused: UnusedSuppression[] = [];
+  for (const [filePath, issues] of byFile) {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(filePath, "utf8");
+    } catch (error) {
+      continue;
+    }
+
+    const rules: string[] = isOffline
+      ? checkedRules(filePath, config)
+      : issues.flatMap((issue) => (issue.rule ? [issue.rule] : []));
+    const result = applySuppressions(issues, text, (suppression) =>
+      isCheckedSuppression(suppression, rules)
+    );
+    issues
+      .filter((issue) => !result.issues.includes(issue))
+      .forEach((issue) => suppressedIssues.add(issue));
+    const file = path.relative(relativeTo, filePath).split(path.sep).join("/");
+    unused.push(
+      ...result.unused.map(({ line, column, rules, text }) => ({
+        file,
+        line,
+        column,
+        rules,
+        text,
+      }))
+    );
+  }
+
+  const issues = report.issues.filter((issue) => !suppressedIssues.has(issue));
+  return {
+    ...report,
+    summary: summarizeIssues(issues, report.summary.files),
+    issues,
+    suppressed: suppressedIssues.size,
+    unusedSuppressions: unused,
+  };
+}
+
+// "css-longhand, js-selectors -- third-party embed" -> both rule ids
+function parseRules(text: string): string[] {
+  return text
+    .replace(/\s--(\s.*)?$/, "")
+    .split(/[\s,]+/)
+    .filter(Boolean);
+}
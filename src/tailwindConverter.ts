@@ -0,0 +1,1265 @@
+import { Element } from "domhandler";
+import { DomUtils } from "htmlparser2";
+import {
+  appendStyles,
+  ConvertResult,
+  detectIndent,
+  parseHtml,
+  plural,
+  serializeHtml,
+  splitClasses,
+} from "./htmlConverter";
+
+// Replaces Tailwind utility classes with one named class per element and
+// writes the equivalent longhand CSS into <style data-ht-styles>. Tailwind
+// is mobile-first (`md:` applies from 768px up) while Webflow styles desktop
+// first, so responsive prefixes are resolved at the max width of every
+// breakpoint in .htflowrc.json. A prefix whose min width does not sit right
+// above a breakpoint moves to the nearest one, which the changes point out.
+// Classes it cannot convert (unknown utilities, dark:, group-hover:, ...)
+// stay on the element.
+
+type Declaration = [property: string, value: string];
+
+// Returns undefined when the value is not valid for the utility
+type Handler = (value: string, negative: boolean) => Declaration[] | undefined;
+
+type Utility = {
+  // Smallest viewport width the utility applies at
+  minWidth: number;
+  // Pseudo-classes, e.g. ":hover"
+  state: string;
+  declarations: Declaration[];
+};
+
+// state -> property -> min width -> value
+type ElementStyles = Map<string, Map<string, Map<number, string>>>;
+
+type Breakpoint = { name: string; query: string; width: number };
+
+// Tailwind's default screens (min widths)
+const SCREENS: Record<string, number> = {
+  sm: 640,
+  md: 768,
+  lg: 1024,
+  xl: 1280,
+  "2xl": 1536,
+};
+
+const STATES: Record<string, string> = {
+  hover: ":hover",
+  focus: ":focus",
+  "focus-visible": ":focus-visible",
+  "focus-within": ":focus-within",
+  active: ":active",
+  visited: ":visited",
+  disabled: ":disabled",
+  first: ":first-child",
+  last: ":last-child",
+  odd: ":nth-child(odd)",
+  even: ":nth-child(even)",
+  placeholder: "::placeholder",
+};
+
+// Elements whose id (or tag) prefixes the names of the elements inside
+const LANDMARKS = [
+  "header",
+  "nav",
+  "main",
+  "section",
+  "article",
+  "aside",
+  "footer",
+  "form",
+];
+
+// Name part per tag; other elements are named after their layout
+const ROLES: Record<string, string> = {
+  a: "link",
+  button: "button",
+  img: "image",
+  picture: "image",
+  svg: "icon",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  p: "text",
+  span: "text",
+  ul: "list",
+  ol: "list",
+  li: "item",
+  input: "input",
+  textarea: "input",
+  select: "input",
+  label: "label",
+  figure: "figure",
+  figcaption: "caption",
+  blockquote: "quote",
+  table: "table",
+};
+
+const SHADES = [
+  "50",
+  "100",
+  "200",
+  "300",
+  "400",
+  "500",
+  "600",
+  "700",
+  "800",
+  "900",
+  "950",
+];
+
+// Tailwind's default palette, one hex value per shade
+const PALETTE: Record<string, string> = {
+  slate:
+    "f8fafc f1f5f9 e2e8f0 cbd5e1 94a3b8 64748b 475569 334155 1e293b 0f172a 020617",
+  gray: "f9fafb f3f4f6 e5e7eb d1d5db 9ca3af 6b7280 4b5563 374151 1f2937 111827 030712",
+  zinc: "fafafa f4f4f5 e4e4e7 d4d4d8 a1a1aa 71717a 52525b 3f3f46 27272a 18181b 09090b",
+  neutral:
+    "fafafa f5f5f5 e5e5e5 d4d4d4 a3a3a3 737373 525252 404040 262626 171717 0a0a0a",
+  stone:
+    "fafaf9 f5f5f4 e7e5e4 d6d3d1 a8a29e 78716c 57534e 44403c 292524 1c1917 0c0a09",
+  red: "fef2f2 fee2e2 fecaca fca5a5 f87171 ef4444 dc2626 b91c1c 991b1b 7f1d1d 450a0a",
+  orange:
+    "fff7ed ffedd5 fed7aa fdba74 fb923c f97316 ea580c c2410c 9a3412 7c2d12 431407",
+  amber:
+    "fffbeb fef3c7 fde68a fcd34d fbbf24 f59e0b d97706 b45309 92400e 78350f 451a03",
+  yellow:
+    "fefce8 fef9c3 fef08a fde047 facc15 eab308 ca8a04 a16207 854d0e 713f12 422006",
+  lime: "f7fee7 ecfccb d9f99d bef264 a3e635 84cc16 65a30d 4d7c0f 3f6212 365314 1a2e05",
+  green:
+    "f0fdf4 dcfce7 bbf7d0 86efac 4ade80 22c55e 16a34a 15803d 166534 14532d 052e16",
+  emerald:
+    "ecfdf5 d1fae5 a7f3d0 6ee7b7 34d399 10b981 059669 047857 065f46 064e3b 022c22",
+  teal: "f0fdfa ccfbf1 99f6e4 5eead4 2dd4bf 14b8a6 0d9488 0f766e 115e59 134e4a 042f2e",
+  cyan: "ecfeff cffafe a5f3fc 67e8f9 22d3ee 06b6d4 0891b2 0e7490 155e75 164e63 083344",
+  sky: "f0f9ff e0f2fe bae6fd 7dd3fc 38bdf8 0ea5e9 0284c7 0369a1 075985 0c4a6e 082f49",
+  blue: "eff6ff dbeafe bfdbfe 93c5fd 60a5fa 3b82f6 2563eb 1d4ed8 1e40af 1e3a8a 172554",
+  indigo:
+    "eef2ff e0e7ff c7d2fe a5b4fc 818cf8 6366f1 4f46e5 4338ca 3730a3 312e81 1e1b4b",
+  violet:
+    "f5f3ff ede9fe ddd6fe c4b5fd a78bfa 8b5cf6 7c3aed 6d28d9 5b21b6 4c1d95 2e1065",
+  purple:
+    "faf5ff f3e8ff e9d5ff d8b4fe c084fc a855f7 9333ea 7e22ce 6b21a8 581c87 3b0764",
+  fuchsia:
+    "fdf4ff fae8ff f5d0fe f0abfc e879f9 d946ef c026d3 a21caf 86198f 701a75 4a044e",
+  pink: "fdf2f8 fce7f3 fbcfe8 f9a8d4 f472b6 ec4899 db2777 be185d 9d174d 831843 500724",
+  rose: "fff1f2 ffe4e6 fecdd3 fda4af fb7185 f43f5e e11d48 be123c 9f1239 881337 4c0519",
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  white: "#ffffff",
+  black: "#000000",
+  transparent: "transparent",
+  current: "currentColor",
+  inherit: "inherit",
+};
+
+// [font-size, line-height]
+const FONT_SIZES: Record<string, [string, string]> = {
+  xs: ["0.75rem", "1rem"],
+  sm: ["0.875rem", "1.25rem"],
+  base: ["1rem", "1.5rem"],
+  lg: ["1.125rem", "1.75rem"],
+  xl: ["1.25rem", "1.75rem"],
+  "2xl": ["1.5rem", "2rem"],
+  "3xl": ["1.875rem", "2.25rem"],
+  "4xl": ["2.25rem", "2.5rem"],
+  "5xl": ["3rem", "1"],
+  "6xl": ["3.75rem", "1"],
+  "7xl": ["4.5rem", "1"],
+  "8xl": ["6rem", "1"],
+  "9xl": ["8rem", "1"],
+};
+
+const FONT_WEIGHTS: Record<string, string> = {
+  thin: "100",
+  extralight: "200",
+  light: "300",
+  normal: "400",
+  medium: "500",
+  semibold: "600",
+  bold: "700",
+  extrabold: "800",
+  black: "900",
+};
+
+const FONT_FAMILIES: Record<string, string> = {
+  sans: 'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"',
+  serif: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
+  mono: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+};
+
+const LINE_HEIGHTS: Record<string, string> = {
+  none: "1",
+  tight: "1.25",
+  snug: "1.375",
+  normal: "1.5",
+  relaxed: "1.625",
+  loose: "2",
+};
+
+const LETTER_SPACINGS: Record<string, string> = {
+  tighter: "-0.05em",
+  tight: "-0.025em",
+  normal: "0em",
+  wide: "0.025em",
+  wider: "0.05em",
+  widest: "0.1em",
+};
+
+const MAX_WIDTHS: Record<string, string> = {
+  none: "none",
+  xs: "20rem",
+  sm: "24rem",
+  md: "28rem",
+  lg: "32rem",
+  xl: "36rem",
+  "2xl": "42rem",
+  "3xl": "48rem",
+  "4xl": "56rem",
+  "5xl": "64rem",
+  "6xl": "72rem",
+  "7xl": "80rem",
+  full: "100%",
+  prose: "65ch",
+  "screen-sm": "640px",
+  "screen-md": "768px",
+  "screen-lg": "1024px",
+  "screen-xl": "1280px",
+  "screen-2xl": "1536px",
+};
+
+const RADII: Record<string, string> = {
+  none: "0",
+  sm: "0.125rem",
+  "": "0.25rem",
+  md: "0.375rem",
+  lg: "0.5rem",
+  xl: "0.75rem",
+  "2xl": "1rem",
+  "3xl": "1.5rem",
+  full: "9999px",
+};
+
+const SHADOWS: Record<string, string> = {
+  sm: "0 1px 2px 0 rgb(0 0 0 / 0.05)",
+  "": "0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)",
+  md: "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
+  lg: "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)",
+  xl: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+  "2xl": "0 25px 50px -12px rgb(0 0 0 / 0.25)",
+  inner: "inset 0 2px 4px 0 rgb(0 0 0 / 0.05)",
+  none: "none",
+};
+
+const SIDES = {
+  all: ["top", "right", "bottom", "left"],
+  x: ["right", "left"],
+  y: ["top", "bottom"],
+  t: ["top"],
+  r: ["right"],
+  b: ["bottom"],
+  l: ["left"],
+};
+
+const CORNERS: Record<string, string[]> = {
+  "": ["top-left", "top-right", "bottom-right", "bottom-left"],
+  t: ["top-left", "top-right"],
+  r: ["top-right", "bottom-right"],
+  b: ["bottom-right", "bottom-left"],
+  l: ["top-left", "bottom-left"],
+  tl: ["top-left"],
+  tr: ["top-right"],
+  br: ["bottom-right"],
+  bl: ["bottom-left"],
+};
+
+// Utilities without a value
+const STATIC_UTILITIES: Record<string, Declaration[]> = {
+  block: [["display", "block"]],
+  "inline-block": [["display", "inline-block"]],
+  inline: [["display", "inline"]],
+  flex: [["display", "flex"]],
+  "inline-flex": [["display", "inline-flex"]],
+  grid: [["display", "grid"]],
+  "inline-grid": [["display", "inline-grid"]],
+  table: [["display", "table"]],
+  contents: [["display", "contents"]],
+  "flow-root": [["display", "flow-root"]],
+  hidden: [["display", "none"]],
+  static: [["position", "static"]],
+  fixed: [["position", "fixed"]],
+  absolute: [["position", "absolute"]],
+  relative: [["position", "relative"]],
+  sticky: [["position", "sticky"]],
+  visible: [["visibility", "visible"]],
+  invisible: [["visibility", "hidden"]],
+  "flex-row": [["flex-direction", "row"]],
+  "flex-row-reverse": [["flex-direction", "row-reverse"]],
+  "flex-col": [["flex-direction", "column"]],
+  "flex-col-reverse": [["flex-direction", "column-reverse"]],
+  "flex-wrap": [["flex-wrap", "wrap"]],
+  "flex-wrap-reverse": [["flex-wrap", "wrap-reverse"]],
+  "flex-nowrap": [["flex-wrap", "nowrap"]],
+  "flex-1": flex("1", "1", "0%"),
+  "flex-auto": flex("1", "1", "auto"),
+  "flex-initial": flex("0", "1", "auto"),
+  "flex-none": flex("0", "0", "auto"),
+  "items-start": [["align-items", "flex-start"]],
+  "items-end": [["align-items", "flex-end"]],
+  "items-center": [["align-items", "center"]],
+  "items-baseline": [["align-items", "baseline"]],
+  "items-stretch": [["align-items", "stretch"]],
+  "justify-start": [["justify-content", "flex-start"]],
+  "justify-end": [["justify-content", "flex-end"]],
+  "justify-center": [["justify-content", "center"]],
+  "justify-between": [["justify-content", "space-between"]],
+  "justify-around": [["justify-content", "space-around"]],
+  "justify-evenly": [["justify-content", "space-evenly"]],
+  "content-start": [["align-content", "flex-start"]],
+  "content-end": [["align-content", "flex-end"]],
+  "content-center": [["align-content", "center"]],
+  "content-between": [["align-content", "space-between"]],
+  "content-around": [["align-content", "space-around"]],
+  "content-evenly": [["align-content", "space-evenly"]],
+  "self-auto": [["align-self", "auto"]],
+  "self-start": [["align-self", "flex-start"]],
+  "self-end": [["align-self", "flex-end"]],
+  "self-center": [["align-self", "center"]],
+  "self-stretch": [["align-self", "stretch"]],
+  "self-baseline": [["align-self", "baseline"]],
+  "text-left": [["text-align", "left"]],
+  "text-center": [["text-align", "center"]],
+  "text-right": [["text-align", "right"]],
+  "text-justify": [["text-align", "justify"]],
+  "text-start": [["text-align", "start"]],
+  "text-end": [["text-align", "end"]],
+  italic: [["font-style", "italic"]],
+  "not-italic": [["font-style", "normal"]],
+  uppercase: [["text-transform", "uppercase"]],
+  lowercase: [["text-transform", "lowercase"]],
+  capitalize: [["text-transform", "capitalize"]],
+  "normal-case": [["text-transform", "none"]],
+  underline: [["text-decoration-line", "underline"]],
+  overline: [["text-decoration-line", "overline"]],
+  "line-through": [["text-decoration-line", "line-through"]],
+  "no-underline": [["text-decoration-line", "none"]],
+  truncate: [
+    ["overflow", "hidden"],
+    ["text-overflow", "ellipsis"],
+    ["white-space", "nowrap"],
+  ],
+  "whitespace-normal": [["white-space", "normal"]],
+  "whitespace-nowrap": [["white-space", "nowrap"]],
+  "whitespace-pre": [["white-space", "pre"]],
+  "whitespace-pre-line": [["white-space", "pre-line"]],
+  "whitespace-pre-wrap": [["white-space", "pre-wrap"]],
+  "break-words": [["overflow-wrap", "break-word"]],
+  "break-all": [["word-break", "break-all"]],
+  antialiased: [
+    ["-webkit-font-smoothing", "antialiased"],
+    ["-moz-osx-font-smoothing", "grayscale"],
+  ],
+  "object-contain": [["object-fit", "contain"]],
+  "object-cover": [["object-fit", "cover"]],
+  "object-fill": [["object-fit", "fill"]],
+  "object-none": [["object-fit", "none"]],
+  "object-scale-down": [["object-fit", "scale-down"]],
+  "list-none": [["list-style-type", "none"]],
+  "list-disc": [["list-style-type", "disc"]],
+  "list-decimal": [["list-style-type", "decimal"]],
+  "list-inside": [["list-style-position", "inside"]],
+  "list-outside": [["list-style-position", "outside"]],
+  "pointer-events-none": [["pointer-events", "none"]],
+  "pointer-events-auto": [["pointer-events", "auto"]],
+  "select-none": [["user-select", "none"]],
+  "select-text": [["user-select", "text"]],
+  "select-all": [["user-select", "all"]],
+  "select-auto": [["user-select", "auto"]],
+  "aspect-auto": [["aspect-ratio", "auto"]],
+  "aspect-square": [["aspect-ratio", "1 / 1"]],
+  "aspect-video": [["aspect-ratio", "16 / 9"]],
+  "sr-only": [
+    ["position", "absolute"],
+    ["width", "1px"],
+    ["height", "1px"],
+    ...SIDES.all.map((side): Declaration => [`padding-${side}`, "0"]),
+    ...SIDES.all.map((side): Declaration => [`margin-${side}`, "-1px"]),
+    ["overflow", "hidden"],
+    ["clip", "rect(0, 0, 0, 0)"],
+    ["white-space", "nowrap"],
+    ...SIDES.all.map((side): Declaration => [`border-${side}-width`, "0"]),
+  ],
+};
+
+for (const style of ["solid", "dashed", "dotted", "double", "none"]) {
+  STATIC_UTILITIES[`border-${style}`] = SIDES.all.map(
+    (side): Declaration => [`border-${side}-style`, style]
+  );
+}
+
+for (const value of ["auto", "hidden", "clip", "visible", "scroll"]) {
+  STATIC_UTILITIES[`overflow-${value}`] = [["overflow", value]];
+  STATIC_UTILITIES[`overflow-x-${value}`] = [["overflow-x", value]];
+  STATIC_UTILITIES[`overflow-y-${value}`] = [["overflow-y", value]];
+}
+
+// Utilities that take a value, e.g. mt-4 or bg-red-500. The longest
+// matching prefix is tried first.
+const UTILITIES: [string, Handler][] = (
+  [
+    ["m", sides("margin", SIDES.all, margin)],
+    ["mx", sides("margin", SIDES.x, margin)],
+    ["my", sides("margin", SIDES.y, margin)],
+    ["mt", sides("margin", SIDES.t, margin)],
+    ["mr", sides("margin", SIDES.r, margin)],
+    ["mb", sides("margin", SIDES.b, margin)],
+    ["ml", sides("margin", SIDES.l, margin)],
+    ["p", sides("padding", SIDES.all, positive(spacing))],
+    ["px", sides("padding", SIDES.x, positive(spacing))],
+    ["py", sides("padding", SIDES.y, positive(spacing))],
+    ["pt", sides("padding", SIDES.t, positive(spacing))],
+    ["pr", sides("padding", SIDES.r, positive(spacing))],
+    ["pb", sides("padding", SIDES.b, positive(spacing))],
+    ["pl", sides("padding", SIDES.l, positive(spacing))],
+    ["gap", properties(["row-gap", "column-gap"], positive(spacing))],
+    ["gap-x", properties(["column-gap"], positive(spacing))],
+    ["gap-y", properties(["row-gap"], positive(spacing))],
+    ["inset", properties(SIDES.all, inset)],
+    ["inset-x", properties(SIDES.x, inset)],
+    ["inset-y", properties(SIDES.y, inset)],
+    ["top", properties(["top"], inset)],
+    ["right", properties(["right"], inset)],
+    ["bottom", properties(["bottom"], inset)],
+    ["left", properties(["left"], inset)],
+    [
+      "w",
+      properties(
+        ["width"],
+        positive((value) => size(value, "vw"))
+      ),
+    ],
+    [
+      "h",
+      properties(
+        ["height"],
+        positive((value) => size(value, "vh"))
+      ),
+    ],
+    [
+      "min-w",
+      properties(
+        ["min-width"],
+        positive((value) => size(value))
+      ),
+    ],
+    [
+      "min-h",
+      properties(
+        ["min-height"],
+        positive((value) => size(value, "vh"))
+      ),
+    ],
+    [
+      "max-w",
+      properties(
+        ["max-width"],
+        positive((value) => MAX_WIDTHS[value] ?? size(value))
+      ),
+    ],
+    [
+      "max-h",
+      properties(
+        ["max-height"],
+        positive((value) => size(value, "vh"))
+      ),
+    ],
+    [
+      "basis",
+      properties(
+        ["flex-basis"],
+        positive((value) => size(value))
+      ),
+    ],
+    ["z", properties(["z-index"], integer)],
+    ["order", properties(["order"], order)],
+    ["grow", properties(["flex-grow"], positive(factor))],
+    ["shrink", properties(["flex-shrink"], positive(factor))],
+    ["flex-grow", properties(["flex-grow"], positive(factor))],
+    ["flex-shrink", properties(["flex-shrink"], positive(factor))],
+    ["grid-cols", properties(["grid-template-columns"], positive(tracks))],
+    ["grid-rows", properties(["grid-template-rows"], positive(tracks))],
+    ["col-span", span("column")],
+    ["row-span", span("row")],
+    ["col-start", properties(["grid-column-start"], positive(line))],
+    ["col-end", properties(["grid-column-end"], positive(line))],
+    ["row-start", properties(["grid-row-start"], positive(line))],
+    ["row-end", properties(["grid-row-end"], positive(line))],
+    ["text", text],
+    ["font", font],
+    [
+      "leading",
+      properties(
+        ["line-height"],
+        positive((value) => LINE_HEIGHTS[value] ?? spacing(value))
+      ),
+    ],
+    [
+      "tracking",
+      properties(
+        ["letter-spacing"],
+        positive((value) => LETTER_SPACINGS[value] ?? arbitrary(value))
+      ),
+    ],
+    ["bg", background],
+    ["border", border(SIDES.all)],
+    ["border-x", border(SIDES.x)],
+    ["border-y", border(SIDES.y)],
+    ["border-t", border(SIDES.t)],
+    ["border-r", border(SIDES.r)],
+    ["border-b", border(SIDES.b)],
+    ["border-l", border(SIDES.l)],
+    ...Object.entries(CORNERS).map(([corner, names]): [string, Handler] => [
+      corner ? `rounded-${corner}` : "rounded",
+      properties(
+        names.map((name) => `border-${name}-radius`),
+        positive((value) => RADII[value] ?? arbitrary(value))
+      ),
+    ]),
+    [
+      "opacity",
+      properties(
+        ["opacity"],
+        positive((value) =>
+          /^\d+$/.test(value) ? String(Number(value) / 100) : arbitrary(value)
+        )
+      ),
+    ],
+    [
+      "shadow",
+      properties(
+        ["box-shadow"],
+        positive((value) => SHADOWS[value] ?? arbitrary(value))
+      ),
+    ],
+    [
+      "cursor",
+      properties(
+        ["cursor"],
+        positive((value) =>
+          /^[a-z-]+$/.test(value) ? value : arbitrary(value)
+        )
+      ),
+    ],
+    ["aspect", properties(["aspect-ratio"], positive(arbitrary))],
+  ] as [string, Handler][]
+).sort((a, b) => b[0].length - a[0].length);
+
+export function convertTailwind(
+  html: string,
+  breakpoints: Record<string, string>
+): ConvertResult {
+  const document = parseHtml(html);
+  const indent = detectIndent(html);
+  const screens = toBreakpoints(breakpoints);
+
+  // Utilities per element; whatever does not parse is kept
+  const elements: {
+    element: Element;
+    utilities: Utility[];
+    kept: string[];
+  }[] = [];
+  const keptClasses = new Set<string>();
+  for (const element of DomUtils.findAll(
+    (element) => !!element.attribs.class,
+    document.children
+  )) {
+    const utilities: Utility[] = [];
+    const kept: string[] = [];
+    for (const token of splitClasses(element.attribs.class)) {
+      const utility = parseUtility(token);
+      if (utility) {
+        utilities.push(utility);
+      } else {
+        kept.push(token);
+        keptClasses.add(token);
+      }
+    }
+    if (utilities.length > 0) {
+      elements.push({ element, utilities, kept });
+    }
+  }
+
+  if (elements.length === 0) {
+    return { html, changes: [] };
+  }
+
+  // Elements with the same name and styles share a class
+  const classes = new Map<string, string>();
+  const used = new Set(keptClasses);
+  const rules = new Map<string, string[]>();
+  const mediaUsed = new Set<string>();
+  let replaced = 0;
+
+  for (const { element, utilities, kept } of elements) {
+    const styles = collectStyles(utilities);
+    const resolved = resolveStyles(styles, screens);
+    const baseName = nameElement(element, styles);
+    const signature = `${baseName}\n${JSON.stringify(resolved)}`;
+
+    let className = classes.get(signature);
+    if (!className) {
+      className = baseName;
+      for (let count = 2; used.has(className); count++) {
+        className = `${baseName}_${count}`;
+      }
+      used.add(className);
+      classes.set(signature, className);
+
+      for (const { media, state, declarations } of resolved) {
+        const rule = formatRule(`.${className}${state}`, declarations, indent);
+        rules.set(media, [...(rules.get(media) ?? []), rule]);
+        if (media) {
+          mediaUsed.add(media);
+        }
+      }
+    }
+
+    element.attribs.class = [className, ...kept].join(" ");
+    replaced += utilities.length;
+  }
+
+  // Base rules first, then the breakpoints from wide to narrow
+  const css = [...(rules.get("") ?? [])];
+  for (const screen of screens) {
+    const mediaRules = rules.get(screen.query);
+    if (mediaRules) {
+      css.push(
+        [
+          `@media ${screen.query} {`,
+          indentRule(mediaRules.join("\n\n"), indent),
+          "}",
+        ].join("\n")
+      );
+    }
+  }
+  appendStyles(document, css, indent);
+
+  const changes = [
+    `Replaced ${plural(
+      replaced,
+      "utility class",
+      "utility classes"
+    )} with ${plural(classes.size, "class", "classes")}`,
+  ];
+  const responsive = screens.filter((screen) => mediaUsed.has(screen.query));
+  if (responsive.length > 0) {
+    changes.push(
+      `Added ${responsive.map((screen) => screen.name).join(", ")} styles`
+    );
+  }
+  const minWidths = new Set(
+    elements.flatMap(({ utilities }) =>
+      utilities.map((utility) => utility.minWidth)
+    )
+  );
+  changes.push(...misalignedScreens(minWidths, screens));
+  const unconverted = Array.from(keptClasses).filter((token) =>
+    looksLikeUtility(token)
+  );
+  if (unconverted.length > 0) {
+    changes.push(
+      `Kept ${plural(
+        unconverted.length,
+        "class",
+        "classes"
+      )} it could not convert (${unconverted.slice(0, 5).join(" ")}${
+        unconverted.length > 5 ? " …" : ""
+      })`
+    );
+  }
+
+  return { html: serializeHtml(document), changes };
+}
+
+// "md:hover:bg-blue-500" -> min width 768, ":hover", background-color
+export function parseUtility(token: string): Utility | undefined {
+  const variants = splitVariants(token);
+  let name = variants.pop() ?? "";
+  let minWidth = 0;
+  let state = "";
+  for (const variant of variants) {
+    if (variant in SCREENS) {
+      minWidth = Math.max(minWidth, SCREENS[variant]);
+    } else if (variant in STATES) {
+      state += STATES[variant];
+    } else {
+      return undefined;
+    }
+  }
+
+  // `!mt-4` (and `mt-4!` in Tailwind 4) marks the declarations !important
+  const important = /^!|!$/.test(name);
+  name = name.replace(/^!|!$/g, "");
+
+  const declarations = resolveUtility(name);
+  if (!declarations) {
+    return undefined;
+  }
+  return {
+    minWidth,
+    state,
+    declarations: important
+      ? declarations.map(([property, value]) => [
+          property,
+          `${value} !important`,
+        ])
+      : declarations,
+  };
+}
+
+function resolveUtility(name: string): Declaration[] | undefined {
+  if (Object.prototype.hasOwnProperty.call(STATIC_UTILITIES, name)) {
+    return STATIC_UTILITIES[name];
+  }
+
+  const negative = name.startsWith("-");
+  const unsigned = negative ? name.slice(1) : name;
+  for (const [prefix, handler] of UTILITIES) {
+    if (unsigned === prefix || unsigned.startsWith(`${prefix}-`)) {
+      const declarations = handler(unsigned.slice(prefix.length + 1), negative);
+      if (declarations) {
+        return declarations;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Later utilities win, as they usually come later in Tailwind's CSS too
+function collectStyles(utilities: Utility[]): ElementStyles {
+  const styles: ElementStyles = new Map();
+  for (const { minWidth, state, declarations } of utilities) {
+    let properties = styles.get(state);
+    if (!properties) {
+      properties = new Map();
+      styles.set(state, properties);
+    }
+    for (const [property, value] of declarations) {
+      const values = properties.get(property) ?? new Map<number, string>();
+      values.set(minWidth, value);
+      properties.set(property, values);
+    }
+  }
+
+  // Tailwind's preflight gives every element a solid border style
+  const base = styles.get("");
+  const baseProperties = base ? Array.from(base.keys()) : [];
+  if (
+    base &&
+    !baseProperties.some((property) => /^border-\w+-style$/.test(property)) &&
+    baseProperties.some((property) => /^border-\w+-width$/.test(property))
+  ) {
+    SIDES.all.forEach((side) =>
+      base.set(`border-${side}-style`, new Map([[0, "solid"]]))
+    );
+  }
+  return styles;
+}
+
+// Desktop-first rules: the value at any width goes in the base rule, and
+// each breakpoint gets the properties whose value differs at its max width
+function resolveStyles(
+  styles: ElementStyles,
+  screens: Breakpoint[]
+): { media: string; state: string; declarations: Declaration[] }[] {
+  const valueAt = (state: string, property: string, width: number) => {
+    const value =
+      pick(styles.get(state)?.get(property), width) ??
+      (state ? pick(styles.get("")?.get(property), width) : undefined);
+    // Nothing applies below the smallest prefix, so undo the wider rule
+    return value ?? "revert";
+  };
+
+  const resolved: {
+    media: string;
+    state: string;
+    declarations: Declaration[];
+  }[] = [];
+  const states = Array.from(styles.keys()).sort();
+  for (const state of states) {
+    const properties = Array.from(styles.get(state)!.keys());
+    resolved.push({
+      media: "",
+      state,
+      declarations: properties.map((property) => [
+        property,
+        valueAt(state, property, Infinity),
+      ]),
+    });
+
+    let wider = Infinity;
+    for (const screen of screens) {
+      const declarations = properties
+        .filter(
+          (property) =>
+            valueAt(state, property, screen.width) !==
+            valueAt(state, property, wider)
+        )
+        .map(
+          (property): Declaration => [
+            property,
+            valueAt(state, property, screen.width),
+          ]
+        );
+      if (declarations.length > 0) {
+        resolved.push({ media: screen.query, state, declarations });
+      }
+      wider = screen.width;
+    }
+  }
+  return resolved;
+}
+
+// The value of the widest prefix that applies at `width`
+function pick(
+  values: Map<number, string> | undefined,
+  width: number
+): string | undefined {
+  let best: number | undefined;
+  values?.forEach((_, minWidth) => {
+    if (minWidth <= width && (best === undefined || minWidth > best)) {
+      best = minWidth;
+    }
+  });
+  return best === undefined ? undefined : values?.get(best);
+}
+
+// Breakpoints as max-width queries, widest first
+function toBreakpoints(breakpoints: Record<string, string>): Breakpoint[] {
+  return Object.entries(breakpoints)
+    .map(([name, value]) => {
+      const amount = parseFloat(value);
+      return {
+        name,
+        query: `(max-width: ${value})`,
+        width: /(r?em)$/.test(value) ? amount * 16 : amount,
+      };
+    })
+    .filter((screen) => screen.width > 0)
+    .sort((a, b) => b.width - a.width);
+}
+
+// Warnings for the prefixes in use whose min width has no breakpoint one
+// pixel (or less) below it. Desktop-first rules can only switch at a
+// breakpoint, so such a prefix takes effect right above the next narrower
+// one instead, e.g. md: from 480px with a 479px mobile breakpoint.
+function misalignedScreens(
+  minWidths: Set<number>,
+  screens: Breakpoint[]
+): string[] {
+  return Object.entries(SCREENS)
+    .filter(([, minWidth]) => minWidths.has(minWidth))
+    .filter(
+      ([, minWidth]) =>
+        !screens.some(
+          (screen) => screen.width >= minWidth - 1 && screen.width < minWidth
+        )
+    )
+    .map(([prefix, minWidth]) => {
+      const narrower = screens.find((screen) => screen.width < minWidth);
+      const from = narrower ? `${round(narrower.width + 1, 2)}px` : "0px";
+      return `${prefix}: starts at ${minWidth}px, which is not a breakpoint, so its styles apply from ${from}`;
+    });
+}
+
+// Webflow-style names: the element's role, prefixed with the id of the
+// section it is in, e.g. hero_heading or nav_link
+function nameElement(element: Element, styles: ElementStyles): string {
+  const id = toName(element.attribs.id);
+  if (id) {
+    return id;
+  }
+
+  const role = elementRole(element, styles);
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (!(parent instanceof Element)) {
+      continue;
+    }
+    const prefix =
+      toName(parent.attribs.id) ||
+      (LANDMARKS.includes(parent.name) ? parent.name : "");
+    if (prefix) {
+      return prefix === role ? role : `${prefix}_${role}`;
+    }
+  }
+  return role;
+}
+
+function elementRole(element: Element, styles: ElementStyles): string {
+  if (ROLES[element.name]) {
+    return ROLES[element.name];
+  }
+  if (LANDMARKS.includes(element.name)) {
+    return element.name;
+  }
+
+  const base = styles.get("");
+  const display = pick(base?.get("display"), Infinity);
+  if (display === "grid" || display === "inline-grid") {
+    return "grid";
+  }
+  if (display === "flex" || display === "inline-flex") {
+    return /^column/.test(pick(base?.get("flex-direction"), Infinity) ?? "")
+      ? "stack"
+      : "row";
+  }
+  return "block";
+}
+
+function formatRule(
+  selector: string,
+  declarations: Declaration[],
+  indent: string
+): string {
+  return [
+    `${selector} {`,
+    ...declarations.map(
+      ([property, value]) => `${indent}${property}: ${value};`
+    ),
+    "}",
+  ].join("\n");
+}
+
+function indentRule(rule: string, indent: string): string {
+  return rule
+    .split("\n")
+    .map((line) => (line ? `${indent}${line}` : line))
+    .join("\n");
+}
+
+// Split "md:[&>*]:p-2" on the colons outside of brackets
+function splitVariants(token: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const char of token) {
+    if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ":" && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Kept classes worth mentioning: variants or Tailwind-looking names, not a
+// project's own class names
+function looksLikeUtility(token: string): boolean {
+  return (
+    token.includes(":") ||
+    token.includes("[") ||
+    /^-?(space|divide|ring|transition|duration|ease|delay|animate|transform|translate|scale|rotate|skew|blur|backdrop|container|from|via|to|bg-gradient|decoration|outline|fill|stroke)\b/.test(
+      token
+    )
+  );
+}
+
+function toName(value: string | undefined): string {
+  return (value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// ----- Value handlers -----
+
+function properties(
+  names: string[],
+  resolve: (value: string, negative: boolean) => string | undefined
+): Handler {
+  return (value, negative) => {
+    const resolved = resolve(value, negative);
+    return resolved === undefined
+      ? undefined
+      : names.map((name): Declaration => [name, resolved]);
+  };
+}
+
+function sides(
+  property: string,
+  names: string[],
+  resolve: (value: string, negative: boolean) => string | undefined
+): Handler {
+  return properties(
+    names.map((side) => `${property}-${side}`),
+    resolve
+  );
+}
+
+// Handlers that do not accept a leading `-`
+function positive(
+  resolve: (value: string) => string | undefined
+): (value: string, negative: boolean) => string | undefined {
+  return (value, negative) => (negative ? undefined : resolve(value));
+}
+
+function flex(grow: string, shrink: string, basis: string): Declaration[] {
+  return [
+    ["flex-grow", grow],
+    ["flex-shrink", shrink],
+    ["flex-basis", basis],
+  ];
+}
+
+// `[12px]` -> "12px"; underscores stand for spaces
+function arbitrary(value: string): string | undefined {
+  const match = value.match(/^\[(.+)\]$/);
+  return match ? match[1].replace(/_/g, " ") : undefined;
+}
+
+// Tailwind's spacing scale: 1 = 0.25rem
+function spacing(value: string): string | undefined {
+  if (value === "0") {
+    return "0";
+  }
+  if (value === "px") {
+    return "1px";
+  }
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return `${round(Number(value) * 0.25)}rem`;
+  }
+  return arbitrary(value);
+}
+
+function negate(value: string | undefined, negative: boolean) {
+  if (!value || !negative || value === "0") {
+    return value;
+  }
+  return /^[\d.]/.test(value) ? `-${value}` : `calc(${value} * -1)`;
+}
+
+function margin(value: string, negative: boolean): string | undefined {
+  return value === "auto" ? "auto" : negate(spacing(value), negative);
+}
+
+function inset(value: string, negative: boolean): string | undefined {
+  if (value === "auto") {
+    return "auto";
+  }
+  return negate(
+    value === "full" ? "100%" : fraction(value) ?? spacing(value),
+    negative
+  );
+}
+
+// Widths and heights; `screen` is the viewport unit for the axis
+function size(value: string, screen?: "vw" | "vh"): string | undefined {
+  const keywords: Record<string, string> = {
+    auto: "auto",
+    full: "100%",
+    min: "min-content",
+    max: "max-content",
+    fit: "fit-content",
+  };
+  if (keywords[value]) {
+    return keywords[value];
+  }
+  if (value === "screen" && screen) {
+    return `100${screen}`;
+  }
+  return fraction(value) ?? spacing(value);
+}
+
+// "1/3" -> "33.333333%"
+function fraction(value: string): string | undefined {
+  const match = value.match(/^(\d+)\/(\d+)$/);
+  if (!match || Number(match[2]) === 0) {
+    return undefined;
+  }
+  return `${round((Number(match[1]) / Number(match[2])) * 100, 6)}%`;
+}
+
+function integer(value: string, negative: boolean): string | undefined {
+  if (value === "auto") {
+    return "auto";
+  }
+  return /^\d+$/.test(value)
+    ? negate(value, negative)
+    : negate(arbitrary(value), negative);
+}
+
+function order(value: string, negative: boolean): string | undefined {
+  const named: Record<string, string> = {
+    first: "-9999",
+    last: "9999",
+    none: "0",
+  };
+  return named[value] ?? integer(value, negative);
+}
+
+// grow / shrink: bare means 1
+function factor(value: string): string | undefined {
+  if (value === "") {
+    return "1";
+  }
+  return /^\d+$/.test(value) ? value : arbitrary(value);
+}
+
+function tracks(value: string): string | undefined {
+  if (value === "none") {
+    return "none";
+  }
+  return /^\d+$/.test(value)
+    ? `repeat(${value}, minmax(0, 1fr))`
+    : arbitrary(value);
+}
+
+function line(value: string): string | undefined {
+  return value === "auto" || /^\d+$/.test(value) ? value : arbitrary(value);
+}
+
+function span(axis: "column" | "row"): Handler {
+  return (value, negative) => {
+    const spanned =
+      value === "full"
+        ? ["1", "-1"]
+        : /^\d+$/.test(value)
+        ? [`span ${value}`, `span ${value}`]
+        : undefined;
+    return spanned && !negative
+      ? [
+          [`grid-${axis}-start`, spanned[0]],
+          [`grid-${axis}-end`, spanned[1]],
+        ]
+      : undefined;
+  };
+}
+
+// "red-500", "red-500/50", "white", "[#123456]"
+function color(value: string): string | undefined {
+  const [name, alpha] = value.split("/");
+  let resolved: string | undefined = NAMED_COLORS[name];
+  if (!resolved) {
+    const match = name.match(/^([a-z]+)-(\d+)$/);
+    const shade = match ? SHADES.indexOf(match[2]) : -1;
+    if (match && PALETTE[match[1]] && shade !== -1) {
+      resolved = `#${PALETTE[match[1]].split(" ")[shade]}`;
+    }
+  }
+  if (!resolved) {
+    const custom = arbitrary(name);
+    resolved =
+      custom && /^(#|rgba?\(|hsla?\(|oklch\(|var\()/.test(custom)
+        ? custom
+        : undefined;
+  }
+  if (!resolved || alpha === undefined) {
+    return resolved;
+  }
+
+  const opacity = /^\d+$/.test(alpha)
+    ? Number(alpha) / 100
+    : Number(arbitrary(alpha));
+  const hex = resolved.match(/^#([0-9a-f]{6})$/i);
+  if (!hex || Number.isNaN(opacity)) {
+    return undefined;
+  }
+  const [red, green, blue] = [0, 2, 4].map((offset) =>
+    parseInt(hex[1].slice(offset, offset + 2), 16)
+  );
+  return `rgba(${red}, ${green}, ${blue}, ${opacity})`;
+}
+
+function text(value: string, negative: boolean): Declaration[] | undefined {
+  if (negative) {
+    return undefined;
+  }
+  const fontSize = FONT_SIZES[value];
+  if (fontSize) {
+    return [
+      ["font-size", fontSize[0]],
+      ["line-height", fontSize[1]],
+    ];
+  }
+  const textColor = color(value);
+  if (textColor) {
+    return [["color", textColor]];
+  }
+  const custom = arbitrary(value);
+  return custom ? [["font-size", custom]] : undefined;
+}
+
+function font(value: string, negative: boolean): Declaration[] | undefined {
+  if (negative) {
+    return undefined;
+  }
+  if (FONT_WEIGHTS[value]) {
+    return [["font-weight", FONT_WEIGHTS[value]]];
+  }
+  if (FONT_FAMILIES[value]) {
+    return [["font-family", FONT_FAMILIES[value]]];
+  }
+  const custom = arbitrary(value);
+  if (!custom) {
+    return undefined;
+  }
+  return /^\d+$/.test(custom)
+    ? [["font-weight", custom]]
+    : [["font-family", custom]];
+}
+
+function background(
+  value: string,
+  negative: boolean
+): Declaration[] | undefined {
+  if (negative) {
+    return undefined;
+  }
+  const backgroundColor = color(value);
+  if (backgroundColor) {
+    return [["background-color", backgroundColor]];
+  }
+  const custom = arbitrary(value);
+  return custom && /^url\(/.test(custom)
+    ? [["background-image", custom]]
+    : undefined;
+}
+
+// border, border-2, border-t-4, border-red-500, border-x-gray-200
+function border(names: string[]): Handler {
+  return (value, negative) => {
+    if (negative) {
+      return undefined;
+    }
+    const width =
+      value === "" ? "1px" : /^\d+$/.test(value) ? `${value}px` : undefined;
+    if (width) {
+      return names.map((side): Declaration => [`border-${side}-width`, width]);
+    }
+    const borderColor = color(value);
+    if (borderColor) {
+      return names.map(
+        (side): Declaration => [`border-${side}-color`, borderColor]
+      );
+    }
+    return undefined;
+  };
+}
+
+function round(value: number, digits: number = 4): string {
+  return String(Number(value.toFixed(digits)));
+}
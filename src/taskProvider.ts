@@ -0,0 +1,110 @@
+import * as vscode from "vscode";
+import { buildCliCommand, buildServeCommand } from "./cliCommands";
+
+export type HTFlowTaskCommand =
+  | "init"
+  | "validate"
+  | "audit"
+  | "audit --html"
+  | "build"
+  | "dev"
+  | "serve";
+
+// Shape of an `"type": "htflow"` entry in tasks.json
+export interface HTFlowTaskDefinition extends vscode.TaskDefinition {
+  command: HTFlowTaskCommand;
+  // Folder (or file, for validate) relative to the workspace folder
+  folder?: string;
+  // dev/serve only; without one the CLI picks its default port
+  port?: number;
+  // serve only: "dev" or "start"
+  mode?: string;
+}
+
+const TASK_COMMANDS: HTFlowTaskCommand[] = [
+  "init",
+  "validate",
+  "audit",
+  "audit --html",
+  "build",
+  "dev",
+  "serve",
+];
+
+// Tasks offered in "Run Task" for every workspace folder
+const PROVIDED_COMMANDS: HTFlowTaskCommand[] = [
+  "build",
+  "validate",
+  "audit",
+  "dev",
+];
+
+export class HTFlowTaskProvider implements vscode.TaskProvider {
+  static readonly type = "htflow";
+
+  public provideTasks(): vscode.Task[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return folders.flatMap((folder) =>
+      PROVIDED_COMMANDS.map((command) =>
+        createTask({ type: HTFlowTaskProvider.type, command }, folder)
+      )
+    );
+  }
+
+  // Fill in the execution for tasks declared in tasks.json. The definition
+  // object must be passed through unchanged for VS Code to match them up.
+  public resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as HTFlowTaskDefinition;
+    if (!TASK_COMMANDS.includes(definition.command)) {
+      console.warn(`HTFlow: Unknown task command ${definition.command}`);
+      return undefined;
+    }
+
+    const scope =
+      task.scope !== undefined && typeof task.scope !== "number"
+        ? task.scope
+        : vscode.workspace.workspaceFolders?.[0];
+    if (!scope) {
+      return undefined;
+    }
+
+    return createTask(definition, scope);
+  }
+}
+
+function createTask(
+  definition: HTFlowTaskDefinition,
+  workspaceFolder: vscode.WorkspaceFolder
+): vscode.Task {
+  const isServer =
+    definition.command === "dev" || definition.command === "serve";
+  const commandLine = isServer
+    ? buildServeCommand(
+        definition.mode ?? (definition.command === "dev" ? "dev" : "start"),
+        definition.folder,
+        definition.port
+      )
+    : buildCliCommand(definition.command, definition.folder);
+
+  const name = definition.folder
+    ? `${definition.command} ${definition.folder}`
+    : definition.command;
+
+  const task = new vscode.Task(
+    definition,
+    workspaceFolder,
+    name,
+    HTFlowTaskProvider.type,
+    new vscode.ShellExecution(commandLine, { cwd: workspaceFolder.uri.fsPath }),
+    isServer ? ["$htflow-watch"] : ["$htflow"]
+  );
+
+  if (definition.command === "build") {
+    task.group = vscode.TaskGroup.Build;
+  }
+  // Dev servers never exit; $htflow-watch tells VS Code when they are up so
+  // they can be used as a preLaunchTask
+  task.isBackground = isServer;
+
+  return task;
+}
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import { issueKey } from "../../auditHistory";
+import { parseAuditOutput } from "../../auditParser";
+import { normalizeConfig } from "../../config";
+import { validateText } from "../../offlineValidator";
+import { readFixture } from "./fixtures";
+
+suite("issueKey", () => {
+  test("matches the JSON and text listings of the CLI audit", () => {
+    const json = parseAuditOutput(readFixture("audit/json-issues.json"));
+    const text = parseAuditOutput(readFixture("audit/text-compact.txt"));
+
+    // Only the JSON listing quotes "margin: 0 auto;"
+    assert.deepStrictEqual(
+      json.issues.map(issueKey),
+      text.issues.slice(0, 2).map(issueKey)
+    );
+  });
+
+  test("matches built-in validator issues with the CLI's", () => {
+    const config = normalizeConfig({});
+    const cli = parseAuditOutput(readFixture("audit/json-issues.json"));
+    const offline = [
+      ...validateText("index.html", "<body>\n<p>Hi</p>\n</body>", config),
+      ...validateText(
+        "css/styles.css",
+        ".hero {\n  margin: 0 auto;\n}",
+        config
+      ),
+    ];
+
+    assert.deepStrictEqual(offline.map(issueKey), cli.issues.map(issueKey));
+  });
+
+  test("ignores line shifts and differences in the message", () => {
+    const config = normalizeConfig({});
+    const [before] = validateText("js/main.js", '$(".menu");', config);
+    const [after] = validateText(
+      "js/main.js",
+      '// Menu\n\n$(".menu");',
+      config
+    );
+
+    assert.notStrictEqual(before.line, after.line);
+    assert.strictEqual(issueKey(before), issueKey(after));
+    assert.strictEqual(
+      issueKey({
+        file: "index.html",
+        rule: "htflow-wrapper",
+        title: "Missing  htflow-wrapper (line 12).",
+      }),
+      issueKey({
+        file: "index.html",
+        rule: "htflow-wrapper",
+        title: "Missing htflow-wrapper",
+      })
+    );
+    assert.notStrictEqual(
+      issueKey({ file: "index.html", title: "Missing htflow-wrapper" }),
+      issueKey({ file: "about.html", title: "Missing htflow-wrapper" })
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import * as assert from "assert";
+import {
+  parseAuditJson,
+  parseAuditOutput,
+  parseAuditText,
+} from "../../auditParser";
+import { readFixture } from "./fixtures";
+
+suite("parseAuditOutput", () => {
+  suite("JSON output", () => {
+    test("reads issues, locations and the summary", () => {
+      const report = parseAuditOutput(readFixture("audit/json-issues.json"));
+
+      assert.strictEqual(report.format, "json");
+      assert.deepStrictEqual(report.summary, {
+        files: 3,
+        errors: 1,
+        warnings: 1,
+        info: 0,
+        total: 2,
+      });
+      assert.strictEqual(report.issues.length, 2);
+
+      const [wrapper, longhand] = report.issues;
+      assert.strictEqual(wrapper.number, 1);
+      assert.strictEqual(wrapper.type, "error");
+      assert.strictEqual(wrapper.rule, "htflow-wrapper");
+      assert.strictEqual(wrapper.title, "Missing htflow-wrapper");
+      assert.strictEqual(wrapper.file, "index.html");
+      assert.strictEqual(wrapper.line, 12);
+      assert.strictEqual(wrapper.column, 5);
+      assert.strictEqual(
+        wrapper.prompt,
+        "Wrap the body content of index.html."
+      );
+
+      // Alternative field names used by other CLI releases
+      assert.strictEqual(longhand.type, "warning");
+      assert.strictEqual(longhand.rule, "css-longhand");
+      assert.strictEqual(longhand.title, "Shorthand property margin");
+      assert.strictEqual(longhand.file, "css/styles.css");
+      assert.strictEqual(longhand.line, 8);
+      assert.strictEqual(longhand.column, 3);
+      assert.strictEqual(longhand.code, "margin: 0 auto;");
+    });
+
+    test("reads per-file groups after an npm notice", () => {
+      const report = parseAuditOutput(readFixture("audit/json-files.txt"));
+
+      assert.strictEqual(report.format, "json");
+      assert.deepStrictEqual(
+        report.issues.map((issue) => [
+          issue.file,
+          issue.type,
+          issue.rule,
+          issue.line,
+          issue.column,
+        ]),
+        [
+          ["index.html", "error", "htflow-wrapper", 12, undefined],
+          ["js/main.js", "warning", "js-selectors", 4, 10],
+        ]
+      );
+      // Derived from the issues when the CLI prints no summary
+      assert.deepStrictEqual(report.summary, {
+        files: 2,
+        errors: 1,
+        warnings: 1,
+        info: 0,
+        total: 2,
+      });
+    });
+
+    test("leaves text output to the text parser", () => {
+      assert.strictEqual(
+        parseAuditJson(readFixture("audit/text-cli-1.5.txt")),
+        undefined
+      );
+    });
+  });
+
+  suite("text output", () => {
+    test("reads the numbered issue listing of CLI 1.5+", () => {
+      const report = parseAuditOutput(readFixture("audit/text-cli-1.5.txt"));
+
+      assert.strictEqual(report.format, "text");
+      assert.deepStrictEqual(report.summary, {
+        files: 3,
+        errors: 1,
+        warnings: 2,
+        info: 0,
+        total: 3,
+      });
+      assert.strictEqual(report.issues.length, 3);
+
+      const [wrapper, longhand, selector] = report.issues;
+      assert.strictEqual(wrapper.number, 1);
+      assert.strictEqual(wrapper.type, "error");
+      assert.strictEqual(wrapper.rule, "htflow-wrapper");
+      assert.strictEqual(wrapper.title, "Missing htflow-wrapper");
+      assert.strictEqual(wrapper.file, "index.html");
+      assert.strictEqual(wrapper.line, 12);
+      assert.strictEqual(wrapper.column, 5);
+      assert.strictEqual(
+        wrapper.description,
+        "Page content must be wrapped in a single htflow-wrapper element."
+      );
+      assert.strictEqual(
+        wrapper.fix,
+        'Wrap the contents of <body> in <div class="htflow-wrapper">.'
+      );
+      assert.strictEqual(
+        wrapper.prompt,
+        "Wrap the body content of index.html in a div with the htflow-wrapper class.\n" +
+          "Keep the scripts outside the wrapper."
+      );
+
+      assert.strictEqual(longhand.type, "warning");
+      assert.strictEqual(longhand.rule, "css-longhand");
+      assert.strictEqual(longhand.file, "css/styles.css");
+      assert.strictEqual(longhand.line, 8);
+      assert.strictEqual(longhand.column, 3);
+
+      assert.strictEqual(selector.rule, "js-selectors");
+      assert.strictEqual(selector.file, "js/main.js");
+      assert.strictEqual(selector.line, 4);
+    });
+
+    test("reads the compact lines of older releases", () => {
+      const report = parseAuditText(readFixture("audit/text-compact.txt"));
+
+      assert.deepStrictEqual(
+        report.issues.map((issue) => [
+          issue.number,
+          issue.file,
+          issue.line,
+          issue.column,
+          issue.type,
+          issue.title,
+          issue.rule,
+        ]),
+        [
+          [
+            1,
+            "index.html",
+            12,
+            5,
+            "error",
+            "Missing htflow-wrapper",
+            "htflow-wrapper",
+          ],
+          [
+            2,
+            "css/styles.css",
+            8,
+            undefined,
+            "warning",
+            "Shorthand property margin",
+            "css-longhand",
+          ],
+          [
+            3,
+            "js/main.js",
+            4,
+            10,
+            "info",
+            "Consider a data-ht-* hook",
+            undefined,
+          ],
+        ]
+      );
+      assert.strictEqual(report.summary.files, 2);
+      assert.strictEqual(report.summary.total, 3);
+    });
+
+    test("returns an empty report for output without issues", () => {
+      const report = parseAuditOutput("✅ No issues found\n");
+
+      assert.strictEqual(report.issues.length, 0);
+      assert.strictEqual(report.summary.total, 0);
+    });
+  });
+});
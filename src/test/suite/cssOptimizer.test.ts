@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import { optimizeCss, optimizeStyleBlocks } from "../../cssOptimizer";
+import { readFixture } from "./fixtures";
+
+// Optimize css/<name>.input.css with shorthand expansion and compare the
+// stylesheet with css/<name>.expected.css. Returns the changes without the
+// size line.
+function optimizeFixture(name: string): string[] {
+  const { css, changes } = optimizeCss(readFixture(`css/${name}.input.css`), {
+    expandShorthands: true,
+  });
+  assert.strictEqual(css, readFixture(`css/${name}.expected.css`));
+  return changes.filter((change) => !change.startsWith("Size "));
+}
+
+suite("cssOptimizer", () => {
+  suite("optimizeCss", () => {
+    test("expands shorthands to every longhand they reset", () => {
+      assert.deepStrictEqual(optimizeFixture("expand-shorthands"), [
+        "Expanded 3 shorthands",
+        "Kept border (cannot be expanded safely)",
+      ]);
+    });
+
+    test("merges duplicate selectors unless a rule in between sets the same property", () => {
+      assert.deepStrictEqual(optimizeFixture("merge-duplicates"), [
+        "Merged 1 duplicate selector",
+      ]);
+    });
+
+    test("removes overridden declarations and keeps fallbacks", () => {
+      assert.deepStrictEqual(optimizeFixture("overridden"), [
+        "Expanded 1 shorthand",
+        "Removed 2 overridden declarations",
+      ]);
+    });
+
+    test("reports classes the project's HTML does not use", () => {
+      const css =
+        ".nav { color: red; }\n" +
+        ".nav__link, .menu .item { color: blue; }\n" +
+        ".hero:hover { color: red; }\n";
+      const result = optimizeCss(css, {
+        usedClasses: new Set(["nav", "menu"]),
+      });
+
+      assert.strictEqual(result.css, css);
+      assert.deepStrictEqual(result.unusedClasses, [
+        "nav__link",
+        "item",
+        "hero",
+      ]);
+      assert.deepStrictEqual(result.changes, [
+        "3 classes not used in the project's HTML: .nav__link, .item, .hero",
+      ]);
+    });
+
+    test("leaves shorthands alone unless asked to expand them", () => {
+      const css = ".hero {\n  margin: 0 auto;\n}\n";
+
+      assert.deepStrictEqual(optimizeCss(css).changes, []);
+    });
+  });
+
+  suite("optimizeStyleBlocks", () => {
+    test("keeps the indentation of the <style> block", () => {
+      const html =
+        "<head>\n  <style data-ht-styles>\n    .a { color: red; }\n" +
+        "    .a { padding-top: 0; }\n  </style>\n</head>";
+
+      assert.strictEqual(
+        optimizeStyleBlocks(html).css,
+        "<head>\n  <style data-ht-styles>\n    .a {\n      color: red;\n" +
+          "      padding-top: 0;\n    }\n  </style>\n</head>"
+      );
+    });
+  });
+});
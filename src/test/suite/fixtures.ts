@@ -0,0 +1,9 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Fixtures stay in src/test/fixtures; tests run from out/test/suite
+const FIXTURES = path.resolve(__dirname, "../../../src/test/fixtures");
+
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), "utf8");
+}
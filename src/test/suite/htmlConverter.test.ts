@@ -0,0 +1,129 @@
+import * as assert from "assert";
+import { Document } from "domhandler";
+import {
+  addAccessibilityAttributes,
+  addSemanticHints,
+  addUniqueClasses,
+  convertHtml,
+  parseHtml,
+  replaceInlineStyles,
+  serializeHtml,
+  wrapBody,
+} from "../../htmlConverter";
+import { readFixture } from "./fixtures";
+
+// Run one transformation on html/<name>.input.html and compare the markup
+// with html/<name>.expected.html
+function transformFixture(
+  name: string,
+  transform: (document: Document) => number | boolean
+): number | boolean {
+  const document = parseHtml(readFixture(`html/${name}.input.html`));
+  const result = transform(document);
+  assert.strictEqual(
+    serializeHtml(document),
+    readFixture(`html/${name}.expected.html`)
+  );
+  return result;
+}
+
+suite("htmlConverter", () => {
+  suite("wrapBody", () => {
+    test("wraps the page content and leaves trailing scripts outside", () => {
+      assert.strictEqual(
+        transformFixture("wrap-body", (document) => wrapBody(document)),
+        true
+      );
+    });
+
+    test("leaves snippets and wrapped pages alone", () => {
+      assert.strictEqual(wrapBody(parseHtml("<p>Snippet</p>")), false);
+      assert.strictEqual(
+        wrapBody(
+          parseHtml('<body><div class="htflow-wrapper"><p>x</p></div></body>')
+        ),
+        false
+      );
+    });
+
+    test("uses the project's wrapper class", () => {
+      const { html, changes } = convertHtml("<body><p>x</p></body>", {
+        wrapperClass: "page-wrapper",
+        uniqueClasses: false,
+        semanticHints: false,
+      });
+
+      assert.ok(html.includes('<div class="page-wrapper">'));
+      assert.deepStrictEqual(changes, [
+        "Wrapped the page content in page-wrapper",
+      ]);
+    });
+  });
+
+  suite("addUniqueClasses", () => {
+    test("names classless elements after their tag, skipping used names", () => {
+      assert.strictEqual(
+        transformFixture("unique-classes", (document) =>
+          addUniqueClasses(document)
+        ),
+        5
+      );
+    });
+  });
+
+  suite("replaceInlineStyles", () => {
+    test("moves inline styles into a new <style data-ht-styles> block", () => {
+      assert.strictEqual(
+        transformFixture("inline-styles", (document) =>
+          replaceInlineStyles(document)
+        ),
+        4
+      );
+    });
+
+    test("appends to an existing <style data-ht-styles> block", () => {
+      const document = parseHtml(
+        "<style data-ht-styles>\n  .a {\n    color: red;\n  }\n</style>\n" +
+          '<p style="gap: 1rem">x</p>'
+      );
+
+      assert.strictEqual(replaceInlineStyles(document), 1);
+      assert.strictEqual(
+        serializeHtml(document),
+        "<style data-ht-styles>\n  .a {\n    color: red;\n  }\n\n" +
+          "  .styled_element_1 {\n    row-gap: 1rem;\n    column-gap: 1rem;\n  }\n" +
+          '</style>\n<p class="styled_element_1">x</p>'
+      );
+    });
+  });
+
+  suite("addSemanticHints", () => {
+    test("suggests the missing landmarks inside the wrapper", () => {
+      assert.strictEqual(
+        transformFixture("semantic-hints", (document) =>
+          addSemanticHints(document)
+        ),
+        3
+      );
+    });
+
+    test("does not repeat hints from an earlier conversion", () => {
+      const document = parseHtml(
+        readFixture("html/semantic-hints.expected.html")
+      );
+
+      assert.strictEqual(addSemanticHints(document), 0);
+    });
+  });
+
+  suite("addAccessibilityAttributes", () => {
+    test("adds alt text placeholders and ids for labelled controls", () => {
+      assert.strictEqual(
+        transformFixture("accessibility", (document) =>
+          addAccessibilityAttributes(document)
+        ),
+        5
+      );
+    });
+  });
+});
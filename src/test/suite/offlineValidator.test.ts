@@ -0,0 +1,131 @@
+import * as assert from "assert";
+import { normalizeConfig } from "../../config";
+import {
+  checkedRules,
+  isDataAttributeSelector,
+  toDataSelector,
+  validateText,
+} from "../../offlineValidator";
+
+// Titles of the js-selectors issues found in a script
+function selectorIssues(script: string, rc: unknown = {}): string[] {
+  return validateText("js/main.js", script, normalizeConfig(rc))
+    .filter((issue) => issue.rule === "js-selectors")
+    .map((issue) => issue.title);
+}
+
+suite("offlineValidator", () => {
+  suite("js-selectors", () => {
+    test("reports $() and jQuery() wherever the call starts", () => {
+      assert.deepStrictEqual(
+        selectorIssues('$(".menu").hide();\nif (open) $(".nav").show();'),
+        [
+          'Selector ".menu" does not use a data-ht-* attribute',
+          'Selector ".nav" does not use a data-ht-* attribute',
+        ]
+      );
+      assert.deepStrictEqual(selectorIssues('jQuery("#hero")'), [
+        'Selector "#hero" does not use a data-ht-* attribute',
+      ]);
+    });
+
+    test("reports DOM lookups by class, id or tag", () => {
+      const issues = selectorIssues(
+        'document.querySelector(".menu");\n' +
+          'el.closest("section");\n' +
+          'document.getElementById("hero");'
+      );
+
+      assert.deepStrictEqual(issues, [
+        'Selector ".menu" does not use a data-ht-* attribute',
+        'Selector "section" does not use a data-ht-* attribute',
+        "getElementById does not select by data-ht-* attribute",
+      ]);
+    });
+
+    test("accepts data attribute selectors and skips what it cannot read", () => {
+      const issues = selectorIssues(
+        'document.querySelectorAll("[data-ht-menu] [data-ht-item]");\n' +
+          '$("<div>");\n' +
+          "document.querySelector(`.${name}`);\n" +
+          '// document.querySelector(".commented")\n' +
+          'my$(".not-jquery");'
+      );
+
+      assert.deepStrictEqual(issues, []);
+    });
+
+    test("follows validation.dataAttributes and jsSelectors", () => {
+      const script = 'document.querySelector("[data-ht-menu]");';
+
+      assert.deepStrictEqual(
+        selectorIssues(script, { validation: { dataAttributes: "data-x-*" } }),
+        ['Selector "[data-ht-menu]" does not use a data-x-* attribute']
+      );
+      assert.deepStrictEqual(
+        selectorIssues('$(".menu")', { validation: { jsSelectors: "any" } }),
+        []
+      );
+    });
+
+    test("checks inline scripts of .htf pages", () => {
+      const issues = validateText(
+        "index.htf",
+        '<div class="htflow-wrapper"><script>$(".menu")</script></div>',
+        normalizeConfig({})
+      );
+
+      assert.deepStrictEqual(
+        issues.map((issue) => [issue.rule, issue.line]),
+        [["js-selectors", 1]]
+      );
+    });
+  });
+
+  suite("checkedRules", () => {
+    test("lists the rules checked for the file type and configuration", () => {
+      const config = normalizeConfig({
+        rules: { "css-longhand": "off" },
+      });
+
+      assert.deepStrictEqual(checkedRules("index.html", config), [
+        "htflow-wrapper",
+        "data-attributes",
+        "js-selectors",
+      ]);
+      assert.deepStrictEqual(checkedRules("css/site.css", config), []);
+      assert.deepStrictEqual(checkedRules("js/main.js", config), [
+        "js-selectors",
+      ]);
+    });
+  });
+
+  suite("isDataAttributeSelector", () => {
+    test("requires every compound selector to use the prefix", () => {
+      assert.strictEqual(isDataAttributeSelector("[data-menu]"), true);
+      assert.strictEqual(
+        isDataAttributeSelector('[data-ht-tab="1"]:hover', "data-ht-"),
+        true
+      );
+      assert.strictEqual(
+        isDataAttributeSelector("[data-ht-menu], .nav", "data-ht-"),
+        false
+      );
+      assert.strictEqual(
+        isDataAttributeSelector("div[data-ht-menu]", "data-ht-"),
+        false
+      );
+    });
+  });
+
+  suite("toDataSelector", () => {
+    test("rewrites classes and ids to data attributes", () => {
+      assert.strictEqual(
+        toDataSelector(".nav > #menu-link:hover"),
+        "[data-ht-nav] > [data-ht-menu-link]:hover"
+      );
+      assert.strictEqual(toDataSelector(".nav", "data-x-"), "[data-x-nav]");
+      assert.strictEqual(toDataSelector("ul.nav"), undefined);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import * as assert from "assert";
+import { DEFAULT_CONFIG } from "../../config";
+import { convertTailwind, parseUtility } from "../../tailwindConverter";
+import { readFixture } from "./fixtures";
+
+const BREAKPOINTS = DEFAULT_CONFIG.responsive.breakpoints;
+
+suite("tailwindConverter", () => {
+  suite("parseUtility", () => {
+    test("reads screen and state prefixes", () => {
+      assert.deepStrictEqual(parseUtility("md:hover:bg-blue-500"), {
+        minWidth: 768,
+        state: ":hover",
+        declarations: [["background-color", "#3b82f6"]],
+      });
+    });
+
+    test("handles negative, important and arbitrary values", () => {
+      assert.deepStrictEqual(parseUtility("-mx-2")?.declarations, [
+        ["margin-right", "-0.5rem"],
+        ["margin-left", "-0.5rem"],
+      ]);
+      assert.deepStrictEqual(parseUtility("!mt-4")?.declarations, [
+        ["margin-top", "1rem !important"],
+      ]);
+      assert.deepStrictEqual(parseUtility("p-[13px]")?.declarations, [
+        ["padding-top", "13px"],
+        ["padding-right", "13px"],
+        ["padding-bottom", "13px"],
+        ["padding-left", "13px"],
+      ]);
+    });
+
+    test("rejects unknown utilities and variants", () => {
+      assert.strictEqual(parseUtility("dark:bg-black"), undefined);
+      assert.strictEqual(parseUtility("menu-toggle"), undefined);
+    });
+  });
+
+  suite("convertTailwind", () => {
+    test("writes desktop-first rules per breakpoint", () => {
+      const { html, changes } = convertTailwind(
+        readFixture("tailwind/hero.input.html"),
+        BREAKPOINTS
+      );
+
+      assert.strictEqual(html, readFixture("tailwind/hero.expected.html"));
+      assert.deepStrictEqual(changes, [
+        "Replaced 9 utility classes with 3 classes",
+        "Added tablet, mobileLandscape styles",
+        "lg: starts at 1024px, which is not a breakpoint, so its styles apply from 992px",
+        "Kept 1 class it could not convert (dark:bg-black)",
+      ]);
+    });
+
+    test("warns when a prefix does not line up with a breakpoint", () => {
+      const { html, changes } = convertTailwind(
+        '<p class="text-xl md:text-sm">Hi</p>',
+        { tablet: "991px", mobile: "479px" }
+      );
+
+      // text-sm from 480px rather than 768px
+      assert.ok(html.includes("@media (max-width: 479px)"));
+      assert.ok(!html.includes("@media (max-width: 991px)"));
+      assert.deepStrictEqual(changes.slice(1), [
+        "Added mobile styles",
+        "md: starts at 768px, which is not a breakpoint, so its styles apply from 480px",
+      ]);
+    });
+
+    test("leaves markup without utilities alone", () => {
+      const html = '<p class="intro">Hi</p>';
+
+      assert.deepStrictEqual(convertTailwind(html, BREAKPOINTS), {
+        html,
+        changes: [],
+      });
+    });
+  });
+});